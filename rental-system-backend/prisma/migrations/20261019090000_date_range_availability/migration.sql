@@ -0,0 +1,16 @@
+-- Item.quantity now holds the total number of units owned; availability is
+-- derived from bookings. Give back the units previously decremented by open rentals.
+UPDATE "Item" SET "quantity" = "quantity" + open."count"
+FROM (
+    SELECT "itemId", COUNT(*)::INTEGER AS "count"
+    FROM "Rental"
+    WHERE "status" IN ('PENDING', 'ACTIVE', 'OVERDUE')
+    GROUP BY "itemId"
+) AS open
+WHERE "Item"."id" = open."itemId";
+
+-- CreateIndex
+CREATE INDEX "Rental_itemId_startDate_endDate_idx" ON "Rental"("itemId", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "Maintenance_itemId_status_idx" ON "Maintenance"("itemId", "status");
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "RentalItem" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "returnedQuantity" INTEGER NOT NULL DEFAULT 0,
+    "returnDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "dailyRate" DOUBLE PRECISION NOT NULL,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "RentalItem_pkey" PRIMARY KEY ("id")
+);
+
+-- Move every existing single-item rental onto a line item
+INSERT INTO "RentalItem" ("id", "rentalId", "itemId", "quantity", "returnedQuantity", "returnDate", "createdAt", "updatedAt", "dailyRate", "discount", "subtotal")
+SELECT
+    gen_random_uuid()::TEXT,
+    "id",
+    "itemId",
+    1,
+    CASE WHEN "status" = 'COMPLETED' THEN 1 ELSE 0 END,
+    CASE WHEN "status" = 'COMPLETED' THEN "returnDate" ELSE NULL END,
+    "createdAt",
+    "updatedAt",
+    "dailyRate",
+    0,
+    "subtotal"
+FROM "Rental";
+
+-- DropForeignKey
+ALTER TABLE "Rental" DROP CONSTRAINT "Rental_itemId_fkey";
+
+-- DropIndex
+DROP INDEX "Rental_itemId_startDate_endDate_idx";
+
+-- AlterTable
+ALTER TABLE "Rental" DROP COLUMN "itemId",
+DROP COLUMN "dailyRate";
+
+-- CreateIndex
+CREATE INDEX "Rental_startDate_endDate_idx" ON "Rental"("startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "RentalItem_itemId_idx" ON "RentalItem"("itemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentalItem_rentalId_itemId_key" ON "RentalItem"("rentalId", "itemId");
+
+-- AddForeignKey
+ALTER TABLE "RentalItem" ADD CONSTRAINT "RentalItem_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalItem" ADD CONSTRAINT "RentalItem_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
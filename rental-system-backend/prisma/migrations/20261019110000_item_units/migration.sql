@@ -0,0 +1,90 @@
+-- CreateEnum
+CREATE TYPE "ItemTracking" AS ENUM ('BULK', 'SERIALIZED');
+
+-- CreateEnum
+CREATE TYPE "UnitCondition" AS ENUM ('NEW', 'GOOD', 'FAIR', 'POOR', 'DAMAGED');
+
+-- AlterTable
+ALTER TABLE "Item" ADD COLUMN     "tracking" "ItemTracking" NOT NULL DEFAULT 'BULK';
+
+-- AlterTable
+ALTER TABLE "Maintenance" ADD COLUMN     "unitId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ItemUnit" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "serialNumber" TEXT NOT NULL,
+    "condition" "UnitCondition" NOT NULL DEFAULT 'GOOD',
+    "location" TEXT,
+    "status" "ItemStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ItemUnit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RentalItemUnit" (
+    "id" TEXT NOT NULL,
+    "rentalItemId" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "checkedOutAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "returnedAt" TIMESTAMP(3),
+    "returnCondition" "UnitCondition",
+
+    CONSTRAINT "RentalItemUnit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItemUnit_serialNumber_key" ON "ItemUnit"("serialNumber");
+
+-- CreateIndex
+CREATE INDEX "ItemUnit_itemId_status_idx" ON "ItemUnit"("itemId", "status");
+
+-- CreateIndex
+CREATE INDEX "RentalItemUnit_unitId_idx" ON "RentalItemUnit"("unitId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentalItemUnit_rentalItemId_unitId_key" ON "RentalItemUnit"("rentalItemId", "unitId");
+
+-- AddForeignKey
+ALTER TABLE "ItemUnit" ADD CONSTRAINT "ItemUnit_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalItemUnit" ADD CONSTRAINT "RentalItemUnit_rentalItemId_fkey" FOREIGN KEY ("rentalItemId") REFERENCES "RentalItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalItemUnit" ADD CONSTRAINT "RentalItemUnit_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "ItemUnit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Maintenance" ADD CONSTRAINT "Maintenance_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "ItemUnit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Items with a serial number are single tracked units: convert each one that
+-- counts a single unit to SERIALIZED with one ItemUnit carrying that serial
+-- number and the item's status. Items with a serial number and a quantity
+-- above 1 stay BULK, as there is no serial number for the other units.
+UPDATE "Item"
+SET "tracking" = 'SERIALIZED',
+    "quantity" = CASE WHEN "status" = 'RETIRED' THEN 0 ELSE 1 END
+WHERE "serialNumber" IS NOT NULL AND "quantity" = 1;
+
+INSERT INTO "ItemUnit" ("id", "itemId", "serialNumber", "status", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "id", "serialNumber", "status", "createdAt", CURRENT_TIMESTAMP
+FROM "Item"
+WHERE "tracking" = 'SERIALIZED';
+
+-- The unit is the one out on the item's active or overdue rentals and the one
+-- its open maintenance records are about
+INSERT INTO "RentalItemUnit" ("id", "rentalItemId", "unitId", "checkedOutAt")
+SELECT gen_random_uuid()::TEXT, ri."id", u."id", r."startDate"
+FROM "RentalItem" ri
+JOIN "Rental" r ON r."id" = ri."rentalId"
+JOIN "ItemUnit" u ON u."itemId" = ri."itemId"
+WHERE r."status" IN ('ACTIVE', 'OVERDUE') AND ri."returnedQuantity" < ri."quantity";
+
+UPDATE "Maintenance" m
+SET "unitId" = u."id"
+FROM "ItemUnit" u
+WHERE u."itemId" = m."itemId" AND m."status" IN ('PENDING', 'IN_PROGRESS');
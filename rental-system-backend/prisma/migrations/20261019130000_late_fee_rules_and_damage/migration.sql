@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "AdjustmentType" ADD VALUE 'DAMAGE';
+
+-- AlterTable
+ALTER TABLE "RentalAdjustment" ADD COLUMN     "accruing" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "maintenanceId" TEXT,
+ADD COLUMN     "rentalItemId" TEXT;
+
+-- Late fees written by the scheduler so far were running totals
+UPDATE "RentalAdjustment" SET "accruing" = true WHERE "type" = 'LATE_FEE';
+
+-- CreateTable
+CREATE TABLE "LateFeeRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "feePerDay" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "dailyRateMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "gracePeriodHours" INTEGER NOT NULL DEFAULT 0,
+    "maxFeePerUnit" DOUBLE PRECISION,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LateFeeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LateFeeRule_categoryId_idx" ON "LateFeeRule"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "LateFeeRule" ADD CONSTRAINT "LateFeeRule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalAdjustment" ADD CONSTRAINT "RentalAdjustment_rentalItemId_fkey" FOREIGN KEY ("rentalItemId") REFERENCES "RentalItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalAdjustment" ADD CONSTRAINT "RentalAdjustment_maintenanceId_fkey" FOREIGN KEY ("maintenanceId") REFERENCES "Maintenance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
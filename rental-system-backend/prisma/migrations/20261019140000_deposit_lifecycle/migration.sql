@@ -0,0 +1,100 @@
+-- CreateEnum
+CREATE TYPE "DepositTransactionType" AS ENUM ('COLLECT', 'APPLY', 'REFUND');
+
+-- AlterEnum
+ALTER TYPE "PaymentMethod" ADD VALUE 'DEPOSIT';
+
+-- AlterTable
+ALTER TABLE "Rental" ADD COLUMN     "depositHeld" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "depositStatus" "PaymentStatus" NOT NULL DEFAULT 'UNPAID';
+
+-- Deposits are no longer part of the amount charged. What was already paid
+-- beyond the new total went toward the deposit and is now held as one.
+CREATE TEMP TABLE "DepositBackfill" AS
+SELECT "id" AS "rentalId",
+    LEAST("deposit", GREATEST("amountPaid" - ("totalAmount" - "deposit"), 0)) AS "held"
+FROM "Rental"
+WHERE "deposit" > 0;
+
+UPDATE "Rental" r
+SET "totalAmount" = r."totalAmount" - r."deposit",
+    "amountPaid" = r."amountPaid" - b."held",
+    "amountDue" = GREATEST(r."totalAmount" - r."deposit" - (r."amountPaid" - b."held"), 0),
+    "depositHeld" = b."held",
+    "depositStatus" = CASE
+        WHEN b."held" <= 0 THEN 'UNPAID'::"PaymentStatus"
+        WHEN b."held" < r."deposit" THEN 'PARTIAL'::"PaymentStatus"
+        ELSE 'PAID'::"PaymentStatus"
+    END
+FROM "DepositBackfill" b
+WHERE b."rentalId" = r."id";
+
+UPDATE "Rental"
+SET "paymentStatus" = CASE
+    WHEN "amountPaid" > 0 AND "amountPaid" >= "totalAmount" THEN 'PAID'::"PaymentStatus"
+    WHEN "amountPaid" > 0 THEN 'PARTIAL'::"PaymentStatus"
+    ELSE 'UNPAID'::"PaymentStatus"
+END
+WHERE "deposit" > 0;
+
+-- CreateTable
+CREATE TABLE "DepositTransaction" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "type" "DepositTransactionType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paymentMethod" "PaymentMethod",
+    "paymentId" TEXT,
+    "reference" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DepositTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DepositTransaction_paymentId_key" ON "DepositTransaction"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "DepositTransaction_rentalId_idx" ON "DepositTransaction"("rentalId");
+
+-- CreateIndex
+CREATE INDEX "DepositTransaction_type_createdAt_idx" ON "DepositTransaction"("type", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DepositTransaction" ADD CONSTRAINT "DepositTransaction_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "Rental"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DepositTransaction" ADD CONSTRAINT "DepositTransaction_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Record the deposit held as collected, in the method of the latest payment
+INSERT INTO "DepositTransaction" ("id", "rentalId", "type", "amount", "paymentMethod", "notes")
+SELECT gen_random_uuid()::TEXT, b."rentalId", 'COLLECT', b."held",
+    COALESCE((
+        SELECT p."paymentMethod" FROM "Payment" p
+        WHERE p."rentalId" = b."rentalId" AND p."amount" > 0
+        ORDER BY p."paymentDate" DESC, p."id" DESC
+        LIMIT 1
+    ), 'CASH'),
+    'Paid with the rental payments before deposits were tracked separately'
+FROM "DepositBackfill" b
+WHERE b."held" > 0;
+
+-- Take the deposit out of the payments it was paid with, latest first, so
+-- payments only cover charges (rental totals are recomputed from them)
+UPDATE "Payment" p
+SET "amount" = p."amount" - t."taken"
+FROM (
+    SELECT pay."id",
+        LEAST(pay."amount", GREATEST(b."held" - COALESCE(SUM(pay."amount") OVER (
+            PARTITION BY pay."rentalId"
+            ORDER BY pay."paymentDate" DESC, pay."id" DESC
+            ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ), 0), 0)) AS "taken"
+    FROM "Payment" pay
+    JOIN "DepositBackfill" b ON b."rentalId" = pay."rentalId"
+    WHERE pay."amount" > 0 AND b."held" > 0
+) t
+WHERE p."id" = t."id" AND t."taken" > 0;
+
+DROP TABLE "DepositBackfill";
@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "AdjustmentType" ADD VALUE 'CANCELLATION_FEE';
+
+-- AlterTable
+ALTER TABLE "Rental" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CancellationFeeTier" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "withinHours" INTEGER NOT NULL,
+    "feePercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "flatFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CancellationFeeTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CancellationFeeTier_active_withinHours_idx" ON "CancellationFeeTier"("active", "withinHours");
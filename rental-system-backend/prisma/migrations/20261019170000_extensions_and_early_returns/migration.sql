@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "AdjustmentType" ADD VALUE 'EXTENSION';
+ALTER TYPE "AdjustmentType" ADD VALUE 'EARLY_RETURN_CREDIT';
+
+-- CreateTable
+CREATE TABLE "RentalExtension" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "adjustmentId" TEXT,
+    "previousEndDate" TIMESTAMP(3) NOT NULL,
+    "newEndDate" TIMESTAMP(3) NOT NULL,
+    "extraDays" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RentalExtension_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentalExtension_adjustmentId_key" ON "RentalExtension"("adjustmentId");
+
+-- CreateIndex
+CREATE INDEX "RentalExtension_rentalId_idx" ON "RentalExtension"("rentalId");
+
+-- AddForeignKey
+ALTER TABLE "RentalExtension" ADD CONSTRAINT "RentalExtension_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalExtension" ADD CONSTRAINT "RentalExtension_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentalExtension" ADD CONSTRAINT "RentalExtension_adjustmentId_fkey" FOREIGN KEY ("adjustmentId") REFERENCES "RentalAdjustment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
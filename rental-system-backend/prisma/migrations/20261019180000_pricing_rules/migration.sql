@@ -0,0 +1,77 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "groupId" TEXT;
+
+-- AlterTable
+ALTER TABLE "RentalItem" ADD COLUMN     "pricing" JSONB;
+
+-- CreateTable
+CREATE TABLE "CustomerGroup" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "discountPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RatePlan" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "itemId" TEXT,
+    "categoryId" TEXT,
+    "dailyRate" DOUBLE PRECISION,
+    "weeklyRate" DOUBLE PRECISION,
+    "monthlyRate" DOUBLE PRECISION,
+    "weekendMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RatePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SeasonalRate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "itemId" TEXT,
+    "categoryId" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "multiplier" DOUBLE PRECISION NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SeasonalRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerGroup_name_key" ON "CustomerGroup"("name");
+
+-- CreateIndex
+CREATE INDEX "RatePlan_itemId_idx" ON "RatePlan"("itemId");
+
+-- CreateIndex
+CREATE INDEX "RatePlan_categoryId_idx" ON "RatePlan"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "SeasonalRate_startDate_endDate_idx" ON "SeasonalRate"("startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "Customer" ADD CONSTRAINT "Customer_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "CustomerGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeasonalRate" ADD CONSTRAINT "SeasonalRate_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeasonalRate" ADD CONSTRAINT "SeasonalRate_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "PaymentType" AS ENUM ('PAYMENT', 'REFUND', 'REVERSAL');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "type" "PaymentType" NOT NULL DEFAULT 'PAYMENT',
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "reversedPaymentId" TEXT,
+ADD COLUMN     "userId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_reversedPaymentId_key" ON "Payment"("reversedPaymentId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_reversedPaymentId_fkey" FOREIGN KEY ("reversedPaymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Negative payments recorded so far were refunds
+UPDATE "Payment" SET "type" = 'REFUND' WHERE "amount" < 0;
@@ -0,0 +1,153 @@
+-- CreateEnum
+CREATE TYPE "AccountType" AS ENUM ('ASSET', 'LIABILITY', 'EQUITY', 'REVENUE', 'EXPENSE');
+
+-- CreateEnum
+CREATE TYPE "JournalSource" AS ENUM ('RENTAL', 'PAYMENT', 'DEPOSIT', 'EXPENSE');
+
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "AccountType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "description" TEXT NOT NULL,
+    "source" "JournalSource" NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "rentalId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalLine" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "accountCode" TEXT NOT NULL,
+    "debit" INTEGER NOT NULL DEFAULT 0,
+    "credit" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "JournalLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_source_sourceId_idx" ON "JournalEntry"("source", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_rentalId_idx" ON "JournalEntry"("rentalId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_date_idx" ON "JournalEntry"("date");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_entryId_idx" ON "JournalLine"("entryId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_accountCode_idx" ON "JournalLine"("accountCode");
+
+-- AddForeignKey
+ALTER TABLE "JournalEntry" ADD CONSTRAINT "JournalEntry_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "Rental"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JournalLine" ADD CONSTRAINT "JournalLine_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "JournalEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JournalLine" ADD CONSTRAINT "JournalLine_accountCode_fkey" FOREIGN KEY ("accountCode") REFERENCES "LedgerAccount"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Chart of accounts (codes are referenced by services/ledger.js)
+INSERT INTO "LedgerAccount" ("code", "name", "type") VALUES
+    ('1000', 'Cash', 'ASSET'),
+    ('1010', 'Bank', 'ASSET'),
+    ('1020', 'Mobile money', 'ASSET'),
+    ('1100', 'Accounts receivable', 'ASSET'),
+    ('2000', 'Deposits held', 'LIABILITY'),
+    ('4000', 'Rental revenue', 'REVENUE'),
+    ('4100', 'Fee revenue', 'REVENUE'),
+    ('5000', 'Maintenance expense', 'EXPENSE'),
+    ('5100', 'Procurement expense', 'EXPENSE'),
+    ('5200', 'Salaries', 'EXPENSE'),
+    ('5300', 'Utilities', 'EXPENSE'),
+    ('5900', 'Other expenses', 'EXPENSE');
+
+-- Post the existing records. Each opening entry takes the id of the record it
+-- was posted from; lines carry signed cents (debit positive) until split below.
+INSERT INTO "JournalEntry" ("id", "date", "description", "source", "sourceId", "rentalId")
+SELECT "id", "createdAt", 'Rental charges', 'RENTAL', "id", "id" FROM "Rental";
+
+INSERT INTO "JournalEntry" ("id", "date", "description", "source", "sourceId", "rentalId")
+SELECT "id", "paymentDate",
+    CASE "type" WHEN 'REFUND' THEN 'Refund' WHEN 'REVERSAL' THEN 'Payment reversal' ELSE 'Payment' END,
+    'PAYMENT', "id", "rentalId"
+FROM "Payment";
+
+-- Applied deposits are posted through their DEPOSIT payment
+INSERT INTO "JournalEntry" ("id", "date", "description", "source", "sourceId", "rentalId")
+SELECT "id", "createdAt",
+    CASE "type" WHEN 'COLLECT' THEN 'Deposit collected' ELSE 'Deposit refunded' END,
+    'DEPOSIT', "id", "rentalId"
+FROM "DepositTransaction"
+WHERE "type" <> 'APPLY';
+
+INSERT INTO "JournalEntry" ("id", "date", "description", "source", "sourceId")
+SELECT "id", "expenseDate", 'Expense: ' || "description", 'EXPENSE', "id" FROM "Expense";
+
+INSERT INTO "JournalLine" ("id", "entryId", "accountCode", "debit", "credit")
+SELECT gen_random_uuid()::TEXT, "entryId", "accountCode", GREATEST("amount", 0), GREATEST(-"amount", 0)
+FROM (
+    -- Rental charges: receivable against rental and fee revenue
+    SELECT r."id" AS "entryId", '1100' AS "accountCode", ROUND(r."totalAmount" * 100)::INTEGER AS "amount"
+    FROM "Rental" r
+    UNION ALL
+    SELECT r."id", '4000', COALESCE(f."fees", 0) - ROUND(r."totalAmount" * 100)::INTEGER
+    FROM "Rental" r
+    LEFT JOIN (
+        SELECT "rentalId", ROUND(SUM("amount") * 100)::INTEGER AS "fees"
+        FROM "RentalAdjustment"
+        WHERE "type" IN ('LATE_FEE', 'DAMAGE', 'CANCELLATION_FEE')
+        GROUP BY "rentalId"
+    ) f ON f."rentalId" = r."id"
+    UNION ALL
+    SELECT "rentalId", '4100', -ROUND(SUM("amount") * 100)::INTEGER
+    FROM "RentalAdjustment"
+    WHERE "type" IN ('LATE_FEE', 'DAMAGE', 'CANCELLATION_FEE')
+    GROUP BY "rentalId"
+    -- Payments: money in against the receivable (DEPOSIT payments draw on deposits held)
+    UNION ALL
+    SELECT "id",
+        CASE "paymentMethod" WHEN 'CASH' THEN '1000' WHEN 'MOBILE_MONEY' THEN '1020' WHEN 'DEPOSIT' THEN '2000' ELSE '1010' END,
+        ROUND("amount" * 100)::INTEGER
+    FROM "Payment"
+    UNION ALL
+    SELECT "id", '1100', -ROUND("amount" * 100)::INTEGER FROM "Payment"
+    -- Deposits: money in (or out) against deposits held
+    UNION ALL
+    SELECT "id",
+        CASE "paymentMethod" WHEN 'MOBILE_MONEY' THEN '1020' WHEN 'CARD' THEN '1010' WHEN 'BANK_TRANSFER' THEN '1010' ELSE '1000' END,
+        CASE "type" WHEN 'COLLECT' THEN 1 ELSE -1 END * ROUND("amount" * 100)::INTEGER
+    FROM "DepositTransaction"
+    WHERE "type" <> 'APPLY'
+    UNION ALL
+    SELECT "id", '2000', CASE "type" WHEN 'COLLECT' THEN -1 ELSE 1 END * ROUND("amount" * 100)::INTEGER
+    FROM "DepositTransaction"
+    WHERE "type" <> 'APPLY'
+    -- Expenses: paid in cash
+    UNION ALL
+    SELECT "id",
+        CASE "category" WHEN 'MAINTENANCE' THEN '5000' WHEN 'PROCUREMENT' THEN '5100' WHEN 'SALARY' THEN '5200' WHEN 'UTILITIES' THEN '5300' ELSE '5900' END,
+        ROUND("amount" * 100)::INTEGER
+    FROM "Expense"
+    UNION ALL
+    SELECT "id", '1000', -ROUND("amount" * 100)::INTEGER FROM "Expense"
+) AS "lines"
+WHERE "amount" <> 0;
+
+-- Drop opening entries with nothing to post (e.g. rentals with a zero total)
+DELETE FROM "JournalEntry" e WHERE NOT EXISTS (SELECT 1 FROM "JournalLine" l WHERE l."entryId" = e."id");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "itemId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Expense_itemId_idx" ON "Expense"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "DepreciationMethod" AS ENUM ('STRAIGHT_LINE', 'DECLINING_BALANCE');
+
+-- AlterEnum
+ALTER TYPE "JournalSource" ADD VALUE 'DISPOSAL';
+
+-- CreateTable
+CREATE TABLE "Purchase" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "supplier" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "cost" DOUBLE PRECISION NOT NULL,
+    "purchaseDate" TIMESTAMP(3) NOT NULL,
+    "warrantyUntil" TIMESTAMP(3),
+    "invoiceNumber" TEXT,
+    "notes" TEXT,
+    "expenseId" TEXT NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Purchase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DepreciationPolicy" (
+    "categoryId" TEXT NOT NULL,
+    "method" "DepreciationMethod" NOT NULL,
+    "usefulLifeMonths" INTEGER,
+    "annualRate" DOUBLE PRECISION,
+    "salvagePercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DepreciationPolicy_pkey" PRIMARY KEY ("categoryId")
+);
+
+-- CreateTable
+CREATE TABLE "AssetDisposal" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "disposedAt" TIMESTAMP(3) NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AssetDisposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Purchase_expenseId_key" ON "Purchase"("expenseId");
+
+-- CreateIndex
+CREATE INDEX "Purchase_itemId_idx" ON "Purchase"("itemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AssetDisposal_itemId_key" ON "AssetDisposal"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DepreciationPolicy" ADD CONSTRAINT "DepreciationPolicy_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssetDisposal" ADD CONSTRAINT "AssetDisposal_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssetDisposal" ADD CONSTRAINT "AssetDisposal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Proceeds from disposing of retired items
+INSERT INTO "LedgerAccount" ("code", "name", "type") VALUES ('4200', 'Asset disposal proceeds', 'REVENUE');
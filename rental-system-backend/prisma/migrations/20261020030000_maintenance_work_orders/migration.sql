@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Maintenance" ADD COLUMN     "labourCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "partsCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "technician" TEXT;
+
+-- Costs recorded before the parts/labour split are kept as labour
+UPDATE "Maintenance" SET "labourCost" = "cost";
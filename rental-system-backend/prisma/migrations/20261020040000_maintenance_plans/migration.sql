@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "MaintenanceTrigger" AS ENUM ('CALENDAR', 'RENTAL_COUNT', 'RENTAL_DAYS');
+
+-- AlterTable
+ALTER TABLE "Maintenance" ADD COLUMN     "planId" TEXT;
+
+-- CreateTable
+CREATE TABLE "MaintenancePlan" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "itemId" TEXT,
+    "categoryId" TEXT,
+    "trigger" "MaintenanceTrigger" NOT NULL,
+    "interval" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MaintenancePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenancePlan_itemId_idx" ON "MaintenancePlan"("itemId");
+
+-- CreateIndex
+CREATE INDEX "MaintenancePlan_categoryId_idx" ON "MaintenancePlan"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "Maintenance_planId_itemId_idx" ON "Maintenance"("planId", "itemId");
+
+-- AddForeignKey
+ALTER TABLE "Maintenance" ADD CONSTRAINT "Maintenance_planId_fkey" FOREIGN KEY ("planId") REFERENCES "MaintenancePlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenancePlan" ADD CONSTRAINT "MaintenancePlan_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenancePlan" ADD CONSTRAINT "MaintenancePlan_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
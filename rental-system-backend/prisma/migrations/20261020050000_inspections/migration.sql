@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "InspectionStage" AS ENUM ('CHECKOUT', 'RETURN');
+
+-- CreateTable
+CREATE TABLE "InspectionChecklist" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "checks" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InspectionChecklist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Inspection" (
+    "id" TEXT NOT NULL,
+    "rentalId" TEXT NOT NULL,
+    "rentalItemId" TEXT NOT NULL,
+    "unitId" TEXT,
+    "stage" "InspectionStage" NOT NULL,
+    "condition" "UnitCondition" NOT NULL,
+    "checks" JSONB NOT NULL,
+    "notes" TEXT,
+    "maintenanceId" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Inspection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InspectionPhoto" (
+    "id" TEXT NOT NULL,
+    "inspectionId" TEXT,
+    "filePath" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InspectionPhoto_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InspectionChecklist_categoryId_key" ON "InspectionChecklist"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "Inspection_rentalId_idx" ON "Inspection"("rentalId");
+
+-- CreateIndex
+CREATE INDEX "Inspection_rentalItemId_stage_idx" ON "Inspection"("rentalItemId", "stage");
+
+-- CreateIndex
+CREATE INDEX "InspectionPhoto_inspectionId_idx" ON "InspectionPhoto"("inspectionId");
+
+-- AddForeignKey
+ALTER TABLE "InspectionChecklist" ADD CONSTRAINT "InspectionChecklist_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Inspection" ADD CONSTRAINT "Inspection_rentalId_fkey" FOREIGN KEY ("rentalId") REFERENCES "Rental"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Inspection" ADD CONSTRAINT "Inspection_rentalItemId_fkey" FOREIGN KEY ("rentalItemId") REFERENCES "RentalItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Inspection" ADD CONSTRAINT "Inspection_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "ItemUnit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Inspection" ADD CONSTRAINT "Inspection_maintenanceId_fkey" FOREIGN KEY ("maintenanceId") REFERENCES "Maintenance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Inspection" ADD CONSTRAINT "Inspection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InspectionPhoto" ADD CONSTRAINT "InspectionPhoto_inspectionId_fkey" FOREIGN KEY ("inspectionId") REFERENCES "Inspection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+// Runtime settings read from the environment (loaded by dotenv in server.js)
+
+const path = require('path')
+
+const minutes = (value, fallback) => (parseInt(value) || fallback) * 60 * 1000
+
+module.exports = {
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    intervals: {
+      markOverdue: minutes(process.env.OVERDUE_JOB_INTERVAL_MINUTES, 15),
+      applyLateFees: minutes(process.env.LATE_FEE_JOB_INTERVAL_MINUTES, 60),
+      queueReminders: minutes(process.env.REMINDER_JOB_INTERVAL_MINUTES, 60),
+      expireQuotes: minutes(process.env.QUOTE_EXPIRY_JOB_INTERVAL_MINUTES, 60),
+    },
+  },
+  lateFees: {
+    // Late fee per day as a multiple of the outstanding lines' daily rate
+    dailyRateMultiplier: parseFloat(process.env.LATE_FEE_DAILY_RATE_MULTIPLIER || '1'),
+  },
+  earlyReturns: {
+    // NONE: early returns are billed for the full booking; CREDIT: unused
+    // whole days are credited back at creditPercent of the daily rate
+    policy: (process.env.EARLY_RETURN_POLICY || 'NONE').toUpperCase(),
+    creditPercent: parseFloat(process.env.EARLY_RETURN_CREDIT_PERCENT || '100'),
+  },
+  quotes: {
+    // How long a quote stays valid (and holds stock) when no expiry is given
+    validityDays: parseInt(process.env.QUOTE_VALIDITY_DAYS) || 14,
+  },
+  storage: {
+    // Generated and uploaded files (signed agreements, inspection photos, ...)
+    dir: path.resolve(process.env.STORAGE_DIR || 'storage'),
+  },
+  inspections: {
+    // Largest inspection photo accepted, in bytes or as e.g. '10mb'
+    maxPhotoSize: process.env.INSPECTION_PHOTO_MAX_SIZE || '10mb',
+  },
+  labels: {
+    // Symbology printed on item labels when none is asked for: qrcode or code128
+    format: process.env.LABEL_FORMAT || 'qrcode',
+  },
+  agreements: {
+    // Refuse check-out until the rental agreement has been signed
+    requiredForCheckout: process.env.REQUIRE_SIGNED_AGREEMENT === 'true',
+  },
+  business: {
+    // Printed on invoices and receipts
+    name: process.env.BUSINESS_NAME || 'Rental Inventory',
+    address: process.env.BUSINESS_ADDRESS || '',
+    phone: process.env.BUSINESS_PHONE || '',
+    email: process.env.BUSINESS_EMAIL || '',
+    taxId: process.env.BUSINESS_TAX_ID || '',
+  },
+  reports: {
+    // IANA time zone that report periods (days, weeks, months) start in
+    timezone: process.env.REPORT_TIMEZONE || 'UTC',
+  },
+  reminders: {
+    // How far ahead of endDate the return reminder goes out
+    returnReminderHours: parseInt(process.env.RETURN_REMINDER_HOURS) || 24,
+    // Minimum gap between overdue notices for the same rental
+    overdueNoticeHours: parseInt(process.env.OVERDUE_NOTICE_HOURS) || 24,
+  },
+}
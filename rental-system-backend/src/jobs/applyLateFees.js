@@ -0,0 +1,26 @@
+const config = require('../config')
+const { loadLateFeeRules, refreshAccruingLateFee } = require('../services/lateFees')
+
+// Refresh the accruing late fee on every overdue rental
+module.exports = {
+  name: 'apply-late-fees',
+  description: 'Charge late fees on overdue rentals',
+  intervalMs: config.scheduler.intervals.applyLateFees,
+  run: async ({ prisma, now }) => {
+    const [rentals, rules] = await Promise.all([
+      prisma.rental.findMany({
+        where: { status: 'OVERDUE' },
+        select: { id: true },
+      }),
+      loadLateFeeRules(prisma),
+    ])
+
+    let updated = 0
+    for (const rental of rentals) {
+      const fee = await prisma.$transaction((tx) => refreshAccruingLateFee(tx, rental.id, now, rules))
+      if (fee !== null) updated++
+    }
+
+    return { overdueRentals: rentals.length, feesUpdated: updated }
+  },
+}
@@ -0,0 +1,14 @@
+// Real clock used by the scheduler. Tests can pass any object with the same
+// shape to control time and timers.
+const systemClock = {
+  now: () => new Date(),
+  setInterval: (fn, ms) => {
+    const handle = setInterval(fn, ms)
+    // Don't keep the process alive just for background jobs
+    handle.unref()
+    return handle
+  },
+  clearInterval: (handle) => clearInterval(handle),
+}
+
+module.exports = { systemClock }
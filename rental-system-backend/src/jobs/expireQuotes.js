@@ -0,0 +1,14 @@
+const config = require('../config')
+const { expireQuotes } = require('../services/quotes')
+
+// Live quotes past their expiry become EXPIRED and stop holding stock
+module.exports = {
+  name: 'expire-quotes',
+  description: 'Expire quotes past their expiry date',
+  intervalMs: config.scheduler.intervals.expireQuotes,
+  run: async ({ prisma, now }) => {
+    const expiredQuotes = await expireQuotes(prisma, { now })
+
+    return { expiredQuotes }
+  },
+}
@@ -0,0 +1,15 @@
+const { PrismaClient } = require('@prisma/client')
+const { createScheduler } = require('./scheduler')
+const markOverdue = require('./markOverdue')
+const applyLateFees = require('./applyLateFees')
+const queueReminders = require('./queueReminders')
+const expireQuotes = require('./expireQuotes')
+
+const prisma = new PrismaClient()
+
+// Order matters: fees and notices build on the overdue status
+const jobs = [markOverdue, applyLateFees, queueReminders, expireQuotes]
+
+const scheduler = createScheduler({ prisma, jobs })
+
+module.exports = { jobs, scheduler }
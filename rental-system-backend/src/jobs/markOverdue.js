@@ -0,0 +1,31 @@
+const config = require('../config')
+const { markRentalOverdue } = require('../services/rentalLifecycle')
+
+// ACTIVE rentals past their endDate become OVERDUE
+module.exports = {
+  name: 'mark-overdue',
+  description: 'Move active rentals past their end date to OVERDUE',
+  intervalMs: config.scheduler.intervals.markOverdue,
+  run: async ({ prisma, now }) => {
+    const rentals = await prisma.rental.findMany({
+      where: {
+        status: 'ACTIVE',
+        endDate: { lt: now },
+      },
+      select: { id: true },
+    })
+
+    // A rental returned or extended since the query is skipped, not a failure
+    let markedOverdue = 0
+    for (const rental of rentals) {
+      try {
+        await prisma.$transaction((tx) => markRentalOverdue(tx, rental.id, { now }))
+        markedOverdue++
+      } catch (error) {
+        if (error.status !== 409) throw error
+      }
+    }
+
+    return { markedOverdue }
+  },
+}
@@ -0,0 +1,78 @@
+const config = require('../config')
+
+const HOUR = 1000 * 60 * 60
+
+const formatDate = (date) => date.toISOString().slice(0, 10)
+
+const describeItems = (rental) =>
+  rental.items.map((line) => `${line.quantity} × ${line.item.name}`).join(', ')
+
+// Queue return reminders for rentals due soon and notices for overdue ones
+module.exports = {
+  name: 'queue-reminders',
+  description: 'Queue return reminders and overdue notices for customers',
+  intervalMs: config.scheduler.intervals.queueReminders,
+  run: async ({ prisma, now }) => {
+    const include = {
+      customer: true,
+      items: { include: { item: true } },
+    }
+
+    const [dueSoon, overdue] = await Promise.all([
+      // Due within the reminder window and not yet reminded
+      prisma.rental.findMany({
+        where: {
+          status: 'ACTIVE',
+          endDate: {
+            gte: now,
+            lte: new Date(now.getTime() + config.reminders.returnReminderHours * HOUR),
+          },
+          notifications: { none: { type: 'RETURN_REMINDER' } },
+        },
+        include,
+      }),
+      // Overdue and not noticed within the notice interval
+      prisma.rental.findMany({
+        where: {
+          status: 'OVERDUE',
+          notifications: {
+            none: {
+              type: 'OVERDUE_NOTICE',
+              createdAt: { gt: new Date(now.getTime() - config.reminders.overdueNoticeHours * HOUR) },
+            },
+          },
+        },
+        include,
+      }),
+    ])
+
+    const notifications = [
+      ...dueSoon.map((rental) => ({
+        type: 'RETURN_REMINDER',
+        recipient: rental.customer.email,
+        customerId: rental.customerId,
+        rentalId: rental.id,
+        subject: 'Your rental is due back soon',
+        body: `Hi ${rental.customer.name}, a reminder that ${describeItems(rental)} ` +
+          `is due back on ${formatDate(rental.endDate)}.`,
+        scheduledFor: now,
+      })),
+      ...overdue.map((rental) => ({
+        type: 'OVERDUE_NOTICE',
+        recipient: rental.customer.email,
+        customerId: rental.customerId,
+        rentalId: rental.id,
+        subject: 'Your rental is overdue',
+        body: `Hi ${rental.customer.name}, ${describeItems(rental)} was due back on ` +
+          `${formatDate(rental.endDate)}. Late fees apply until it is returned.`,
+        scheduledFor: now,
+      })),
+    ]
+
+    if (notifications.length > 0) {
+      await prisma.notification.createMany({ data: notifications })
+    }
+
+    return { returnReminders: dueSoon.length, overdueNotices: overdue.length }
+  },
+}
@@ -0,0 +1,91 @@
+const { systemClock } = require('./clock')
+
+// In-process job runner. Each job is { name, description, intervalMs, run }
+// where run({ prisma, now }) returns a JSON-serializable result.
+const createScheduler = ({ prisma, jobs, clock = systemClock, logger = console }) => {
+  const timers = new Map()
+  const running = new Set()
+
+  const getJob = (name) => jobs.find((job) => job.name === name)
+
+  // Record how a run ended; `onFinish(tx, jobRun)` is written in the same
+  // transaction, e.g. the audit entry for a manual run
+  const finishRun = (id, data, onFinish) =>
+    prisma.$transaction(async (tx) => {
+      const jobRun = await tx.jobRun.update({ where: { id }, data })
+      if (onFinish) {
+        await onFinish(tx, jobRun)
+      }
+      return jobRun
+    })
+
+  // Run a job once, recording the run in the job history
+  const runJob = async (name, { trigger = 'SCHEDULED', userId, onFinish } = {}) => {
+    const job = getJob(name)
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`)
+    }
+
+    // Never overlap runs of the same job
+    if (running.has(name)) {
+      logger.warn(`Job ${name} is already running, skipping`)
+      return null
+    }
+
+    // Released even when the run cannot be recorded, so one failed insert
+    // does not block the job until the process restarts
+    running.add(name)
+    try {
+      const now = clock.now()
+      const jobRun = await prisma.jobRun.create({
+        data: {
+          jobName: name,
+          trigger,
+          triggeredById: userId,
+          startedAt: now,
+        },
+      })
+
+      try {
+        const result = await job.run({ prisma, now })
+
+        return await finishRun(jobRun.id, { status: 'SUCCEEDED', finishedAt: clock.now(), result }, onFinish)
+      } catch (error) {
+        logger.error(`Job ${name} failed:`, error)
+
+        return await finishRun(
+          jobRun.id,
+          { status: 'FAILED', finishedAt: clock.now(), error: error.message },
+          onFinish
+        )
+      }
+    } finally {
+      running.delete(name)
+    }
+  }
+
+  const start = () => {
+    for (const job of jobs) {
+      if (timers.has(job.name)) continue
+
+      const handle = clock.setInterval(() => {
+        runJob(job.name).catch((error) => logger.error(`Job ${job.name} error:`, error))
+      }, job.intervalMs)
+
+      timers.set(job.name, handle)
+    }
+  }
+
+  const stop = () => {
+    for (const handle of timers.values()) {
+      clock.clearInterval(handle)
+    }
+    timers.clear()
+  }
+
+  const isRunning = (name) => running.has(name)
+
+  return { jobs, getJob, runJob, start, stop, isRunning }
+}
+
+module.exports = { createScheduler }
@@ -0,0 +1,134 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireAdmin } = require('../middleware/auth')
+const { DEFAULT_TERMS } = require('../services/agreements')
+const { recordAudit } = require('../services/audit')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// ALL ROUTES IN THIS FILE ARE ADMIN ONLY
+
+// Get all agreement templates, plus the built-in terms used when none is active
+router.get('/templates', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const templates = await prisma.agreementTemplate.findMany({
+      include: {
+        _count: {
+          select: { agreements: true },
+        },
+      },
+      orderBy: [{ active: 'desc' }, { updatedAt: 'desc' }],
+    })
+
+    res.json({ templates, defaultTerms: DEFAULT_TERMS })
+  } catch (error) {
+    console.error('Get agreement templates error:', error)
+    res.status(500).json({ error: 'Failed to fetch agreement templates' })
+  }
+})
+
+// Create agreement template
+router.post('/templates', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { name, body, active = true } = req.body
+
+    if (!name || !body) {
+      return res.status(400).json({ error: 'Name and body are required' })
+    }
+
+    const template = await prisma.$transaction(async (tx) => {
+      const created = await tx.agreementTemplate.create({
+        data: { name, body, active: Boolean(active) },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'AgreementTemplate',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(template)
+  } catch (error) {
+    console.error('Create agreement template error:', error)
+    res.status(500).json({ error: 'Failed to create agreement template' })
+  }
+})
+
+// Update agreement template. Signed agreements keep the wording they were signed with.
+router.put('/templates/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { name, body, active } = req.body
+
+    const template = await prisma.$transaction(async (tx) => {
+      const existing = await tx.agreementTemplate.findUnique({ where: { id } })
+
+      const updated = await tx.agreementTemplate.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(body && { body }),
+          ...(active !== undefined && { active: Boolean(active) }),
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'AgreementTemplate',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
+    })
+
+    res.json(template)
+  } catch (error) {
+    console.error('Update agreement template error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Agreement template not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to update agreement template' })
+  }
+})
+
+// Delete agreement template
+router.delete('/templates/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const template = await tx.agreementTemplate.delete({ where: { id } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'AgreementTemplate',
+        entityId: id,
+        before: template,
+      })
+    })
+
+    res.json({ message: 'Agreement template deleted successfully' })
+  } catch (error) {
+    console.error('Delete agreement template error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Agreement template not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete agreement template' })
+  }
+})
+
+module.exports = router
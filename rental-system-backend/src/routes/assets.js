@@ -0,0 +1,322 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireAdmin } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+const {
+  parseDepreciationPolicy,
+  createPurchase,
+  updatePurchase,
+  deletePurchase,
+  retireItem,
+  getAssetRegister,
+} = require('../services/assets')
+const { toCsv, sendCsv } = require('../utils/csv')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// ALL ROUTES IN THIS FILE ARE ADMIN ONLY
+
+const purchaseInclude = {
+  item: { select: { id: true, name: true } },
+  user: { select: { id: true, name: true } },
+}
+
+// Get all purchases
+router.get('/purchases', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { page = 1, limit = 10, itemId, supplier, startDate, endDate } = req.query
+
+    const skip = (parseInt(page) - 1) * parseInt(limit)
+    const take = parseInt(limit)
+
+    const where = {}
+
+    if (itemId) {
+      where.itemId = itemId
+    }
+
+    if (supplier) {
+      where.supplier = { contains: supplier, mode: 'insensitive' }
+    }
+
+    if (startDate || endDate) {
+      where.purchaseDate = {}
+      if (startDate) where.purchaseDate.gte = new Date(startDate)
+      if (endDate) where.purchaseDate.lte = new Date(endDate)
+    }
+
+    const [purchases, total] = await Promise.all([
+      prisma.purchase.findMany({
+        where,
+        skip,
+        take,
+        include: purchaseInclude,
+        orderBy: { purchaseDate: 'desc' },
+      }),
+      prisma.purchase.count({ where }),
+    ])
+
+    res.json({
+      purchases,
+      total,
+      page: parseInt(page),
+      totalPages: Math.ceil(total / take),
+    })
+  } catch (error) {
+    console.error('Get purchases error:', error)
+    res.status(500).json({ error: 'Failed to fetch purchases' })
+  }
+})
+
+// Get single purchase
+router.get('/purchases/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const purchase = await prisma.purchase.findUnique({
+      where: { id: req.params.id },
+      include: purchaseInclude,
+    })
+
+    if (!purchase) {
+      return res.status(404).json({ error: 'Purchase not found' })
+    }
+
+    res.json(purchase)
+  } catch (error) {
+    console.error('Get purchase error:', error)
+    res.status(500).json({ error: 'Failed to fetch purchase' })
+  }
+})
+
+// Record a purchase; its cost is booked as a PROCUREMENT expense on the item
+router.post('/purchases', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const purchase = await prisma.$transaction(async (tx) => {
+      const created = await createPurchase(tx, { ...req.body, userId: req.user.id })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Purchase',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(await prisma.purchase.findUnique({ where: { id: purchase.id }, include: purchaseInclude }))
+  } catch (error) {
+    console.error('Create purchase error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to create purchase' })
+  }
+})
+
+// Update purchase
+router.put('/purchases/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.purchase.findUnique({ where: { id } })
+      const updated = await updatePurchase(tx, id, req.body)
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'Purchase',
+        entityId: id,
+        before,
+        after: updated,
+      })
+    })
+
+    res.json(await prisma.purchase.findUnique({ where: { id }, include: purchaseInclude }))
+  } catch (error) {
+    console.error('Update purchase error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to update purchase' })
+  }
+})
+
+// Delete a purchase entered by mistake, with its expense
+router.delete('/purchases/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const deleted = await deletePurchase(tx, id)
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'Purchase',
+        entityId: id,
+        before: deleted,
+      })
+    })
+
+    res.json({ message: 'Purchase deleted successfully' })
+  } catch (error) {
+    console.error('Delete purchase error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to delete purchase' })
+  }
+})
+
+// Get depreciation policies, one per category at most
+router.get('/depreciation-policies', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const policies = await prisma.depreciationPolicy.findMany({
+      include: { category: { select: { id: true, name: true } } },
+      orderBy: { category: { name: 'asc' } },
+    })
+
+    res.json(policies)
+  } catch (error) {
+    console.error('Get depreciation policies error:', error)
+    res.status(500).json({ error: 'Failed to fetch depreciation policies' })
+  }
+})
+
+// Set how a category's items depreciate
+router.put('/depreciation-policies/:categoryId', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { categoryId } = req.params
+    const data = parseDepreciationPolicy(req.body)
+
+    const category = await prisma.category.findUnique({ where: { id: categoryId } })
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' })
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      const before = await tx.depreciationPolicy.findUnique({ where: { categoryId } })
+      const after = await tx.depreciationPolicy.upsert({
+        where: { categoryId },
+        create: { categoryId, ...data },
+        update: data,
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: before ? 'UPDATE' : 'CREATE',
+        entity: 'DepreciationPolicy',
+        entityId: categoryId,
+        before,
+        after,
+      })
+
+      return after
+    })
+
+    res.json(policy)
+  } catch (error) {
+    console.error('Set depreciation policy error:', error)
+    res.status(error.status || 500).json({
+      error: error.status ? error.message : 'Failed to save depreciation policy',
+    })
+  }
+})
+
+// Stop depreciating a category's items
+router.delete('/depreciation-policies/:categoryId', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { categoryId } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const policy = await tx.depreciationPolicy.delete({ where: { categoryId } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'DepreciationPolicy',
+        entityId: categoryId,
+        before: policy,
+      })
+    })
+
+    res.json({ message: 'Depreciation policy deleted successfully' })
+  } catch (error) {
+    console.error('Delete depreciation policy error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Depreciation policy not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete depreciation policy' })
+  }
+})
+
+// Retire an item, recording what it was sold or scrapped for
+router.post('/items/:id/retire', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { value, disposedAt, notes } = req.body
+
+    const disposal = await prisma.$transaction(async (tx) => {
+      const before = await tx.item.findUnique({ where: { id } })
+      const created = await retireItem(tx, id, { value, disposedAt, notes, userId: req.user.id })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'RETIRE',
+        entity: 'Item',
+        entityId: id,
+        before,
+        after: await tx.item.findUnique({ where: { id } }),
+        metadata: { disposalId: created.id, value: created.value },
+      })
+
+      return created
+    })
+
+    res.status(201).json(disposal)
+  } catch (error) {
+    console.error('Retire item error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to retire item' })
+  }
+})
+
+const registerCsvColumns = [
+  { header: 'Item', value: (row) => row.item.name },
+  { header: 'Category', value: (row) => row.category.name },
+  { header: 'Status', value: (row) => row.item.status },
+  { header: 'Acquired', value: (row) => row.acquiredAt.toISOString().slice(0, 10) },
+  { header: 'Depreciation', value: (row) => row.policy?.method || 'NONE' },
+  { header: 'Cost', value: (row) => row.cost.toFixed(2) },
+  { header: 'Accumulated depreciation', value: (row) => row.accumulatedDepreciation.toFixed(2) },
+  { header: 'Book value', value: (row) => row.bookValue.toFixed(2) },
+  { header: 'Warranty until', value: (row) => row.warrantyUntil?.toISOString().slice(0, 10) },
+  { header: 'Disposed', value: (row) => row.disposal?.disposedAt.toISOString().slice(0, 10) },
+  { header: 'Disposal value', value: (row) => row.disposal?.value.toFixed(2) },
+  { header: 'Gain or loss', value: (row) => row.disposal?.gainOrLoss.toFixed(2) },
+]
+
+// Asset register: cost, depreciation and book value per item as of a date.
+// ?includeDisposed=true adds disposed items; ?format=csv downloads it.
+router.get('/register', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { categoryId, includeDisposed, format } = req.query
+
+    const asOf = req.query.asOf ? new Date(req.query.asOf) : new Date()
+    if (isNaN(asOf.getTime())) {
+      return res.status(400).json({ error: 'Invalid asOf date' })
+    }
+
+    const register = await getAssetRegister(prisma, {
+      asOf,
+      categoryId,
+      includeDisposed: includeDisposed === 'true',
+    })
+
+    if (format === 'csv') {
+      return sendCsv(res, `assets-${asOf.toISOString().slice(0, 10)}.csv`, toCsv(register.items, registerCsvColumns))
+    }
+
+    res.json(register)
+  } catch (error) {
+    console.error('Get asset register error:', error)
+    res.status(500).json({ error: 'Failed to fetch asset register' })
+  }
+})
+
+module.exports = router
@@ -0,0 +1,69 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireAdmin } = require('../middleware/auth')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// ALL ROUTES IN THIS FILE ARE ADMIN ONLY
+
+// Get audit log entries, newest first
+router.get('/', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { page = 1, limit = 20, entity, entityId, userId, action, startDate, endDate } = req.query
+
+    const skip = (parseInt(page) - 1) * parseInt(limit)
+    const take = parseInt(limit)
+
+    const where = {}
+
+    if (entity) {
+      where.entity = entity
+    }
+
+    if (entityId) {
+      where.entityId = entityId
+    }
+
+    if (userId) {
+      where.userId = userId
+    }
+
+    if (action) {
+      where.action = action
+    }
+
+    if (startDate || endDate) {
+      where.createdAt = {}
+      if (startDate) where.createdAt.gte = new Date(startDate)
+      if (endDate) where.createdAt.lte = new Date(endDate)
+    }
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          user: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.auditLog.count({ where }),
+    ])
+
+    res.json({
+      logs,
+      total,
+      page: parseInt(page),
+      totalPages: Math.ceil(total / take),
+    })
+  } catch (error) {
+    console.error('Get audit log error:', error)
+    res.status(500).json({ error: 'Failed to fetch audit log' })
+  }
+})
+
+module.exports = router
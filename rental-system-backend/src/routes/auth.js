@@ -3,6 +3,7 @@ const bcrypt = require('bcryptjs')
 const jwt = require('jsonwebtoken')
 const { PrismaClient } = require('@prisma/client')
 const { authenticate } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -30,20 +31,27 @@ router.post('/register', async (req, res) => {
     const hashedPassword = await bcrypt.hash(password, 10)
 
     // Create user (default role is STAFF unless specified)
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        name,
-        role: role || 'STAFF',
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        createdAt: true,
-      },
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email,
+          password: hashedPassword,
+          name,
+          role: role || 'STAFF',
+        },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          createdAt: true,
+        },
+      })
+
+      // Self-registration: the new user is their own actor
+      await recordAudit(tx, { user: created, action: 'CREATE', entity: 'User', entityId: created.id, after: created })
+
+      return created
     })
 
     // Generate JWT token
@@ -1,6 +1,7 @@
 const express = require('express')
 const { PrismaClient } = require('@prisma/client')
 const { authenticate, requireStaff } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -56,11 +57,23 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
       return res.status(400).json({ error: 'Category name is required' })
     }
 
-    const category = await prisma.category.create({
-      data: {
-        name,
-        description,
-      },
+    const category = await prisma.$transaction(async (tx) => {
+      const created = await tx.category.create({
+        data: {
+          name,
+          description,
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Category',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
     })
 
     res.status(201).json(category)
@@ -81,12 +94,27 @@ router.put('/:id', authenticate, requireStaff, async (req, res) => {
     const { id } = req.params
     const { name, description } = req.body
 
-    const category = await prisma.category.update({
-      where: { id },
-      data: {
-        ...(name && { name }),
-        ...(description !== undefined && { description }),
-      },
+    const category = await prisma.$transaction(async (tx) => {
+      const existing = await tx.category.findUnique({ where: { id } })
+
+      const updated = await tx.category.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(description !== undefined && { description }),
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'Category',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
     })
 
     res.json(category)
@@ -120,8 +148,18 @@ router.delete('/:id', authenticate, requireStaff, async (req, res) => {
       })
     }
 
-    await prisma.category.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      const category = await tx.category.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'Category',
+        entityId: id,
+        before: category,
+      })
     })
 
     res.json({ message: 'Category deleted successfully' })
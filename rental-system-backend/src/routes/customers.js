@@ -1,6 +1,9 @@
 const express = require('express')
 const { PrismaClient } = require('@prisma/client')
 const { authenticate, requireStaff } = require('../middleware/auth')
+const { BLOCKING_RENTAL_STATUSES } = require('../services/availability')
+const { recordAudit } = require('../services/audit')
+const { filterFinancialData } = require('../utils/rentals')
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -28,6 +31,7 @@ router.get('/', authenticate, requireStaff, async (req, res) => {
         skip,
         take,
         include: {
+          group: true,
           _count: {
             select: { rentals: true },
           },
@@ -57,9 +61,10 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
     const customer = await prisma.customer.findUnique({
       where: { id },
       include: {
+        group: true,
         rentals: {
           include: {
-            item: true,
+            items: { include: { item: true } },
           },
           orderBy: { createdAt: 'desc' },
         },
@@ -72,11 +77,7 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
 
     // Remove financial data if user is staff
     if (req.user.role === 'STAFF') {
-      customer.rentals = customer.rentals.map(rental => {
-        const { dailyRate, numberOfDays, subtotal, deposit, discount, 
-                totalAmount, amountPaid, amountDue, paymentStatus, ...rest } = rental
-        return rest
-      })
+      customer.rentals = customer.rentals.map(filterFinancialData)
     }
 
     res.json(customer)
@@ -94,7 +95,7 @@ router.get('/:id/rentals', authenticate, requireStaff, async (req, res) => {
     const rentals = await prisma.rental.findMany({
       where: { customerId: id },
       include: {
-        item: true,
+        items: { include: { item: true } },
         user: {
           select: { id: true, name: true, email: true },
         },
@@ -105,11 +106,7 @@ router.get('/:id/rentals', authenticate, requireStaff, async (req, res) => {
     // Remove financial data if user is staff
     let response = rentals
     if (req.user.role === 'STAFF') {
-      response = rentals.map(rental => {
-        const { dailyRate, numberOfDays, subtotal, deposit, discount, 
-                totalAmount, amountPaid, amountDue, paymentStatus, ...rest } = rental
-        return rest
-      })
+      response = rentals.map(filterFinancialData)
     }
 
     res.json(response)
@@ -122,7 +119,7 @@ router.get('/:id/rentals', authenticate, requireStaff, async (req, res) => {
 // Create customer
 router.post('/', authenticate, requireStaff, async (req, res) => {
   try {
-    const { name, email, phone, address, idNumber } = req.body
+    const { name, email, phone, address, idNumber, groupId } = req.body
 
     if (!name || !email || !phone) {
       return res.status(400).json({ 
@@ -130,14 +127,28 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
       })
     }
 
-    const customer = await prisma.customer.create({
-      data: {
-        name,
-        email,
-        phone,
-        address,
-        idNumber,
-      },
+    const customer = await prisma.$transaction(async (tx) => {
+      const created = await tx.customer.create({
+        data: {
+          name,
+          email,
+          phone,
+          address,
+          idNumber,
+          // Groups carry discounts, so only admins assign them
+          ...(req.user.role === 'ADMIN' && groupId && { groupId }),
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Customer',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
     })
 
     res.status(201).json(customer)
@@ -156,17 +167,33 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
 router.put('/:id', authenticate, requireStaff, async (req, res) => {
   try {
     const { id } = req.params
-    const { name, email, phone, address, idNumber } = req.body
+    const { name, email, phone, address, idNumber, groupId } = req.body
 
-    const customer = await prisma.customer.update({
-      where: { id },
-      data: {
-        ...(name && { name }),
-        ...(email && { email }),
-        ...(phone && { phone }),
-        ...(address !== undefined && { address }),
-        ...(idNumber !== undefined && { idNumber }),
-      },
+    const customer = await prisma.$transaction(async (tx) => {
+      const existing = await tx.customer.findUnique({ where: { id } })
+
+      const updated = await tx.customer.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(email && { email }),
+          ...(phone && { phone }),
+          ...(address !== undefined && { address }),
+          ...(idNumber !== undefined && { idNumber }),
+          ...(req.user.role === 'ADMIN' && groupId !== undefined && { groupId: groupId || null }),
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'Customer',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
     })
 
     res.json(customer)
@@ -193,7 +220,7 @@ router.delete('/:id', authenticate, requireStaff, async (req, res) => {
     const activeRentals = await prisma.rental.count({
       where: {
         customerId: id,
-        status: { in: ['PENDING', 'ACTIVE'] },
+        status: { in: BLOCKING_RENTAL_STATUSES },
       },
     })
 
@@ -203,8 +230,18 @@ router.delete('/:id', authenticate, requireStaff, async (req, res) => {
       })
     }
 
-    await prisma.customer.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      const customer = await tx.customer.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'Customer',
+        entityId: id,
+        before: customer,
+      })
     })
 
     res.json({ message: 'Customer deleted successfully' })
@@ -1,10 +1,16 @@
 const express = require('express')
 const { PrismaClient } = require('@prisma/client')
 const { authenticate, requireAdmin, requireStaff } = require('../middleware/auth')
+const { rentalInclude, filterFinancialData } = require('../utils/rentals')
+const { getPlanStatuses } = require('../services/maintenancePlans')
 
 const router = express.Router()
 const prisma = new PrismaClient()
 
+// Number of items with at least one maintenance plan due
+const countServiceDueItems = (statuses) =>
+  new Set(statuses.filter((status) => status.due).map((status) => status.item.id)).size
+
 // Get staff dashboard stats (available to all authenticated users)
 router.get('/staff', authenticate, requireStaff, async (req, res) => {
   try {
@@ -13,11 +19,13 @@ router.get('/staff', authenticate, requireStaff, async (req, res) => {
       availableItems,
       activeRentals,
       maintenanceItems,
+      planStatuses,
     ] = await Promise.all([
       prisma.item.count(),
       prisma.item.count({ where: { status: 'AVAILABLE' } }),
       prisma.rental.count({ where: { status: 'ACTIVE' } }),
       prisma.item.count({ where: { status: 'MAINTENANCE' } }),
+      getPlanStatuses(prisma),
     ])
 
     res.json({
@@ -25,6 +33,7 @@ router.get('/staff', authenticate, requireStaff, async (req, res) => {
       availableItems,
       activeRentals,
       maintenanceItems,
+      serviceDueItems: countServiceDueItems(planStatuses),
     })
   } catch (error) {
     console.error('Get staff dashboard error:', error)
@@ -48,6 +57,8 @@ router.get('/admin', authenticate, requireAdmin, async (req, res) => {
       monthlyPayments,
       monthlyExpenses,
       outstandingRentals,
+      heldDeposits,
+      planStatuses,
     ] = await Promise.all([
       prisma.item.count(),
       prisma.item.count({ where: { status: 'AVAILABLE' } }),
@@ -77,22 +88,29 @@ router.get('/admin', authenticate, requireAdmin, async (req, res) => {
         },
         _sum: { amountDue: true },
       }),
+      prisma.rental.aggregate({
+        _sum: { depositHeld: true },
+      }),
+      getPlanStatuses(prisma, { now }),
     ])
 
     const monthlyRevenue = monthlyPayments._sum.amount || 0
     const monthlyExpensesTotal = monthlyExpenses._sum.amount || 0
     const netProfit = monthlyRevenue - monthlyExpensesTotal
     const outstandingPayments = outstandingRentals._sum.amountDue || 0
+    const depositsHeld = heldDeposits._sum.depositHeld || 0
 
     res.json({
       totalItems,
       availableItems,
       activeRentals,
       maintenanceItems,
+      serviceDueItems: countServiceDueItems(planStatuses),
       monthlyRevenue,
       monthlyExpenses: monthlyExpensesTotal,
       netProfit,
       outstandingPayments,
+      depositsHeld,
     })
   } catch (error) {
     console.error('Get admin dashboard error:', error)
@@ -105,24 +123,14 @@ router.get('/activity', authenticate, requireStaff, async (req, res) => {
   try {
     const recentRentals = await prisma.rental.findMany({
       take: 10,
-      include: {
-        customer: true,
-        item: true,
-        user: {
-          select: { id: true, name: true, email: true },
-        },
-      },
+      include: rentalInclude,
       orderBy: { createdAt: 'desc' },
     })
 
     // Filter financial data for staff users
     let response = recentRentals
     if (req.user.role === 'STAFF') {
-      response = recentRentals.map(rental => {
-        const { dailyRate, numberOfDays, subtotal, deposit, discount, 
-                totalAmount, amountPaid, amountDue, paymentStatus, ...rest } = rental
-        return rest
-      })
+      response = recentRentals.map(filterFinancialData)
     }
 
     res.json(response)
@@ -155,4 +163,20 @@ router.get('/low-stock', authenticate, requireStaff, async (req, res) => {
   }
 })
 
+// Get items due (or nearly due) for preventive maintenance, most overdue first
+router.get('/service-due', authenticate, requireStaff, async (req, res) => {
+  try {
+    const statuses = await getPlanStatuses(prisma)
+
+    const flagged = statuses
+      .filter((status) => status.due || status.dueSoon)
+      .sort((a, b) => b.usage / b.plan.interval - a.usage / a.plan.interval)
+
+    res.json(flagged)
+  } catch (error) {
+    console.error('Get service due error:', error)
+    res.status(500).json({ error: 'Failed to fetch items due for service' })
+  }
+})
+
 module.exports = router
@@ -0,0 +1,305 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireAdmin } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// ALL ROUTES IN THIS FILE ARE ADMIN ONLY
+
+// Only one active rule may apply to a category (or to the default, category-less slot)
+const findActiveRuleConflict = (categoryId, excludeId) =>
+  prisma.lateFeeRule.findFirst({
+    where: {
+      categoryId: categoryId || null,
+      active: true,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+  })
+
+const parseRuleData = (body) => {
+  const data = {}
+
+  if (body.name !== undefined) data.name = body.name
+  if (body.categoryId !== undefined) data.categoryId = body.categoryId || null
+  if (body.feePerDay !== undefined) data.feePerDay = parseFloat(body.feePerDay)
+  if (body.dailyRateMultiplier !== undefined) data.dailyRateMultiplier = parseFloat(body.dailyRateMultiplier)
+  if (body.gracePeriodHours !== undefined) data.gracePeriodHours = parseInt(body.gracePeriodHours)
+  if (body.maxFeePerUnit !== undefined) {
+    data.maxFeePerUnit = body.maxFeePerUnit === null || body.maxFeePerUnit === ''
+      ? null
+      : parseFloat(body.maxFeePerUnit)
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active)
+
+  return data
+}
+
+const parseTierData = (body) => {
+  const data = {}
+
+  if (body.name !== undefined) data.name = body.name
+  if (body.withinHours !== undefined) data.withinHours = parseInt(body.withinHours)
+  if (body.feePercent !== undefined) data.feePercent = parseFloat(body.feePercent)
+  if (body.flatFee !== undefined) data.flatFee = parseFloat(body.flatFee)
+  if (body.active !== undefined) data.active = Boolean(body.active)
+
+  return data
+}
+
+const validateTierData = (data) => {
+  if (data.withinHours !== undefined && !(data.withinHours > 0)) {
+    return 'withinHours must be a positive number of hours'
+  }
+  if (data.feePercent !== undefined && !(data.feePercent >= 0 && data.feePercent <= 100)) {
+    return 'feePercent must be between 0 and 100'
+  }
+  if (data.flatFee !== undefined && !(data.flatFee >= 0)) {
+    return 'flatFee cannot be negative'
+  }
+  return null
+}
+
+// Get all late fee rules
+router.get('/late-fee-rules', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const rules = await prisma.lateFeeRule.findMany({
+      include: { category: true },
+      orderBy: [{ active: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    res.json(rules)
+  } catch (error) {
+    console.error('Get late fee rules error:', error)
+    res.status(500).json({ error: 'Failed to fetch late fee rules' })
+  }
+})
+
+// Create late fee rule
+router.post('/late-fee-rules', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const data = parseRuleData(req.body)
+
+    if (!data.name) {
+      return res.status(400).json({ error: 'Name is required' })
+    }
+
+    if (data.active !== false && await findActiveRuleConflict(data.categoryId)) {
+      return res.status(409).json({ error: 'An active rule already exists for this category' })
+    }
+
+    const rule = await prisma.$transaction(async (tx) => {
+      const created = await tx.lateFeeRule.create({
+        data,
+        include: { category: true },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'LateFeeRule',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(rule)
+  } catch (error) {
+    console.error('Create late fee rule error:', error)
+    res.status(500).json({ error: 'Failed to create late fee rule' })
+  }
+})
+
+// Update late fee rule
+router.put('/late-fee-rules/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    const existing = await prisma.lateFeeRule.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Late fee rule not found' })
+    }
+
+    const data = parseRuleData(req.body)
+    const categoryId = data.categoryId !== undefined ? data.categoryId : existing.categoryId
+    const active = data.active !== undefined ? data.active : existing.active
+
+    if (active && await findActiveRuleConflict(categoryId, id)) {
+      return res.status(409).json({ error: 'An active rule already exists for this category' })
+    }
+
+    const rule = await prisma.$transaction(async (tx) => {
+      const updated = await tx.lateFeeRule.update({
+        where: { id },
+        data,
+        include: { category: true },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'LateFeeRule',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
+    })
+
+    res.json(rule)
+  } catch (error) {
+    console.error('Update late fee rule error:', error)
+    res.status(500).json({ error: 'Failed to update late fee rule' })
+  }
+})
+
+// Delete late fee rule
+router.delete('/late-fee-rules/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const rule = await tx.lateFeeRule.delete({ where: { id } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'LateFeeRule',
+        entityId: id,
+        before: rule,
+      })
+    })
+
+    res.json({ message: 'Late fee rule deleted successfully' })
+  } catch (error) {
+    console.error('Delete late fee rule error:', error)
+    res.status(500).json({ error: 'Failed to delete late fee rule' })
+  }
+})
+
+// Get all cancellation fee tiers
+router.get('/cancellation-tiers', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const tiers = await prisma.cancellationFeeTier.findMany({
+      orderBy: [{ active: 'desc' }, { withinHours: 'asc' }],
+    })
+
+    res.json(tiers)
+  } catch (error) {
+    console.error('Get cancellation tiers error:', error)
+    res.status(500).json({ error: 'Failed to fetch cancellation tiers' })
+  }
+})
+
+// Create cancellation fee tier
+router.post('/cancellation-tiers', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const data = parseTierData(req.body)
+
+    if (!data.name || data.withinHours === undefined) {
+      return res.status(400).json({ error: 'Name and withinHours are required' })
+    }
+
+    const invalid = validateTierData(data)
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const tier = await prisma.$transaction(async (tx) => {
+      const created = await tx.cancellationFeeTier.create({ data })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'CancellationFeeTier',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(tier)
+  } catch (error) {
+    console.error('Create cancellation tier error:', error)
+    res.status(500).json({ error: 'Failed to create cancellation tier' })
+  }
+})
+
+// Update cancellation fee tier
+router.put('/cancellation-tiers/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+    const data = parseTierData(req.body)
+
+    const invalid = validateTierData(data)
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const tier = await prisma.$transaction(async (tx) => {
+      const existing = await tx.cancellationFeeTier.findUnique({ where: { id } })
+
+      const updated = await tx.cancellationFeeTier.update({
+        where: { id },
+        data,
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'CancellationFeeTier',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
+    })
+
+    res.json(tier)
+  } catch (error) {
+    console.error('Update cancellation tier error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Cancellation tier not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to update cancellation tier' })
+  }
+})
+
+// Delete cancellation fee tier
+router.delete('/cancellation-tiers/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const tier = await tx.cancellationFeeTier.delete({ where: { id } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'CancellationFeeTier',
+        entityId: id,
+        before: tier,
+      })
+    })
+
+    res.json({ message: 'Cancellation tier deleted successfully' })
+  } catch (error) {
+    console.error('Delete cancellation tier error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Cancellation tier not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete cancellation tier' })
+  }
+})
+
+module.exports = router
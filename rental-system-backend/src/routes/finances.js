@@ -1,16 +1,43 @@
 const express = require('express')
 const { PrismaClient } = require('@prisma/client')
 const { authenticate, requireAdmin } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+const { collectDeposit, applyDeposit, refundDeposit } = require('../services/deposits')
+const { recordPayment, refundPayment, voidPayment, findUnreconciledRentals } = require('../services/payments')
+const { ACCOUNTS, fromMinor, postExpense, getAccountBalances, getProfitAndLoss } = require('../services/ledger')
+const {
+  AGING_BUCKETS,
+  getReceivablesAging,
+  parseRevenueOptions,
+  getRevenueReport,
+  getItemUtilization,
+} = require('../services/reports')
+const { issueReceipt } = require('../services/documents')
+const { renderReceiptPdf } = require('../services/pdf')
+const { sendPdf } = require('../utils/documents')
+const { toCsv, sendCsv } = require('../utils/csv')
 
 const router = express.Router()
 const prisma = new PrismaClient()
 
 // ALL ROUTES IN THIS FILE ARE ADMIN ONLY
 
+const paymentInclude = {
+  rental: {
+    include: {
+      customer: true,
+      items: { include: { item: true } },
+    },
+  },
+  user: { select: { id: true, name: true } },
+  reversedPayment: true,
+  reversal: true,
+}
+
 // Get all payments
 router.get('/payments', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { page = 1, limit = 10, startDate, endDate, method } = req.query
+    const { page = 1, limit = 10, startDate, endDate, method, type } = req.query
 
     const skip = (parseInt(page) - 1) * parseInt(limit)
     const take = parseInt(limit)
@@ -27,19 +54,16 @@ router.get('/payments', authenticate, requireAdmin, async (req, res) => {
       where.paymentMethod = method
     }
 
+    if (type) {
+      where.type = type
+    }
+
     const [payments, total] = await Promise.all([
       prisma.payment.findMany({
         where,
         skip,
         take,
-        include: {
-          rental: {
-            include: {
-              customer: true,
-              item: true,
-            },
-          },
-        },
+        include: paymentInclude,
         orderBy: { paymentDate: 'desc' },
       }),
       prisma.payment.count({ where }),
@@ -64,14 +88,7 @@ router.get('/payments/:id', authenticate, requireAdmin, async (req, res) => {
 
     const payment = await prisma.payment.findUnique({
       where: { id },
-      include: {
-        rental: {
-          include: {
-            customer: true,
-            item: true,
-          },
-        },
-      },
+      include: paymentInclude,
     })
 
     if (!payment) {
@@ -85,6 +102,28 @@ router.get('/payments/:id', authenticate, requireAdmin, async (req, res) => {
   }
 })
 
+// Download a payment receipt as a PDF. The receipt number is assigned on the
+// first download and kept.
+router.get('/payments/:id/receipt', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    const payment = await prisma.$transaction((tx) => issueReceipt(tx, id))
+
+    const rental = await prisma.rental.findUnique({
+      where: { id: payment.rentalId },
+      include: { customer: true, invoice: true },
+    })
+
+    const pdf = await renderReceiptPdf({ payment, rental, invoice: rental.invoice })
+
+    sendPdf(res, `${payment.receiptNumber}.pdf`, pdf)
+  } catch (error) {
+    console.error('Get receipt error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to generate receipt' })
+  }
+})
+
 // Record payment
 router.post('/payments', authenticate, requireAdmin, async (req, res) => {
   try {
@@ -96,132 +135,268 @@ router.post('/payments', authenticate, requireAdmin, async (req, res) => {
       })
     }
 
-    // Get rental
-    const rental = await prisma.rental.findUnique({
-      where: { id: rentalId },
+    const payment = await prisma.$transaction(async (tx) => {
+      const created = await recordPayment(tx, {
+        rentalId,
+        amount,
+        paymentMethod,
+        reference,
+        notes,
+        userId: req.user.id,
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Payment',
+        entityId: created.id,
+        after: created,
+        metadata: { rentalId },
+      })
+
+      return created
     })
 
-    if (!rental) {
-      return res.status(404).json({ error: 'Rental not found' })
-    }
+    const response = await prisma.payment.findUnique({
+      where: { id: payment.id },
+      include: paymentInclude,
+    })
 
-    // Validate amount
-    const paymentAmount = parseFloat(amount)
-    if (paymentAmount <= 0) {
-      return res.status(400).json({ error: 'Payment amount must be greater than zero' })
+    res.status(201).json(response)
+  } catch (error) {
+    console.error('Create payment error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to record payment' })
+  }
+})
+
+// Refund money to the customer, recorded as a negative REFUND entry
+router.post('/refunds', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { rentalId, amount, paymentMethod, reference, reason } = req.body
+
+    if (!rentalId || !amount || !paymentMethod) {
+      return res.status(400).json({
+        error: 'Rental, amount, and payment method are required'
+      })
     }
 
-    if (paymentAmount > rental.amountDue) {
-      return res.status(400).json({ 
-        error: `Payment amount cannot exceed amount due (${rental.amountDue})` 
+    const refund = await prisma.$transaction(async (tx) => {
+      const created = await refundPayment(tx, {
+        rentalId,
+        amount,
+        paymentMethod,
+        reference,
+        reason,
+        userId: req.user.id,
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'REFUND',
+        entity: 'Payment',
+        entityId: created.id,
+        after: created,
+        metadata: { rentalId },
+      })
+
+      return created
+    })
+
+    res.status(201).json(refund)
+  } catch (error) {
+    console.error('Refund payment error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to record refund' })
+  }
+})
+
+// Void a payment recorded in error. Payments are never deleted: a REVERSAL
+// entry of the opposite amount is added and the rental balance recomputed.
+router.post('/payments/:id/void', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { reason } = req.body
+
+    const reversal = await prisma.$transaction(async (tx) => {
+      const created = await voidPayment(tx, id, { reason, userId: req.user.id })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'VOID',
+        entity: 'Payment',
+        entityId: id,
+        metadata: { rentalId: created.rentalId, reversalId: created.id, reason },
       })
+
+      return created
+    })
+
+    res.status(201).json(reversal)
+  } catch (error) {
+    console.error('Void payment error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to void payment' })
+  }
+})
+
+// Rentals whose amountPaid does not match the sum of their payment entries
+router.get('/reconciliation', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const mismatches = await findUnreconciledRentals(prisma)
+
+    res.json({ balanced: mismatches.length === 0, mismatches })
+  } catch (error) {
+    console.error('Reconcile payments error:', error)
+    res.status(500).json({ error: 'Failed to reconcile payments' })
+  }
+})
+
+// Get deposit transactions
+router.get('/deposits', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { page = 1, limit = 10, startDate, endDate, type, rentalId } = req.query
+
+    const skip = (parseInt(page) - 1) * parseInt(limit)
+    const take = parseInt(limit)
+
+    const where = {}
+
+    if (startDate || endDate) {
+      where.createdAt = {}
+      if (startDate) where.createdAt.gte = new Date(startDate)
+      if (endDate) where.createdAt.lte = new Date(endDate)
     }
 
-    // Create payment and update rental
-    const payment = await prisma.$transaction(async (tx) => {
-      const newPayment = await tx.payment.create({
-        data: {
-          rentalId,
-          amount: paymentAmount,
-          paymentMethod,
-          reference,
-          notes,
-        },
+    if (type) {
+      where.type = type
+    }
+
+    if (rentalId) {
+      where.rentalId = rentalId
+    }
+
+    const [deposits, total] = await Promise.all([
+      prisma.depositTransaction.findMany({
+        where,
+        skip,
+        take,
         include: {
           rental: {
-            include: {
-              customer: true,
-              item: true,
-            },
+            include: { customer: true },
           },
         },
-      })
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.depositTransaction.count({ where }),
+    ])
 
-      // Update rental amounts
-      const newAmountPaid = rental.amountPaid + paymentAmount
-      const newAmountDue = rental.totalAmount - newAmountPaid
+    res.json({
+      deposits,
+      total,
+      page: parseInt(page),
+      totalPages: Math.ceil(total / take),
+    })
+  } catch (error) {
+    console.error('Get deposits error:', error)
+    res.status(500).json({ error: 'Failed to fetch deposits' })
+  }
+})
 
-      let paymentStatus = 'UNPAID'
-      if (newAmountPaid >= rental.totalAmount) {
-        paymentStatus = 'PAID'
-      } else if (newAmountPaid > 0) {
-        paymentStatus = 'PARTIAL'
-      }
+// Collect a deposit from the customer
+router.post('/deposits/collect', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { rentalId, amount, paymentMethod, reference, notes } = req.body
 
-      await tx.rental.update({
-        where: { id: rentalId },
-        data: {
-          amountPaid: newAmountPaid,
-          amountDue: newAmountDue,
-          paymentStatus,
-        },
+    if (!rentalId) {
+      return res.status(400).json({ error: 'Rental is required' })
+    }
+
+    const transaction = await prisma.$transaction(async (tx) => {
+      const created = await collectDeposit(tx, rentalId, { amount, paymentMethod, reference, notes })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'COLLECT',
+        entity: 'DepositTransaction',
+        entityId: created.id,
+        after: created,
+        metadata: { rentalId },
       })
 
-      return newPayment
+      return created
     })
 
-    res.status(201).json(payment)
+    res.status(201).json(transaction)
   } catch (error) {
-    console.error('Create payment error:', error)
-    res.status(500).json({ error: 'Failed to record payment' })
+    console.error('Collect deposit error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to collect deposit' })
   }
 })
 
-// Delete payment
-router.delete('/payments/:id', authenticate, requireAdmin, async (req, res) => {
+// Apply a held deposit against the rental's charges
+router.post('/deposits/apply', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { id } = req.params
+    const { rentalId, amount, notes } = req.body
 
-    const payment = await prisma.$transaction(async (tx) => {
-      const existing = await tx.payment.findUnique({
-        where: { id },
-        include: { rental: true },
-      })
+    if (!rentalId) {
+      return res.status(400).json({ error: 'Rental is required' })
+    }
 
-      if (!existing) {
-        throw new Error('Payment not found')
-      }
+    const transaction = await prisma.$transaction(async (tx) => {
+      const created = await applyDeposit(tx, rentalId, { amount, notes })
 
-      // Delete payment
-      await tx.payment.delete({
-        where: { id },
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'APPLY',
+        entity: 'DepositTransaction',
+        entityId: created.id,
+        after: created,
+        metadata: { rentalId },
       })
 
-      // Update rental amounts
-      const rental = existing.rental
-      const newAmountPaid = rental.amountPaid - existing.amount
-      const newAmountDue = rental.totalAmount - newAmountPaid
+      return created
+    })
+
+    res.status(201).json(transaction)
+  } catch (error) {
+    console.error('Apply deposit error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to apply deposit' })
+  }
+})
 
-      let paymentStatus = 'UNPAID'
-      if (newAmountPaid >= rental.totalAmount) {
-        paymentStatus = 'PAID'
-      } else if (newAmountPaid > 0) {
-        paymentStatus = 'PARTIAL'
-      }
+// Refund a held deposit to the customer
+router.post('/deposits/refund', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { rentalId, amount, paymentMethod, reference, notes } = req.body
 
-      await tx.rental.update({
-        where: { id: rental.id },
-        data: {
-          amountPaid: newAmountPaid,
-          amountDue: newAmountDue,
-          paymentStatus,
-        },
+    if (!rentalId) {
+      return res.status(400).json({ error: 'Rental is required' })
+    }
+
+    const transaction = await prisma.$transaction(async (tx) => {
+      const created = await refundDeposit(tx, rentalId, { amount, paymentMethod, reference, notes })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'REFUND',
+        entity: 'DepositTransaction',
+        entityId: created.id,
+        after: created,
+        metadata: { rentalId },
       })
 
-      return existing
+      return created
     })
 
-    res.json({ message: 'Payment deleted successfully', payment })
+    res.status(201).json(transaction)
   } catch (error) {
-    console.error('Delete payment error:', error)
-    res.status(500).json({ error: error.message || 'Failed to delete payment' })
+    console.error('Refund deposit error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to refund deposit' })
   }
 })
 
 // Get all expenses
 router.get('/expenses', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { page = 1, limit = 10, startDate, endDate, category } = req.query
+    const { page = 1, limit = 10, startDate, endDate, category, itemId } = req.query
 
     const skip = (parseInt(page) - 1) * parseInt(limit)
     const take = parseInt(limit)
@@ -238,11 +413,16 @@ router.get('/expenses', authenticate, requireAdmin, async (req, res) => {
       where.category = category
     }
 
+    if (itemId) {
+      where.itemId = itemId
+    }
+
     const [expenses, total] = await Promise.all([
       prisma.expense.findMany({
         where,
         skip,
         take,
+        include: { item: { select: { id: true, name: true } } },
         orderBy: { expenseDate: 'desc' },
       }),
       prisma.expense.count({ where }),
@@ -267,6 +447,7 @@ router.get('/expenses/:id', authenticate, requireAdmin, async (req, res) => {
 
     const expense = await prisma.expense.findUnique({
       where: { id },
+      include: { item: { select: { id: true, name: true } } },
     })
 
     if (!expense) {
@@ -283,7 +464,7 @@ router.get('/expenses/:id', authenticate, requireAdmin, async (req, res) => {
 // Create expense
 router.post('/expenses', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { description, amount, category, expenseDate, receipt, notes } = req.body
+    const { description, amount, category, expenseDate, itemId, receipt, notes } = req.body
 
     if (!description || !amount || !category) {
       return res.status(400).json({ 
@@ -291,20 +472,40 @@ router.post('/expenses', authenticate, requireAdmin, async (req, res) => {
       })
     }
 
-    const expense = await prisma.expense.create({
-      data: {
-        description,
-        amount: parseFloat(amount),
-        category,
-        expenseDate: expenseDate ? new Date(expenseDate) : new Date(),
-        receipt,
-        notes,
-      },
+    const expense = await prisma.$transaction(async (tx) => {
+      const created = await tx.expense.create({
+        data: {
+          description,
+          amount: parseFloat(amount),
+          category,
+          expenseDate: expenseDate ? new Date(expenseDate) : new Date(),
+          itemId: itemId || null,
+          receipt,
+          notes,
+        },
+      })
+
+      await postExpense(tx, created)
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Expense',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
     })
 
     res.status(201).json(expense)
   } catch (error) {
     console.error('Create expense error:', error)
+
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Item not found' })
+    }
+
     res.status(500).json({ error: 'Failed to create expense' })
   }
 })
@@ -313,18 +514,44 @@ router.post('/expenses', authenticate, requireAdmin, async (req, res) => {
 router.put('/expenses/:id', authenticate, requireAdmin, async (req, res) => {
   try {
     const { id } = req.params
-    const { description, amount, category, expenseDate, receipt, notes } = req.body
+    const { description, amount, category, expenseDate, itemId, receipt, notes } = req.body
 
-    const expense = await prisma.expense.update({
-      where: { id },
-      data: {
-        ...(description && { description }),
-        ...(amount && { amount: parseFloat(amount) }),
-        ...(category && { category }),
-        ...(expenseDate && { expenseDate: new Date(expenseDate) }),
-        ...(receipt !== undefined && { receipt }),
-        ...(notes !== undefined && { notes }),
-      },
+    const [existing, purchase] = await Promise.all([
+      prisma.expense.findUnique({ where: { id } }),
+      prisma.purchase.findUnique({ where: { expenseId: id } }),
+    ])
+
+    if (purchase) {
+      return res.status(409).json({ error: 'This expense belongs to a purchase; update the purchase instead' })
+    }
+
+    // The ledger posts the difference in amount or category as an adjustment
+    const expense = await prisma.$transaction(async (tx) => {
+      const updated = await tx.expense.update({
+        where: { id },
+        data: {
+          ...(description && { description }),
+          ...(amount && { amount: parseFloat(amount) }),
+          ...(category && { category }),
+          ...(expenseDate && { expenseDate: new Date(expenseDate) }),
+          ...(itemId !== undefined && { itemId: itemId || null }),
+          ...(receipt !== undefined && { receipt }),
+          ...(notes !== undefined && { notes }),
+        },
+      })
+
+      await postExpense(tx, updated)
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'Expense',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
     })
 
     res.json(expense)
@@ -334,6 +561,10 @@ router.put('/expenses/:id', authenticate, requireAdmin, async (req, res) => {
     if (error.code === 'P2025') {
       return res.status(404).json({ error: 'Expense not found' })
     }
+
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Item not found' })
+    }
     
     res.status(500).json({ error: 'Failed to update expense' })
   }
@@ -344,8 +575,21 @@ router.delete('/expenses/:id', authenticate, requireAdmin, async (req, res) => {
   try {
     const { id } = req.params
 
-    await prisma.expense.delete({
-      where: { id },
+    // The expense's ledger postings are reversed, not removed
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.expense.delete({
+        where: { id },
+      })
+
+      await postExpense(tx, deleted, { deleted: true })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'Expense',
+        entityId: id,
+        before: deleted,
+      })
     })
 
     res.json({ message: 'Expense deleted successfully' })
@@ -355,95 +599,136 @@ router.delete('/expenses/:id', authenticate, requireAdmin, async (req, res) => {
     if (error.code === 'P2025') {
       return res.status(404).json({ error: 'Expense not found' })
     }
+
+    if (error.code === 'P2003') {
+      return res.status(409).json({ error: 'This expense belongs to a purchase; delete the purchase instead' })
+    }
     
     res.status(500).json({ error: 'Failed to delete expense' })
   }
 })
 
-// Get financial summary
+// Get financial summary, read from the ledger in minor units and converted
+// to currency only for the response
 router.get('/summary', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { startDate, endDate } = req.query
-
-    const where = {}
-    
-    if (startDate || endDate) {
-      where.createdAt = {}
-      if (startDate) where.createdAt.gte = new Date(startDate)
-      if (endDate) where.createdAt.lte = new Date(endDate)
+    const startDate = req.query.startDate ? new Date(req.query.startDate) : undefined
+    const endDate = req.query.endDate ? new Date(req.query.endDate) : undefined
+    if ([startDate, endDate].some((date) => date && isNaN(date.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' })
     }
 
-    // Get total revenue (all payments)
-    const paymentsWhere = {}
-    if (startDate || endDate) {
-      paymentsWhere.paymentDate = {}
-      if (startDate) paymentsWhere.paymentDate.gte = new Date(startDate)
-      if (endDate) paymentsWhere.paymentDate.lte = new Date(endDate)
-    }
+    // Receivables and deposits held are balances as of the end of the period;
+    // deposit movements are what the deposit and payment entries in the period
+    // moved through the deposits held account
+    const [profitAndLoss, closing, depositEntries, paymentEntries] = await Promise.all([
+      getProfitAndLoss(prisma, { startDate, endDate }),
+      getAccountBalances(prisma, { endDate }),
+      getAccountBalances(prisma, { startDate, endDate, source: 'DEPOSIT' }),
+      getAccountBalances(prisma, { startDate, endDate, source: 'PAYMENT' }),
+    ])
+
+    const depositsAccount = (accounts) => accounts.find((account) => account.code === ACCOUNTS.DEPOSITS_HELD)
+    const balanceOf = (accounts, code) => accounts.find((account) => account.code === code)?.balance || 0
+
+    const revenue = profitAndLoss.revenue.total
+    const netIncome = profitAndLoss.netIncome
+    const depositMovements = depositsAccount(depositEntries)
+    const appliedDeposits = depositsAccount(paymentEntries)
 
-    const payments = await prisma.payment.aggregate({
-      where: paymentsWhere,
-      _sum: { amount: true },
+    res.json({
+      totalRevenue: fromMinor(revenue),
+      totalExpenses: fromMinor(profitAndLoss.expenses.total),
+      netProfit: fromMinor(netIncome),
+      outstandingPayments: fromMinor(balanceOf(closing, ACCOUNTS.RECEIVABLES)),
+      depositsHeld: fromMinor(balanceOf(closing, ACCOUNTS.DEPOSITS_HELD)),
+      depositsCollected: fromMinor(depositMovements?.credit || 0),
+      depositsApplied: fromMinor(appliedDeposits ? appliedDeposits.debit - appliedDeposits.credit : 0),
+      depositsRefunded: fromMinor(depositMovements?.debit || 0),
+      profitMargin: revenue > 0 ? ((netIncome / revenue) * 100).toFixed(2) : 0,
     })
+  } catch (error) {
+    console.error('Get financial summary error:', error)
+    res.status(500).json({ error: 'Failed to fetch financial summary' })
+  }
+})
 
-    // Get total expenses
-    const expensesWhere = {}
-    if (startDate || endDate) {
-      expensesWhere.expenseDate = {}
-      if (startDate) expensesWhere.expenseDate.gte = new Date(startDate)
-      if (endDate) expensesWhere.expenseDate.lte = new Date(endDate)
+// One CSV row per rental, with its customer and bucket
+const agingCsvColumns = [
+  { header: 'Customer', value: (row) => row.customer.name },
+  { header: 'Email', value: (row) => row.customer.email },
+  { header: 'Phone', value: (row) => row.customer.phone },
+  { header: 'Rental', value: (row) => row.id },
+  { header: 'Status', value: (row) => row.status },
+  { header: 'End date', value: (row) => row.endDate.toISOString().slice(0, 10) },
+  { header: 'Days past due', value: (row) => row.daysPastDue },
+  { header: 'Bucket', value: (row) => AGING_BUCKETS.find((bucket) => bucket.key === row.bucket).label },
+  { header: 'Total', value: (row) => row.totalAmount.toFixed(2) },
+  { header: 'Paid', value: (row) => row.amountPaid.toFixed(2) },
+  { header: 'Due', value: (row) => row.amountDue.toFixed(2) },
+]
+
+// Accounts receivable aging: amounts due by customer, bucketed by days past
+// each rental's end date. ?format=csv downloads one row per rental.
+router.get('/aging', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { customerId, format } = req.query
+
+    const asOf = req.query.asOf ? new Date(req.query.asOf) : new Date()
+    if (isNaN(asOf.getTime())) {
+      return res.status(400).json({ error: 'Invalid asOf date' })
     }
 
-    const expenses = await prisma.expense.aggregate({
-      where: expensesWhere,
-      _sum: { amount: true },
-    })
+    const aging = await getReceivablesAging(prisma, { asOf, customerId })
 
-    // Get outstanding payments
-    const outstandingRentals = await prisma.rental.aggregate({
-      where: {
-        paymentStatus: { in: ['UNPAID', 'PARTIAL'] },
-      },
-      _sum: { amountDue: true },
-    })
+    if (format === 'csv') {
+      const rows = aging.customers.flatMap((entry) =>
+        entry.rentals.map((rental) => ({ ...rental, customer: entry.customer }))
+      )
 
-    const totalRevenue = payments._sum.amount || 0
-    const totalExpenses = expenses._sum.amount || 0
-    const netProfit = totalRevenue - totalExpenses
-    const outstandingPayments = outstandingRentals._sum.amountDue || 0
+      return sendCsv(res, `aging-${asOf.toISOString().slice(0, 10)}.csv`, toCsv(rows, agingCsvColumns))
+    }
 
-    res.json({
-      totalRevenue,
-      totalExpenses,
-      netProfit,
-      outstandingPayments,
-      profitMargin: totalRevenue > 0 ? ((netProfit / totalRevenue) * 100).toFixed(2) : 0,
-    })
+    res.json(aging)
   } catch (error) {
-    console.error('Get financial summary error:', error)
-    res.status(500).json({ error: 'Failed to fetch financial summary' })
+    console.error('Get aging report error:', error)
+    res.status(500).json({ error: 'Failed to fetch aging report' })
   }
 })
 
-// Get revenue by period
+// Revenue, expenses and net profit by day, week, month, quarter or year in
+// the report time zone, with breakdowns and an optional comparison period
 router.get('/revenue/period', authenticate, requireAdmin, async (req, res) => {
   try {
-    // This would need more complex aggregation for real implementation
-    // For now, return basic monthly data
-    
-    const payments = await prisma.payment.findMany({
-      select: {
-        amount: true,
-        paymentDate: true,
-      },
-      orderBy: { paymentDate: 'desc' },
-      take: 100,
-    })
+    const options = parseRevenueOptions(req.query)
+
+    const report = await getRevenueReport(prisma, options)
 
-    res.json(payments)
+    res.json(report)
   } catch (error) {
     console.error('Get revenue by period error:', error)
-    res.status(500).json({ error: 'Failed to fetch revenue data' })
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to fetch revenue data' })
+  }
+})
+
+// Utilization, revenue, maintenance and procurement cost and ROI per item and
+// category, to decide what to retire or buy more of
+router.get('/utilization', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { categoryId } = req.query
+
+    const startDate = req.query.startDate ? new Date(req.query.startDate) : undefined
+    const endDate = req.query.endDate ? new Date(req.query.endDate) : undefined
+    if ([startDate, endDate].some((date) => date && isNaN(date.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' })
+    }
+
+    const utilization = await getItemUtilization(prisma, { startDate, endDate, categoryId })
+
+    res.json(utilization)
+  } catch (error) {
+    console.error('Get utilization error:', error)
+    res.status(500).json({ error: 'Failed to fetch utilization' })
   }
 })
 
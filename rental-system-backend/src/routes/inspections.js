@@ -0,0 +1,142 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const config = require('../config')
+const { authenticate, requireStaff } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+const { savePhoto } = require('../services/inspections')
+const { readFile } = require('../services/storage')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// Get all inspection checklists
+router.get('/checklists', authenticate, requireStaff, async (req, res) => {
+  try {
+    const checklists = await prisma.inspectionChecklist.findMany({
+      include: { category: true },
+      orderBy: { category: { name: 'asc' } },
+    })
+
+    res.json(checklists)
+  } catch (error) {
+    console.error('Get checklists error:', error)
+    res.status(500).json({ error: 'Failed to fetch checklists' })
+  }
+})
+
+// Set a category's checklist (the check points graded at every inspection)
+router.put('/checklists/:categoryId', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { categoryId } = req.params
+    const { checks } = req.body
+
+    if (!Array.isArray(checks)) {
+      return res.status(400).json({ error: 'Checks must be a list' })
+    }
+
+    const labels = [...new Set(checks.map((check) => String(check).trim()).filter(Boolean))]
+
+    const category = await prisma.category.findUnique({ where: { id: categoryId } })
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' })
+    }
+
+    const checklist = await prisma.$transaction(async (tx) => {
+      const existing = await tx.inspectionChecklist.findUnique({ where: { categoryId } })
+
+      const saved = await tx.inspectionChecklist.upsert({
+        where: { categoryId },
+        create: { categoryId, checks: labels },
+        update: { checks: labels },
+        include: { category: true },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: existing ? 'UPDATE' : 'CREATE',
+        entity: 'InspectionChecklist',
+        entityId: saved.id,
+        before: existing,
+        after: saved,
+      })
+
+      return saved
+    })
+
+    res.json(checklist)
+  } catch (error) {
+    console.error('Save checklist error:', error)
+    res.status(500).json({ error: 'Failed to save checklist' })
+  }
+})
+
+// Delete a category's checklist. Past inspections keep their checks.
+router.delete('/checklists/:categoryId', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { categoryId } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const checklist = await tx.inspectionChecklist.delete({ where: { categoryId } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'InspectionChecklist',
+        entityId: checklist.id,
+        before: checklist,
+      })
+    })
+
+    res.json({ message: 'Checklist deleted successfully' })
+  } catch (error) {
+    console.error('Delete checklist error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Checklist not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete checklist' })
+  }
+})
+
+// Upload an inspection photo as the raw request body (Content-Type image/jpeg,
+// image/png or image/webp). Returns the id to attach at check-out or return.
+router.post(
+  '/photos',
+  authenticate,
+  requireStaff,
+  express.raw({ type: 'image/*', limit: config.inspections.maxPhotoSize }),
+  async (req, res) => {
+    try {
+      const photo = await savePhoto(prisma, {
+        data: req.body,
+        contentType: (req.headers['content-type'] || '').split(';')[0].trim(),
+      })
+
+      res.status(201).json(photo)
+    } catch (error) {
+      console.error('Upload photo error:', error)
+      res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to upload photo' })
+    }
+  }
+)
+
+// Download an inspection photo
+router.get('/photos/:id', authenticate, requireStaff, async (req, res) => {
+  try {
+    const photo = await prisma.inspectionPhoto.findUnique({ where: { id: req.params.id } })
+    if (!photo) {
+      return res.status(404).json({ error: 'Photo not found' })
+    }
+
+    const data = await readFile(photo.filePath)
+
+    res.set({ 'Content-Type': photo.contentType, 'Content-Length': data.length })
+    res.send(data)
+  } catch (error) {
+    console.error('Get photo error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to fetch photo' })
+  }
+})
+
+module.exports = router
@@ -1,6 +1,10 @@
 const express = require('express')
 const { PrismaClient } = require('@prisma/client')
 const { authenticate, requireStaff } = require('../middleware/auth')
+const { BLOCKING_RENTAL_STATUSES, parseWindow, getItemAvailability } = require('../services/availability')
+const { recordAudit } = require('../services/audit')
+const { syncSerializedQuantity, summarizeUnitUsage } = require('../services/units')
+const { filterFinancialData, filterLineFinancialData } = require('../utils/rentals')
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -62,9 +66,11 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
       where: { id },
       include: {
         category: true,
-        rentals: {
+        rentalItems: {
           include: {
-            customer: true,
+            rental: {
+              include: { customer: true },
+            },
           },
           orderBy: { createdAt: 'desc' },
           take: 10,
@@ -73,6 +79,32 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
           orderBy: { createdAt: 'desc' },
           take: 10,
         },
+        units: {
+          include: {
+            rentalUnits: {
+              include: {
+                rentalItem: {
+                  select: {
+                    rental: {
+                      select: {
+                        id: true,
+                        startDate: true,
+                        endDate: true,
+                        status: true,
+                        customer: { select: { id: true, name: true } },
+                      },
+                    },
+                  },
+                },
+              },
+              orderBy: { checkedOutAt: 'desc' },
+            },
+            _count: {
+              select: { maintenances: true },
+            },
+          },
+          orderBy: { serialNumber: 'asc' },
+        },
       },
     })
 
@@ -80,6 +112,27 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
       return res.status(404).json({ error: 'Item not found' })
     }
 
+    // Per-unit usage history for serialized items
+    item.units = item.units.map(({ rentalUnits, _count, ...unit }) => ({
+      ...unit,
+      usage: {
+        ...summarizeUnitUsage(rentalUnits),
+        maintenanceCount: _count.maintenances,
+      },
+      history: rentalUnits.map(({ rentalItem, ...rentalUnit }) => ({
+        ...rentalUnit,
+        rental: rentalItem.rental,
+      })),
+    }))
+
+    // Filter financial data for staff users
+    if (req.user.role === 'STAFF') {
+      item.rentalItems = item.rentalItems.map((line) => ({
+        ...filterLineFinancialData(line),
+        rental: filterFinancialData(line.rental),
+      }))
+    }
+
     res.json(item)
   } catch (error) {
     console.error('Get item error:', error)
@@ -87,6 +140,21 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
   }
 })
 
+// Get item availability over a date range
+router.get('/:id/availability', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { start, end } = parseWindow(req.query.from, req.query.to)
+
+    const availability = await getItemAvailability(prisma, id, start, end)
+
+    res.json(availability)
+  } catch (error) {
+    console.error('Get item availability error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to fetch availability' })
+  }
+})
+
 // Create item
 router.post('/', authenticate, requireStaff, async (req, res) => {
   try {
@@ -98,6 +166,7 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
       dailyRate,
       quantity,
       imageUrl,
+      tracking = 'BULK',
     } = req.body
 
     // Validate required fields
@@ -116,20 +185,34 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
       return res.status(400).json({ error: 'Category not found' })
     }
 
-    const item = await prisma.item.create({
-      data: {
-        name,
-        description,
-        serialNumber,
-        categoryId,
-        dailyRate: parseFloat(dailyRate),
-        quantity: quantity ? parseInt(quantity) : 1,
-        imageUrl,
-        status: 'AVAILABLE',
-      },
-      include: {
-        category: true,
-      },
+    const item = await prisma.$transaction(async (tx) => {
+      const created = await tx.item.create({
+        data: {
+          name,
+          description,
+          serialNumber,
+          categoryId,
+          dailyRate: parseFloat(dailyRate),
+          // Serialized items count their units, which are added separately
+          quantity: tracking === 'SERIALIZED' ? 0 : quantity ? parseInt(quantity) : 1,
+          imageUrl,
+          tracking,
+          status: 'AVAILABLE',
+        },
+        include: {
+          category: true,
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Item',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
     })
 
     res.status(201).json(item)
@@ -168,6 +251,10 @@ router.put('/:id', authenticate, requireStaff, async (req, res) => {
       return res.status(404).json({ error: 'Item not found' })
     }
 
+    if (quantity !== undefined && existingItem.tracking === 'SERIALIZED') {
+      return res.status(400).json({ error: 'Quantity of a serialized item is derived from its units' })
+    }
+
     // If categoryId is provided, validate it exists
     if (categoryId) {
       const category = await prisma.category.findUnique({
@@ -179,21 +266,34 @@ router.put('/:id', authenticate, requireStaff, async (req, res) => {
       }
     }
 
-    const item = await prisma.item.update({
-      where: { id },
-      data: {
-        ...(name && { name }),
-        ...(description !== undefined && { description }),
-        ...(serialNumber !== undefined && { serialNumber }),
-        ...(categoryId && { categoryId }),
-        ...(status && { status }),
-        ...(dailyRate && { dailyRate: parseFloat(dailyRate) }),
-        ...(quantity !== undefined && { quantity: parseInt(quantity) }),
-        ...(imageUrl !== undefined && { imageUrl }),
-      },
-      include: {
-        category: true,
-      },
+    const item = await prisma.$transaction(async (tx) => {
+      const updated = await tx.item.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(description !== undefined && { description }),
+          ...(serialNumber !== undefined && { serialNumber }),
+          ...(categoryId && { categoryId }),
+          ...(status && { status }),
+          ...(dailyRate && { dailyRate: parseFloat(dailyRate) }),
+          ...(quantity !== undefined && { quantity: parseInt(quantity) }),
+          ...(imageUrl !== undefined && { imageUrl }),
+        },
+        include: {
+          category: true,
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'Item',
+        entityId: id,
+        before: existingItem,
+        after: updated,
+      })
+
+      return updated
     })
 
     res.json(item)
@@ -208,16 +308,156 @@ router.put('/:id', authenticate, requireStaff, async (req, res) => {
   }
 })
 
+// Get units of a serialized item
+router.get('/:id/units', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { status } = req.query
+
+    const units = await prisma.itemUnit.findMany({
+      where: {
+        itemId: id,
+        ...(status && { status }),
+      },
+      orderBy: { serialNumber: 'asc' },
+    })
+
+    res.json(units)
+  } catch (error) {
+    console.error('Get item units error:', error)
+    res.status(500).json({ error: 'Failed to fetch item units' })
+  }
+})
+
+// Add a unit to a serialized item
+router.post('/:id/units', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { serialNumber, condition, location, notes } = req.body
+
+    if (!serialNumber) {
+      return res.status(400).json({ error: 'Serial number is required' })
+    }
+
+    const item = await prisma.item.findUnique({
+      where: { id },
+    })
+
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' })
+    }
+
+    if (item.tracking !== 'SERIALIZED') {
+      return res.status(400).json({ error: 'Units can only be added to serialized items' })
+    }
+
+    const unit = await prisma.$transaction(async (tx) => {
+      const newUnit = await tx.itemUnit.create({
+        data: {
+          itemId: id,
+          serialNumber,
+          condition,
+          location,
+          notes,
+        },
+      })
+
+      await syncSerializedQuantity(tx, id)
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'ItemUnit',
+        entityId: newUnit.id,
+        after: newUnit,
+        metadata: { itemId: id },
+      })
+
+      return newUnit
+    })
+
+    res.status(201).json(unit)
+  } catch (error) {
+    console.error('Create item unit error:', error)
+
+    if (error.code === 'P2002') {
+      return res.status(400).json({ error: 'Unit with this serial number already exists' })
+    }
+
+    res.status(500).json({ error: 'Failed to create item unit' })
+  }
+})
+
+// Update a unit (condition, location, status)
+router.put('/:id/units/:unitId', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id, unitId } = req.params
+    const { serialNumber, condition, location, status, notes } = req.body
+
+    const existingUnit = await prisma.itemUnit.findFirst({
+      where: { id: unitId, itemId: id },
+    })
+
+    if (!existingUnit) {
+      return res.status(404).json({ error: 'Unit not found' })
+    }
+
+    if (status === 'RENTED' || (existingUnit.status === 'RENTED' && status)) {
+      return res.status(400).json({ error: 'Rented status is managed by check-out and return' })
+    }
+
+    const unit = await prisma.$transaction(async (tx) => {
+      const updatedUnit = await tx.itemUnit.update({
+        where: { id: unitId },
+        data: {
+          ...(serialNumber && { serialNumber }),
+          ...(condition && { condition }),
+          ...(location !== undefined && { location }),
+          ...(status && { status }),
+          ...(notes !== undefined && { notes }),
+        },
+      })
+
+      // Retiring or reinstating a unit changes the item's capacity
+      if (status) {
+        await syncSerializedQuantity(tx, id)
+      }
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'ItemUnit',
+        entityId: unitId,
+        before: existingUnit,
+        after: updatedUnit,
+        metadata: { itemId: id },
+      })
+
+      return updatedUnit
+    })
+
+    res.json(unit)
+  } catch (error) {
+    console.error('Update item unit error:', error)
+
+    if (error.code === 'P2002') {
+      return res.status(400).json({ error: 'Unit with this serial number already exists' })
+    }
+
+    res.status(500).json({ error: 'Failed to update item unit' })
+  }
+})
+
 // Delete item
 router.delete('/:id', authenticate, requireStaff, async (req, res) => {
   try {
     const { id } = req.params
 
     // Check if item has active rentals
-    const activeRentals = await prisma.rental.count({
+    const activeRentals = await prisma.rentalItem.count({
       where: {
         itemId: id,
-        status: { in: ['PENDING', 'ACTIVE'] },
+        rental: { status: { in: BLOCKING_RENTAL_STATUSES } },
       },
     })
 
@@ -227,8 +467,18 @@ router.delete('/:id', authenticate, requireStaff, async (req, res) => {
       })
     }
 
-    await prisma.item.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      const item = await tx.item.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'Item',
+        entityId: id,
+        before: item,
+      })
     })
 
     res.json({ message: 'Item deleted successfully' })
@@ -238,6 +488,11 @@ router.delete('/:id', authenticate, requireStaff, async (req, res) => {
     if (error.code === 'P2025') {
       return res.status(404).json({ error: 'Item not found' })
     }
+
+    // Items with purchase or disposal records stay in the asset register
+    if (error.code === 'P2003') {
+      return res.status(400).json({ error: 'Cannot delete an item with purchase records; retire it instead' })
+    }
     
     res.status(500).json({ error: 'Failed to delete item' })
   }
@@ -0,0 +1,117 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireAdmin } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+const { scheduler } = require('../jobs')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// ALL ROUTES IN THIS FILE ARE ADMIN ONLY
+
+// List jobs with their last run
+router.get('/', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const jobs = await Promise.all(
+      scheduler.jobs.map(async (job) => {
+        const lastRun = await prisma.jobRun.findFirst({
+          where: { jobName: job.name },
+          orderBy: { startedAt: 'desc' },
+        })
+
+        return {
+          name: job.name,
+          description: job.description,
+          intervalMs: job.intervalMs,
+          running: scheduler.isRunning(job.name),
+          lastRun,
+        }
+      })
+    )
+
+    res.json(jobs)
+  } catch (error) {
+    console.error('Get jobs error:', error)
+    res.status(500).json({ error: 'Failed to fetch jobs' })
+  }
+})
+
+// Get job run history
+router.get('/runs', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { page = 1, limit = 20, jobName, status } = req.query
+
+    const skip = (parseInt(page) - 1) * parseInt(limit)
+    const take = parseInt(limit)
+
+    const where = {}
+
+    if (jobName) {
+      where.jobName = jobName
+    }
+
+    if (status) {
+      where.status = status
+    }
+
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          triggeredBy: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+        orderBy: { startedAt: 'desc' },
+      }),
+      prisma.jobRun.count({ where }),
+    ])
+
+    res.json({
+      runs,
+      total,
+      page: parseInt(page),
+      totalPages: Math.ceil(total / take),
+    })
+  } catch (error) {
+    console.error('Get job runs error:', error)
+    res.status(500).json({ error: 'Failed to fetch job runs' })
+  }
+})
+
+// Trigger a job manually
+router.post('/:name/run', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { name } = req.params
+
+    if (!scheduler.getJob(name)) {
+      return res.status(404).json({ error: 'Job not found' })
+    }
+
+    const run = await scheduler.runJob(name, {
+      trigger: 'MANUAL',
+      userId: req.user.id,
+      onFinish: (tx, jobRun) =>
+        recordAudit(tx, {
+          user: req.user,
+          action: 'RUN',
+          entity: 'JobRun',
+          entityId: jobRun.id,
+          metadata: { job: name, status: jobRun.status },
+        }),
+    })
+
+    if (!run) {
+      return res.status(409).json({ error: 'Job is already running' })
+    }
+
+    res.json(run)
+  } catch (error) {
+    console.error('Run job error:', error)
+    res.status(500).json({ error: 'Failed to run job' })
+  }
+})
+
+module.exports = router
@@ -0,0 +1,51 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireStaff } = require('../middleware/auth')
+const { renderLabelImage, renderLabelSheet, resolveScan } = require('../services/labels')
+const { sendPdf } = require('../utils/documents')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// Look up a scanned label (from a keyboard-wedge scanner or the camera)
+router.get('/scan', authenticate, requireStaff, async (req, res) => {
+  try {
+    const result = await resolveScan(prisma, req.query.code)
+
+    res.json(result)
+  } catch (error) {
+    console.error('Scan lookup error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to look up code' })
+  }
+})
+
+// Render a single code as a PNG, e.g. to preview a label on screen
+router.get('/image', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { code, format } = req.query
+
+    const image = await renderLabelImage(code, format)
+
+    res.set({ 'Content-Type': 'image/png', 'Content-Length': image.length })
+    res.send(image)
+  } catch (error) {
+    console.error('Render label error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to render label' })
+  }
+})
+
+// Print a sheet of labels for a batch of items and units
+router.post('/sheet', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { itemIds, unitIds, copies, format } = req.body
+
+    const pdf = await renderLabelSheet(prisma, { itemIds, unitIds, copies, format })
+
+    sendPdf(res, `labels-${new Date().toISOString().slice(0, 10)}.pdf`, pdf)
+  } catch (error) {
+    console.error('Render label sheet error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to render labels' })
+  }
+})
+
+module.exports = router
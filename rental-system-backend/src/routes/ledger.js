@@ -0,0 +1,167 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireAdmin } = require('../middleware/auth')
+const {
+  getAccountBalances,
+  getTrialBalance,
+  getProfitAndLoss,
+  getBalanceSheet,
+} = require('../services/ledger')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// ALL ROUTES IN THIS FILE ARE ADMIN ONLY
+// Amounts are integer minor units (cents)
+
+// Parse optional date query parameters; returns { error } for an invalid one
+const parseDates = (query, names) => {
+  const dates = {}
+
+  for (const name of names) {
+    if (!query[name]) continue
+
+    const date = new Date(query[name])
+    if (isNaN(date.getTime())) {
+      return { error: `Invalid ${name}` }
+    }
+    dates[name] = date
+  }
+
+  return { dates }
+}
+
+// Chart of accounts with each account's balance
+router.get('/accounts', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { error, dates } = parseDates(req.query, ['startDate', 'endDate'])
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const accounts = await getAccountBalances(prisma, dates)
+
+    res.json(accounts)
+  } catch (error) {
+    console.error('Get ledger accounts error:', error)
+    res.status(500).json({ error: 'Failed to fetch ledger accounts' })
+  }
+})
+
+// Get journal entries with their lines
+router.get('/entries', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { page = 1, limit = 20, source, sourceId, rentalId, accountCode } = req.query
+
+    const { error, dates } = parseDates(req.query, ['startDate', 'endDate'])
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit)
+    const take = parseInt(limit)
+
+    const where = {}
+
+    if (source) {
+      where.source = source
+    }
+
+    if (sourceId) {
+      where.sourceId = sourceId
+    }
+
+    if (rentalId) {
+      where.rentalId = rentalId
+    }
+
+    if (accountCode) {
+      where.lines = { some: { accountCode } }
+    }
+
+    if (dates.startDate || dates.endDate) {
+      where.date = {}
+      if (dates.startDate) where.date.gte = dates.startDate
+      if (dates.endDate) where.date.lte = dates.endDate
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.journalEntry.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          lines: {
+            include: { account: true },
+            orderBy: { debit: 'desc' },
+          },
+        },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      }),
+      prisma.journalEntry.count({ where }),
+    ])
+
+    res.json({
+      entries,
+      total,
+      page: parseInt(page),
+      totalPages: Math.ceil(total / take),
+    })
+  } catch (error) {
+    console.error('Get journal entries error:', error)
+    res.status(500).json({ error: 'Failed to fetch journal entries' })
+  }
+})
+
+// Trial balance as of a date (default: now)
+router.get('/trial-balance', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { error, dates } = parseDates(req.query, ['asOf'])
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const trialBalance = await getTrialBalance(prisma, dates)
+
+    res.json(trialBalance)
+  } catch (error) {
+    console.error('Get trial balance error:', error)
+    res.status(500).json({ error: 'Failed to fetch trial balance' })
+  }
+})
+
+// Profit and loss for a period (default: all time)
+router.get('/profit-and-loss', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { error, dates } = parseDates(req.query, ['startDate', 'endDate'])
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const profitAndLoss = await getProfitAndLoss(prisma, dates)
+
+    res.json(profitAndLoss)
+  } catch (error) {
+    console.error('Get profit and loss error:', error)
+    res.status(500).json({ error: 'Failed to fetch profit and loss' })
+  }
+})
+
+// Balance sheet as of a date (default: now)
+router.get('/balance-sheet', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { error, dates } = parseDates(req.query, ['asOf'])
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    const balanceSheet = await getBalanceSheet(prisma, dates)
+
+    res.json(balanceSheet)
+  } catch (error) {
+    console.error('Get balance sheet error:', error)
+    res.status(500).json({ error: 'Failed to fetch balance sheet' })
+  }
+})
+
+module.exports = router
@@ -1,20 +1,27 @@
 const express = require('express')
 const { PrismaClient } = require('@prisma/client')
 const { authenticate, requireStaff } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+const {
+  maintenanceInclude,
+  openMaintenance,
+  updateMaintenance,
+  completeMaintenance,
+} = require('../services/maintenance')
 
 const router = express.Router()
 const prisma = new PrismaClient()
 
-// Helper function to remove cost for staff
+// Helper function to remove costs for staff
 const filterCost = (maintenance) => {
-  const { cost, ...rest } = maintenance
+  const { cost, partsCost, labourCost, ...rest } = maintenance
   return rest
 }
 
 // Get all maintenance records
 router.get('/', authenticate, requireStaff, async (req, res) => {
   try {
-    const { page = 1, limit = 10, status, itemId } = req.query
+    const { page = 1, limit = 10, status, itemId, unitId, technician } = req.query
 
     const skip = (parseInt(page) - 1) * parseInt(limit)
     const take = parseInt(limit)
@@ -29,15 +36,22 @@ router.get('/', authenticate, requireStaff, async (req, res) => {
       where.itemId = itemId
     }
 
+    if (unitId) {
+      where.unitId = unitId
+    }
+
+    if (technician) {
+      where.technician = { contains: technician, mode: 'insensitive' }
+    }
+
     const [maintenances, total] = await Promise.all([
       prisma.maintenance.findMany({
         where,
         skip,
         take,
-        include: {
-          item: true,
-        },
-        orderBy: { createdAt: 'desc' },
+        include: maintenanceInclude,
+        // Open work soonest first; completed work most recent first
+        orderBy: status === 'COMPLETED' ? { endDate: 'desc' } : { startDate: 'asc' },
       }),
       prisma.maintenance.count({ where }),
     ])
@@ -67,9 +81,7 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
 
     const maintenance = await prisma.maintenance.findUnique({
       where: { id },
-      include: {
-        item: true,
-      },
+      include: maintenanceInclude,
     })
 
     if (!maintenance) {
@@ -89,10 +101,12 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
   }
 })
 
-// Create maintenance record
+// Create maintenance record. A future startDate (with an endDate) schedules
+// the work: the window blocks availability and must not clash with bookings.
 router.post('/', authenticate, requireStaff, async (req, res) => {
   try {
-    const { itemId, description, cost = 0 } = req.body
+    const { itemId, unitId, description, technician, notes, startDate, endDate } = req.body
+    const { cost, partsCost, labourCost } = req.body
 
     if (!itemId || !description) {
       return res.status(400).json({ 
@@ -109,27 +123,45 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
       return res.status(404).json({ error: 'Item not found' })
     }
 
-    // Create maintenance and update item status
+    // Validate unit belongs to the item
+    if (unitId) {
+      const unit = await prisma.itemUnit.findFirst({
+        where: { id: unitId, itemId },
+      })
+
+      if (!unit) {
+        return res.status(404).json({ error: 'Unit not found' })
+      }
+
+      // A unit out on a rental can still have work scheduled for after it is back
+      const scheduled = startDate && new Date(startDate) > new Date()
+      if (unit.status === 'RENTED' && !scheduled) {
+        return res.status(400).json({ error: 'Unit is currently rented out' })
+      }
+    }
+
+    // Create maintenance and update item (or unit) status; only admins set costs
     const maintenance = await prisma.$transaction(async (tx) => {
-      const newMaintenance = await tx.maintenance.create({
-        data: {
-          itemId,
-          description,
-          cost: req.user.role === 'ADMIN' ? parseFloat(cost) : 0,
-          status: 'PENDING',
-        },
-        include: {
-          item: true,
-        },
+      const created = await openMaintenance(tx, {
+        itemId,
+        unitId,
+        description,
+        technician,
+        notes,
+        startDate,
+        endDate,
+        ...(req.user.role === 'ADMIN' && { cost, partsCost, labourCost }),
       })
 
-      // Update item status
-      await tx.item.update({
-        where: { id: itemId },
-        data: { status: 'MAINTENANCE' },
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Maintenance',
+        entityId: created.id,
+        after: created,
       })
 
-      return newMaintenance
+      return created
     })
 
     // Filter cost for staff users
@@ -141,33 +173,33 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
     res.status(201).json(response)
   } catch (error) {
     console.error('Create maintenance error:', error)
-    res.status(500).json({ error: 'Failed to create maintenance record' })
+    res.status(error.status || 500).json({
+      error: error.status ? error.message : 'Failed to create maintenance record',
+    })
   }
 })
 
-// Update maintenance record
+// Update a work order: details, technician, status (PENDING / IN_PROGRESS)
+// and schedule. Only admin can update costs.
 router.put('/:id', authenticate, requireStaff, async (req, res) => {
   try {
     const { id } = req.params
-    const { description, status, cost } = req.body
 
-    // Build update data based on role
-    const updateData = {}
-    
-    if (description) updateData.description = description
-    if (status) updateData.status = status
-    
-    // Only admin can update cost
-    if (cost !== undefined && req.user.role === 'ADMIN') {
-      updateData.cost = parseFloat(cost)
-    }
+    const maintenance = await prisma.$transaction(async (tx) => {
+      const { existing, maintenance: updated } = await updateMaintenance(tx, id, req.body, {
+        allowCosts: req.user.role === 'ADMIN',
+      })
 
-    const maintenance = await prisma.maintenance.update({
-      where: { id },
-      data: updateData,
-      include: {
-        item: true,
-      },
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'Maintenance',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
     })
 
     // Filter cost for staff users
@@ -179,12 +211,9 @@ router.put('/:id', authenticate, requireStaff, async (req, res) => {
     res.json(response)
   } catch (error) {
     console.error('Update maintenance error:', error)
-    
-    if (error.code === 'P2025') {
-      return res.status(404).json({ error: 'Maintenance record not found' })
-    }
-    
-    res.status(500).json({ error: 'Failed to update maintenance record' })
+    res.status(error.status || 500).json({
+      error: error.status ? error.message : 'Failed to update maintenance record',
+    })
   }
 })
 
@@ -194,35 +223,15 @@ router.put('/:id/complete', authenticate, requireStaff, async (req, res) => {
     const { id } = req.params
 
     const maintenance = await prisma.$transaction(async (tx) => {
-      const existing = await tx.maintenance.findUnique({
-        where: { id },
-        include: { item: true },
-      })
-
-      if (!existing) {
-        throw new Error('Maintenance record not found')
-      }
-
-      if (existing.status === 'COMPLETED') {
-        throw new Error('Maintenance already completed')
-      }
-
-      // Update maintenance
-      const updated = await tx.maintenance.update({
-        where: { id },
-        data: {
-          status: 'COMPLETED',
-          endDate: new Date(),
-        },
-        include: {
-          item: true,
-        },
-      })
-
-      // Update item status back to available
-      await tx.item.update({
-        where: { id: existing.itemId },
-        data: { status: 'AVAILABLE' },
+      const { existing, maintenance: updated } = await completeMaintenance(tx, id)
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'COMPLETE',
+        entity: 'Maintenance',
+        entityId: id,
+        before: existing,
+        after: updated,
       })
 
       return updated
@@ -237,7 +246,9 @@ router.put('/:id/complete', authenticate, requireStaff, async (req, res) => {
     res.json(response)
   } catch (error) {
     console.error('Complete maintenance error:', error)
-    res.status(500).json({ error: error.message || 'Failed to complete maintenance' })
+    res.status(error.status || 500).json({
+      error: error.status ? error.message : 'Failed to complete maintenance',
+    })
   }
 })
 
@@ -246,8 +257,18 @@ router.delete('/:id', authenticate, requireStaff, async (req, res) => {
   try {
     const { id } = req.params
 
-    await prisma.maintenance.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      const maintenance = await tx.maintenance.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'Maintenance',
+        entityId: id,
+        before: maintenance,
+      })
     })
 
     res.json({ message: 'Maintenance record deleted successfully' })
@@ -0,0 +1,232 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireStaff } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+const { TRIGGERS, getPlanStatuses, openPlanWorkOrder } = require('../services/maintenancePlans')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+const planInclude = { item: true, category: true }
+
+const parsePlanData = (body) => {
+  const data = {}
+
+  if (body.name !== undefined) data.name = body.name
+  if (body.description !== undefined) data.description = body.description
+  if (body.itemId !== undefined) data.itemId = body.itemId || null
+  if (body.categoryId !== undefined) data.categoryId = body.categoryId || null
+  if (body.trigger !== undefined) data.trigger = body.trigger
+  if (body.interval !== undefined) data.interval = parseInt(body.interval)
+  if (body.active !== undefined) data.active = Boolean(body.active)
+
+  return data
+}
+
+// A plan covers either one item or every item in a category
+const validatePlan = (plan) => {
+  if (Boolean(plan.itemId) === Boolean(plan.categoryId)) {
+    return 'A maintenance plan applies to either an item or a category'
+  }
+  if (!TRIGGERS.includes(plan.trigger)) {
+    return `Trigger must be one of ${TRIGGERS.join(', ')}`
+  }
+  if (!(plan.interval > 0)) {
+    return 'Interval must be a whole number greater than zero'
+  }
+  return null
+}
+
+// Get all maintenance plans
+router.get('/', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { itemId, categoryId, active } = req.query
+
+    const where = {}
+
+    if (itemId) {
+      where.itemId = itemId
+    }
+
+    if (categoryId) {
+      where.categoryId = categoryId
+    }
+
+    if (active !== undefined) {
+      where.active = active === 'true'
+    }
+
+    const plans = await prisma.maintenancePlan.findMany({
+      where,
+      include: planInclude,
+      orderBy: { createdAt: 'asc' },
+    })
+
+    res.json(plans)
+  } catch (error) {
+    console.error('Get maintenance plans error:', error)
+    res.status(500).json({ error: 'Failed to fetch maintenance plans' })
+  }
+})
+
+// Where every active plan stands for each item it covers (or one item)
+router.get('/status', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { itemId } = req.query
+
+    const statuses = await getPlanStatuses(prisma, { itemIds: itemId ? [itemId] : undefined })
+
+    res.json(statuses)
+  } catch (error) {
+    console.error('Get maintenance plan status error:', error)
+    res.status(500).json({ error: 'Failed to fetch maintenance plan status' })
+  }
+})
+
+// Create maintenance plan
+router.post('/', authenticate, requireStaff, async (req, res) => {
+  try {
+    const data = parsePlanData(req.body)
+
+    if (!data.name || !data.description) {
+      return res.status(400).json({ error: 'Name and description are required' })
+    }
+
+    const invalid = validatePlan(data)
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      const created = await tx.maintenancePlan.create({
+        data,
+        include: planInclude,
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'MaintenancePlan',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(plan)
+  } catch (error) {
+    console.error('Create maintenance plan error:', error)
+    res.status(500).json({ error: 'Failed to create maintenance plan' })
+  }
+})
+
+// Update maintenance plan
+router.put('/:id', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    const existing = await prisma.maintenancePlan.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Maintenance plan not found' })
+    }
+
+    const data = parsePlanData(req.body)
+
+    const invalid = validatePlan({ ...existing, ...data })
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      const updated = await tx.maintenancePlan.update({
+        where: { id },
+        data,
+        include: planInclude,
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'MaintenancePlan',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
+    })
+
+    res.json(plan)
+  } catch (error) {
+    console.error('Update maintenance plan error:', error)
+    res.status(500).json({ error: 'Failed to update maintenance plan' })
+  }
+})
+
+// Delete maintenance plan. Its past work orders are kept.
+router.delete('/:id', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const plan = await tx.maintenancePlan.delete({ where: { id } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'MaintenancePlan',
+        entityId: id,
+        before: plan,
+      })
+    })
+
+    res.json({ message: 'Maintenance plan deleted successfully' })
+  } catch (error) {
+    console.error('Delete maintenance plan error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Maintenance plan not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete maintenance plan' })
+  }
+})
+
+// Open the plan's work order on an item. Completing it resets the plan's
+// interval for that item.
+router.post('/:id/work-orders', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { itemId, technician, notes, startDate, endDate } = req.body
+
+    const maintenance = await prisma.$transaction(async (tx) => {
+      const created = await openPlanWorkOrder(tx, id, { itemId, technician, notes, startDate, endDate })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Maintenance',
+        entityId: created.id,
+        after: created,
+        metadata: { planId: id },
+      })
+
+      return created
+    })
+
+    // Filter cost for staff users
+    let response = maintenance
+    if (req.user.role === 'STAFF') {
+      const { cost, partsCost, labourCost, ...rest } = maintenance
+      response = rest
+    }
+
+    res.status(201).json(response)
+  } catch (error) {
+    console.error('Create plan work order error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to create work order' })
+  }
+})
+
+module.exports = router
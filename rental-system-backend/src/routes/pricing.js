@@ -0,0 +1,473 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireAdmin } = require('../middleware/auth')
+const { recordAudit } = require('../services/audit')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// ALL ROUTES IN THIS FILE ARE ADMIN ONLY
+
+const parseOptionalRate = (value) =>
+  value === null || value === '' ? null : parseFloat(value)
+
+const parseRatePlanData = (body) => {
+  const data = {}
+
+  if (body.name !== undefined) data.name = body.name
+  if (body.itemId !== undefined) data.itemId = body.itemId || null
+  if (body.categoryId !== undefined) data.categoryId = body.categoryId || null
+  if (body.dailyRate !== undefined) data.dailyRate = parseOptionalRate(body.dailyRate)
+  if (body.weeklyRate !== undefined) data.weeklyRate = parseOptionalRate(body.weeklyRate)
+  if (body.monthlyRate !== undefined) data.monthlyRate = parseOptionalRate(body.monthlyRate)
+  if (body.weekendMultiplier !== undefined) data.weekendMultiplier = parseFloat(body.weekendMultiplier)
+  if (body.active !== undefined) data.active = Boolean(body.active)
+
+  return data
+}
+
+const parseSeasonData = (body) => {
+  const data = {}
+
+  if (body.name !== undefined) data.name = body.name
+  if (body.itemId !== undefined) data.itemId = body.itemId || null
+  if (body.categoryId !== undefined) data.categoryId = body.categoryId || null
+  if (body.startDate !== undefined) data.startDate = new Date(body.startDate)
+  if (body.endDate !== undefined) data.endDate = new Date(body.endDate)
+  if (body.multiplier !== undefined) data.multiplier = parseFloat(body.multiplier)
+  if (body.active !== undefined) data.active = Boolean(body.active)
+
+  return data
+}
+
+// A plan prices either one item or one category
+const validateRatePlan = (plan) => {
+  if (Boolean(plan.itemId) === Boolean(plan.categoryId)) {
+    return 'A rate plan applies to either an item or a category'
+  }
+  const rates = [plan.dailyRate, plan.weeklyRate, plan.monthlyRate]
+  if (rates.some((rate) => rate !== null && rate !== undefined && !(rate >= 0))) {
+    return 'Rates cannot be negative'
+  }
+  if (!(plan.weekendMultiplier > 0)) {
+    return 'weekendMultiplier must be greater than zero'
+  }
+  return null
+}
+
+const validateSeason = (season) => {
+  if (!(season.endDate > season.startDate)) {
+    return 'End date must be after start date'
+  }
+  if (!(season.multiplier > 0)) {
+    return 'multiplier must be greater than zero'
+  }
+  return null
+}
+
+// Get all rate plans
+router.get('/rate-plans', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { itemId, categoryId } = req.query
+
+    const where = {}
+
+    if (itemId) {
+      where.itemId = itemId
+    }
+
+    if (categoryId) {
+      where.categoryId = categoryId
+    }
+
+    const ratePlans = await prisma.ratePlan.findMany({
+      where,
+      include: { item: true, category: true },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    res.json(ratePlans)
+  } catch (error) {
+    console.error('Get rate plans error:', error)
+    res.status(500).json({ error: 'Failed to fetch rate plans' })
+  }
+})
+
+// Create rate plan
+router.post('/rate-plans', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const data = parseRatePlanData(req.body)
+
+    if (!data.name) {
+      return res.status(400).json({ error: 'Name is required' })
+    }
+
+    const invalid = validateRatePlan({ weekendMultiplier: 1, ...data })
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const ratePlan = await prisma.$transaction(async (tx) => {
+      const created = await tx.ratePlan.create({
+        data,
+        include: { item: true, category: true },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'RatePlan',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(ratePlan)
+  } catch (error) {
+    console.error('Create rate plan error:', error)
+    res.status(500).json({ error: 'Failed to create rate plan' })
+  }
+})
+
+// Update rate plan
+router.put('/rate-plans/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    const existing = await prisma.ratePlan.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Rate plan not found' })
+    }
+
+    const data = parseRatePlanData(req.body)
+
+    const invalid = validateRatePlan({ ...existing, ...data })
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const ratePlan = await prisma.$transaction(async (tx) => {
+      const updated = await tx.ratePlan.update({
+        where: { id },
+        data,
+        include: { item: true, category: true },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'RatePlan',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
+    })
+
+    res.json(ratePlan)
+  } catch (error) {
+    console.error('Update rate plan error:', error)
+    res.status(500).json({ error: 'Failed to update rate plan' })
+  }
+})
+
+// Delete rate plan
+router.delete('/rate-plans/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const ratePlan = await tx.ratePlan.delete({ where: { id } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'RatePlan',
+        entityId: id,
+        before: ratePlan,
+      })
+    })
+
+    res.json({ message: 'Rate plan deleted successfully' })
+  } catch (error) {
+    console.error('Delete rate plan error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Rate plan not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete rate plan' })
+  }
+})
+
+// Get all seasonal rates
+router.get('/seasons', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const seasons = await prisma.seasonalRate.findMany({
+      include: { item: true, category: true },
+      orderBy: { startDate: 'asc' },
+    })
+
+    res.json(seasons)
+  } catch (error) {
+    console.error('Get seasons error:', error)
+    res.status(500).json({ error: 'Failed to fetch seasons' })
+  }
+})
+
+// Create seasonal rate
+router.post('/seasons', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const data = parseSeasonData(req.body)
+
+    if (!data.name || !data.startDate || !data.endDate || data.multiplier === undefined) {
+      return res.status(400).json({ error: 'Name, start date, end date, and multiplier are required' })
+    }
+
+    const invalid = validateSeason(data)
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const season = await prisma.$transaction(async (tx) => {
+      const created = await tx.seasonalRate.create({
+        data,
+        include: { item: true, category: true },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'SeasonalRate',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(season)
+  } catch (error) {
+    console.error('Create season error:', error)
+    res.status(500).json({ error: 'Failed to create season' })
+  }
+})
+
+// Update seasonal rate
+router.put('/seasons/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    const existing = await prisma.seasonalRate.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ error: 'Season not found' })
+    }
+
+    const data = parseSeasonData(req.body)
+
+    const invalid = validateSeason({ ...existing, ...data })
+    if (invalid) {
+      return res.status(400).json({ error: invalid })
+    }
+
+    const season = await prisma.$transaction(async (tx) => {
+      const updated = await tx.seasonalRate.update({
+        where: { id },
+        data,
+        include: { item: true, category: true },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'SeasonalRate',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
+    })
+
+    res.json(season)
+  } catch (error) {
+    console.error('Update season error:', error)
+    res.status(500).json({ error: 'Failed to update season' })
+  }
+})
+
+// Delete seasonal rate
+router.delete('/seasons/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const season = await tx.seasonalRate.delete({ where: { id } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'SeasonalRate',
+        entityId: id,
+        before: season,
+      })
+    })
+
+    res.json({ message: 'Season deleted successfully' })
+  } catch (error) {
+    console.error('Delete season error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Season not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete season' })
+  }
+})
+
+// Get all customer groups
+router.get('/customer-groups', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const groups = await prisma.customerGroup.findMany({
+      include: {
+        _count: {
+          select: { customers: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    res.json(groups)
+  } catch (error) {
+    console.error('Get customer groups error:', error)
+    res.status(500).json({ error: 'Failed to fetch customer groups' })
+  }
+})
+
+// Create customer group
+router.post('/customer-groups', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { name, description, discountPercent = 0 } = req.body
+
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' })
+    }
+
+    const percent = parseFloat(discountPercent)
+    if (!(percent >= 0 && percent <= 100)) {
+      return res.status(400).json({ error: 'discountPercent must be between 0 and 100' })
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const created = await tx.customerGroup.create({
+        data: { name, description, discountPercent: percent },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'CustomerGroup',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    res.status(201).json(group)
+  } catch (error) {
+    console.error('Create customer group error:', error)
+
+    if (error.code === 'P2002') {
+      return res.status(400).json({ error: 'Customer group already exists' })
+    }
+
+    res.status(500).json({ error: 'Failed to create customer group' })
+  }
+})
+
+// Update customer group
+router.put('/customer-groups/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { name, description, discountPercent } = req.body
+
+    if (discountPercent !== undefined) {
+      const percent = parseFloat(discountPercent)
+      if (!(percent >= 0 && percent <= 100)) {
+        return res.status(400).json({ error: 'discountPercent must be between 0 and 100' })
+      }
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const existing = await tx.customerGroup.findUnique({ where: { id } })
+
+      const updated = await tx.customerGroup.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(description !== undefined && { description }),
+          ...(discountPercent !== undefined && { discountPercent: parseFloat(discountPercent) }),
+        },
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'CustomerGroup',
+        entityId: id,
+        before: existing,
+        after: updated,
+      })
+
+      return updated
+    })
+
+    res.json(group)
+  } catch (error) {
+    console.error('Update customer group error:', error)
+
+    if (error.code === 'P2002') {
+      return res.status(400).json({ error: 'Customer group already exists' })
+    }
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Customer group not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to update customer group' })
+  }
+})
+
+// Delete customer group (its customers keep their accounts, without the discount)
+router.delete('/customer-groups/:id', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.$transaction(async (tx) => {
+      const group = await tx.customerGroup.delete({ where: { id } })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'DELETE',
+        entity: 'CustomerGroup',
+        entityId: id,
+        before: group,
+      })
+    })
+
+    res.json({ message: 'Customer group deleted successfully' })
+  } catch (error) {
+    console.error('Delete customer group error:', error)
+
+    if (error.code === 'P2025') {
+      return res.status(404).json({ error: 'Customer group not found' })
+    }
+
+    res.status(500).json({ error: 'Failed to delete customer group' })
+  }
+})
+
+module.exports = router
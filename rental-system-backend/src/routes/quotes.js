@@ -0,0 +1,234 @@
+const express = require('express')
+const { PrismaClient } = require('@prisma/client')
+const { authenticate, requireStaff } = require('../middleware/auth')
+const {
+  getAllowedQuoteActions,
+  createQuote,
+  sendQuote,
+  acceptQuote,
+  declineQuote,
+  convertQuote,
+} = require('../services/quotes')
+const { recordAudit } = require('../services/audit')
+const { parseOrderInput, rentalInclude, filterFinancialData } = require('../utils/rentals')
+const { quoteInclude, filterQuoteFinancialData } = require('../utils/quotes')
+
+const router = express.Router()
+const prisma = new PrismaClient()
+
+// Get all quotes
+router.get('/', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { page = 1, limit = 10, status, customerId, search } = req.query
+
+    const skip = (parseInt(page) - 1) * parseInt(limit)
+    const take = parseInt(limit)
+
+    const where = {}
+
+    if (status && status !== 'ALL') {
+      where.status = status
+    }
+
+    if (customerId) {
+      where.customerId = customerId
+    }
+
+    if (search) {
+      where.customer = { name: { contains: search, mode: 'insensitive' } }
+    }
+
+    const [quotes, total] = await Promise.all([
+      prisma.quote.findMany({
+        where,
+        skip,
+        take,
+        include: quoteInclude,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.quote.count({ where }),
+    ])
+
+    // Filter financial data for staff users
+    let response = quotes
+    if (req.user.role === 'STAFF') {
+      response = quotes.map(filterQuoteFinancialData)
+    }
+
+    res.json({
+      quotes: response,
+      total,
+      page: parseInt(page),
+      totalPages: Math.ceil(total / take),
+    })
+  } catch (error) {
+    console.error('Get quotes error:', error)
+    res.status(500).json({ error: 'Failed to fetch quotes' })
+  }
+})
+
+// Reload a quote and send it with its allowed actions, filtered for staff
+const sendQuoteResponse = async (req, res, id, status = 200) => {
+  const quote = await prisma.quote.findUnique({
+    where: { id },
+    include: quoteInclude,
+  })
+
+  if (!quote) {
+    return res.status(404).json({ error: 'Quote not found' })
+  }
+
+  const response = req.user.role === 'STAFF' ? filterQuoteFinancialData(quote) : quote
+  res.status(status).json({ ...response, allowedActions: getAllowedQuoteActions(quote) })
+}
+
+// Get single quote
+router.get('/:id', authenticate, requireStaff, async (req, res) => {
+  try {
+    await sendQuoteResponse(req, res, req.params.id)
+  } catch (error) {
+    console.error('Get quote error:', error)
+    res.status(500).json({ error: 'Failed to fetch quote' })
+  }
+})
+
+// Create quote, priced by the pricing engine. With holdStock (the default)
+// the quoted units are held until the quote expires, is declined or converts.
+router.post('/', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { customerId, items = [], deposit = 0, discount = 0, notes, expiresAt, holdStock = true } = req.body
+
+    const { error, start, end } = parseOrderInput(req.body)
+    if (error) {
+      return res.status(400).json({ error })
+    }
+
+    // Only admins may override a line's rate
+    const quote = await prisma.$transaction(async (tx) => {
+      const created = await createQuote(tx, {
+        customerId,
+        userId: req.user.id,
+        items,
+        start,
+        end,
+        deposit,
+        discount,
+        notes,
+        expiresAt,
+        holdStock,
+        allowRateOverride: req.user.role === 'ADMIN',
+      })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Quote',
+        entityId: created.id,
+        after: created,
+      })
+
+      return created
+    })
+
+    await sendQuoteResponse(req, res, quote.id, 201)
+  } catch (error) {
+    console.error('Create quote error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to create quote' })
+  }
+})
+
+// Run a status change in a transaction, auditing the quote as it was before
+// and after. Returns what `run` returns.
+const runQuoteAction = (req, id, action, run) =>
+  prisma.$transaction(async (tx) => {
+    const before = await tx.quote.findUnique({ where: { id } })
+
+    const result = await run(tx)
+
+    const after = await tx.quote.findUnique({ where: { id } })
+    await recordAudit(tx, { user: req.user, action, entity: 'Quote', entityId: id, before, after })
+
+    return result
+  })
+
+// Send a quote to the customer (again, if already sent)
+router.post('/:id/send', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await runQuoteAction(req, id, 'SEND', (tx) => sendQuote(tx, id))
+
+    await sendQuoteResponse(req, res, id)
+  } catch (error) {
+    console.error('Send quote error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to send quote' })
+  }
+})
+
+// Record the customer's acceptance
+router.post('/:id/accept', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await runQuoteAction(req, id, 'ACCEPT', (tx) => acceptQuote(tx, id))
+
+    await sendQuoteResponse(req, res, id)
+  } catch (error) {
+    console.error('Accept quote error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to accept quote' })
+  }
+})
+
+// Record the customer's refusal, releasing held stock
+router.post('/:id/decline', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await runQuoteAction(req, id, 'DECLINE', (tx) => declineQuote(tx, id))
+
+    await sendQuoteResponse(req, res, id)
+  } catch (error) {
+    console.error('Decline quote error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to decline quote' })
+  }
+})
+
+// Convert a quote into a confirmed rental at the quoted prices
+router.post('/:id/convert', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    const { id: rentalId } = await runQuoteAction(req, id, 'CONVERT', async (tx) => {
+      const created = await convertQuote(tx, id, { userId: req.user.id })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Rental',
+        entityId: created.id,
+        after: created,
+        metadata: { quoteId: id },
+      })
+
+      return created
+    })
+
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId },
+      include: rentalInclude,
+    })
+
+    // Filter financial data for staff users
+    let response = rental
+    if (req.user.role === 'STAFF') {
+      response = filterFinancialData(rental)
+    }
+
+    res.status(201).json(response)
+  } catch (error) {
+    console.error('Convert quote error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to convert quote' })
+  }
+})
+
+module.exports = router
@@ -1,17 +1,38 @@
 const express = require('express')
 const { PrismaClient } = require('@prisma/client')
-const { authenticate, requireStaff } = require('../middleware/auth')
+const { authenticate, requireAdmin, requireStaff } = require('../middleware/auth')
+const { getItemAvailability, assertItemAvailable, lockItems } = require('../services/availability')
+const { calculateNumberOfDays, recalculateRental } = require('../services/rentalFinancials')
+const { priceRental } = require('../services/pricing')
+const {
+  getAllowedActions,
+  confirmRental,
+  checkOutRental,
+  extendRental,
+  returnRental,
+  cancelRental,
+  markRentalOverdue,
+} = require('../services/rentalLifecycle')
+const { issueInvoice } = require('../services/documents')
+const { previewAgreement, signAgreement } = require('../services/agreements')
+const { recordAudit } = require('../services/audit')
+const { postRentalCharges } = require('../services/ledger')
+const { readFile } = require('../services/storage')
+const { assertNotDueForService } = require('../services/maintenancePlans')
+const { getInspectionComparison } = require('../services/inspections')
+const { renderInvoicePdf } = require('../services/pdf')
+const {
+  rentalInclude,
+  agreementSelect,
+  filterFinancialData,
+  filterPreviewFinancialData,
+  parseOrderInput,
+} = require('../utils/rentals')
+const { invoiceRentalInclude, sendPdf } = require('../utils/documents')
 
 const router = express.Router()
 const prisma = new PrismaClient()
 
-// Helper function to remove financial data for staff
-const filterFinancialData = (rental) => {
-  const { dailyRate, numberOfDays, subtotal, deposit, discount, 
-          totalAmount, amountPaid, amountDue, paymentStatus, payments, ...rest } = rental
-  return rest
-}
-
 // Get all rentals
 router.get('/', authenticate, requireStaff, async (req, res) => {
   try {
@@ -21,15 +42,15 @@ router.get('/', authenticate, requireStaff, async (req, res) => {
     const take = parseInt(limit)
 
     const where = {}
-    
+
     if (status && status !== 'ALL') {
       where.status = status
     }
-    
+
     if (search) {
       where.OR = [
         { customer: { name: { contains: search, mode: 'insensitive' } } },
-        { item: { name: { contains: search, mode: 'insensitive' } } },
+        { items: { some: { item: { name: { contains: search, mode: 'insensitive' } } } } },
       ]
     }
 
@@ -38,13 +59,7 @@ router.get('/', authenticate, requireStaff, async (req, res) => {
         where,
         skip,
         take,
-        include: {
-          customer: true,
-          item: true,
-          user: {
-            select: { id: true, name: true, email: true },
-          },
-        },
+        include: rentalInclude,
         orderBy: { createdAt: 'desc' },
       }),
       prisma.rental.count({ where }),
@@ -76,12 +91,13 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
     const rental = await prisma.rental.findUnique({
       where: { id },
       include: {
-        customer: true,
-        item: true,
-        user: {
-          select: { id: true, name: true, email: true },
-        },
+        ...rentalInclude,
+        adjustments: req.user.role === 'ADMIN',
         payments: req.user.role === 'ADMIN',
+        deposits: req.user.role === 'ADMIN',
+        extensions: req.user.role === 'ADMIN' && { orderBy: { createdAt: 'asc' } },
+        invoice: req.user.role === 'ADMIN',
+        agreement: { select: agreementSelect },
       },
     })
 
@@ -95,102 +111,146 @@ router.get('/:id', authenticate, requireStaff, async (req, res) => {
       response = filterFinancialData(rental)
     }
 
-    res.json(response)
+    res.json({ ...response, allowedActions: getAllowedActions(rental.status) })
   } catch (error) {
     console.error('Get rental error:', error)
     res.status(500).json({ error: 'Failed to fetch rental' })
   }
 })
 
-// Create rental
-router.post('/', authenticate, requireStaff, async (req, res) => {
+// Download the rental's invoice as a PDF (ADMIN ONLY). The invoice number is
+// assigned on the first download and kept; the figures are always current.
+router.get('/:id/invoice', authenticate, requireAdmin, async (req, res) => {
   try {
-    const { customerId, itemId, startDate, endDate, deposit = 0, discount = 0, notes } = req.body
+    const { id } = req.params
 
-    // Validate required fields
-    if (!customerId || !itemId || !startDate || !endDate) {
-      return res.status(400).json({ 
-        error: 'Customer, item, start date, and end date are required' 
-      })
-    }
+    const invoice = await prisma.$transaction((tx) => issueInvoice(tx, id))
+
+    const rental = await prisma.rental.findUnique({
+      where: { id },
+      include: invoiceRentalInclude,
+    })
+
+    const pdf = await renderInvoicePdf({ invoice, rental })
+
+    sendPdf(res, `${invoice.number}.pdf`, pdf)
+  } catch (error) {
+    console.error('Get invoice error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to generate invoice' })
+  }
+})
 
-    // Validate dates
-    const start = new Date(startDate)
-    const end = new Date(endDate)
-    
-    if (end <= start) {
-      return res.status(400).json({ error: 'End date must be after start date' })
+// Preview an order without booking it. Staff get the preview without prices.
+router.post('/quote', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { customerId, items = [], discount = 0 } = req.body
+
+    const { error, start, end } = parseOrderInput(req.body)
+    if (error) {
+      return res.status(400).json({ error })
     }
 
-    // Get item and validate availability
-    const item = await prisma.item.findUnique({
-      where: { id: itemId },
+    const { context, numberOfDays, lines, totals } = await priceRental(prisma, {
+      customerId,
+      items,
+      start,
+      end,
+      discount,
+      allowRateOverride: req.user.role === 'ADMIN',
     })
 
-    if (!item) {
-      return res.status(404).json({ error: 'Item not found' })
+    // Show whether each line could be booked right now
+    const quoteLines = await Promise.all(
+      lines.map(async (line) => {
+        const availability = await getItemAvailability(prisma, line.itemId, start, end)
+        return {
+          ...line,
+          itemName: availability.itemName,
+          availableUnits: availability.availableUnits,
+          available: availability.availableUnits >= line.quantity,
+        }
+      })
+    )
+
+    const preview = {
+      customerId,
+      customerGroup: context.customer.group,
+      startDate: start,
+      endDate: end,
+      numberOfDays,
+      lines: quoteLines,
+      discount: parseFloat(discount),
+      ...totals,
     }
 
-    if (item.status !== 'AVAILABLE' || item.quantity < 1) {
-      return res.status(400).json({ error: 'Item is not available for rental' })
-    }
+    res.json(req.user.role === 'STAFF' ? filterPreviewFinancialData(preview) : preview)
+  } catch (error) {
+    console.error('Quote rental error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to price rental' })
+  }
+})
 
-    // Validate customer exists
-    const customer = await prisma.customer.findUnique({
-      where: { id: customerId },
-    })
+// Create rental order
+router.post('/', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { customerId, items = [], deposit = 0, discount = 0, notes } = req.body
 
-    if (!customer) {
-      return res.status(404).json({ error: 'Customer not found' })
+    const { error, itemIds, start, end } = parseOrderInput(req.body)
+    if (error) {
+      return res.status(400).json({ error })
     }
 
-    // Calculate rental financials
-    const numberOfDays = Math.ceil((end - start) / (1000 * 60 * 60 * 24))
-    const subtotal = item.dailyRate * numberOfDays
-    const totalAmount = subtotal + parseFloat(deposit) - parseFloat(discount)
-    const amountDue = totalAmount
+    // Price lines through the pricing engine. Only admins may override a line's rate.
+    const { numberOfDays, lines, totals } = await priceRental(prisma, {
+      customerId,
+      items,
+      start,
+      end,
+      discount,
+      allowRateOverride: req.user.role === 'ADMIN',
+    })
 
     // Create rental in a transaction
     const rental = await prisma.$transaction(async (tx) => {
-      // Create rental
-      const newRental = await tx.rental.create({
+      // Check free units for the requested dates while holding the item locks
+      await lockItems(tx, itemIds)
+      await assertNotDueForService(tx, itemIds)
+      for (const line of lines) {
+        await assertItemAvailable(tx, line.itemId, start, end, line.quantity)
+      }
+
+      // Create rental with its line items
+      const created = await tx.rental.create({
         data: {
           customerId,
-          itemId,
           userId: req.user.id,
           startDate: start,
           endDate: end,
           status: 'PENDING',
           notes,
-          dailyRate: item.dailyRate,
           numberOfDays,
-          subtotal,
           deposit: parseFloat(deposit),
           discount: parseFloat(discount),
-          totalAmount,
           amountPaid: 0,
-          amountDue,
-          paymentStatus: 'UNPAID',
-        },
-        include: {
-          customer: true,
-          item: true,
-          user: {
-            select: { id: true, name: true, email: true },
+          ...totals,
+          items: {
+            create: lines,
           },
         },
+        include: rentalInclude,
       })
 
-      // Update item status and quantity
-      await tx.item.update({
-        where: { id: itemId },
-        data: {
-          status: 'RENTED',
-          quantity: { decrement: 1 },
-        },
+      await postRentalCharges(tx, created.id)
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'CREATE',
+        entity: 'Rental',
+        entityId: created.id,
+        after: created,
       })
 
-      return newRental
+      return created
     })
 
     // Filter financial data for staff users
@@ -202,7 +262,7 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
     res.status(201).json(response)
   } catch (error) {
     console.error('Create rental error:', error)
-    res.status(500).json({ error: 'Failed to create rental' })
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to create rental' })
   }
 })
 
@@ -210,11 +270,17 @@ router.post('/', authenticate, requireStaff, async (req, res) => {
 router.put('/:id', authenticate, requireStaff, async (req, res) => {
   try {
     const { id } = req.params
-    const { startDate, endDate, status, notes } = req.body
+    const { startDate, endDate, notes } = req.body
+
+    if (req.body.status !== undefined) {
+      return res.status(400).json({
+        error: 'Status cannot be set directly; use the confirm, checkout, extend, return, cancel or mark-overdue actions'
+      })
+    }
 
     const existingRental = await prisma.rental.findUnique({
       where: { id },
-      include: { item: true },
+      include: { items: true },
     })
 
     if (!existingRental) {
@@ -223,44 +289,98 @@ router.put('/:id', authenticate, requireStaff, async (req, res) => {
 
     // Recalculate if dates changed
     let updates = {}
-    
+
     if (startDate || endDate) {
+      // Once the items are out, only an extension can move the dates
+      if (!['PENDING', 'CONFIRMED'].includes(existingRental.status)) {
+        return res.status(409).json({ error: 'Dates can only be changed before check-out; use extend instead' })
+      }
+
+      // Extensions are priced on top of the booked dates, so those stay fixed
+      const extensions = await prisma.rentalExtension.count({ where: { rentalId: id } })
+      if (extensions > 0) {
+        return res.status(409).json({ error: 'An extended rental can only be changed by another extension' })
+      }
+
       const start = startDate ? new Date(startDate) : existingRental.startDate
       const end = endDate ? new Date(endDate) : existingRental.endDate
-      
+
       if (end <= start) {
         return res.status(400).json({ error: 'End date must be after start date' })
       }
 
-      const numberOfDays = Math.ceil((end - start) / (1000 * 60 * 60 * 24))
-      const subtotal = existingRental.dailyRate * numberOfDays
-      const totalAmount = subtotal + existingRental.deposit - existingRental.discount
-      const amountDue = totalAmount - existingRental.amountPaid
-
       updates = {
         startDate: start,
         endDate: end,
-        numberOfDays,
-        subtotal,
-        totalAmount,
-        amountDue,
+        numberOfDays: calculateNumberOfDays(start, end),
       }
     }
 
-    const rental = await prisma.rental.update({
-      where: { id },
-      data: {
-        ...updates,
-        ...(status && { status }),
-        ...(notes !== undefined && { notes }),
-      },
-      include: {
-        customer: true,
-        item: true,
-        user: {
-          select: { id: true, name: true, email: true },
+    const rental = await prisma.$transaction(async (tx) => {
+      // New dates must not collide with other bookings of the same items
+      if (updates.startDate) {
+        await lockItems(tx, existingRental.items.map((line) => line.itemId))
+        for (const line of existingRental.items) {
+          const units = line.quantity - line.returnedQuantity
+          if (units === 0) continue
+
+          await assertItemAvailable(tx, line.itemId, updates.startDate, updates.endDate, units, {
+            excludeRentalId: id,
+          })
+        }
+
+        // Re-price every line for the new dates, keeping manual discounts and rate overrides
+        const { lines } = await priceRental(tx, {
+          customerId: existingRental.customerId,
+          items: existingRental.items.map((line) => ({
+            itemId: line.itemId,
+            quantity: line.quantity,
+            discount: line.pricing ? line.pricing.manualDiscount : line.discount,
+            dailyRate: line.pricing?.rateOverride ? line.dailyRate : undefined,
+          })),
+          start: updates.startDate,
+          end: updates.endDate,
+          allowRateOverride: true,
+        })
+
+        for (const line of existingRental.items) {
+          const priced = lines.find((entry) => entry.itemId === line.itemId)
+          await tx.rentalItem.update({
+            where: { id: line.id },
+            data: {
+              dailyRate: priced.dailyRate,
+              discount: priced.discount,
+              subtotal: priced.subtotal,
+              pricing: priced.pricing,
+            },
+          })
+        }
+      }
+
+      await tx.rental.update({
+        where: { id },
+        data: {
+          ...updates,
+          ...(notes !== undefined && { notes }),
         },
-      },
+      })
+
+      if (updates.startDate) {
+        await recalculateRental(tx, id)
+      }
+
+      const updated = await tx.rental.findUnique({ where: { id }, include: rentalInclude })
+
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'UPDATE',
+        entity: 'Rental',
+        entityId: id,
+        before: existingRental,
+        after: updated,
+      })
+
+      return updated
     })
 
     // Filter financial data for staff users
@@ -272,72 +392,226 @@ router.put('/:id', authenticate, requireStaff, async (req, res) => {
     res.json(response)
   } catch (error) {
     console.error('Update rental error:', error)
-    
+
     if (error.code === 'P2025') {
       return res.status(404).json({ error: 'Rental not found' })
     }
-    
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message })
+    }
+
     res.status(500).json({ error: 'Failed to update rental' })
   }
 })
 
-// Return item
-router.put('/:id/return', authenticate, requireStaff, async (req, res) => {
+// Preview the rental agreement as an unsigned PDF
+router.get('/:id/agreement/preview', authenticate, requireStaff, async (req, res) => {
   try {
     const { id } = req.params
 
-    const rental = await prisma.$transaction(async (tx) => {
-      const existingRental = await tx.rental.findUnique({
-        where: { id },
-        include: { item: true },
-      })
+    const pdf = await previewAgreement(prisma, id)
 
-      if (!existingRental) {
-        throw new Error('Rental not found')
-      }
+    sendPdf(res, `agreement-${id.slice(0, 8)}-preview.pdf`, pdf)
+  } catch (error) {
+    console.error('Preview agreement error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to render agreement' })
+  }
+})
 
-      if (existingRental.status === 'COMPLETED') {
-        throw new Error('Rental already completed')
-      }
+// Sign the rental agreement with a signature captured on screen
+router.post('/:id/agreement', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { signerName, signature } = req.body
 
-      // Update rental
-      const updatedRental = await tx.rental.update({
-        where: { id },
-        data: {
-          returnDate: new Date(),
-          status: 'COMPLETED',
-        },
-        include: {
-          customer: true,
-          item: true,
-          user: {
-            select: { id: true, name: true, email: true },
-          },
-        },
-      })
+    await prisma.$transaction(async (tx) => {
+      const signed = await signAgreement(tx, id, { signerName, signature, user: req.user })
 
-      // Update item
-      await tx.item.update({
-        where: { id: existingRental.itemId },
-        data: {
-          status: 'AVAILABLE',
-          quantity: { increment: 1 },
-        },
+      await recordAudit(tx, {
+        user: req.user,
+        action: 'SIGN_AGREEMENT',
+        entity: 'Rental',
+        entityId: id,
+        metadata: { agreementId: signed.id, signerName },
       })
+    })
 
-      return updatedRental
+    const agreement = await prisma.rentalAgreement.findUnique({
+      where: { rentalId: id },
+      select: agreementSelect,
     })
 
-    // Filter financial data for staff users
-    let response = rental
-    if (req.user.role === 'STAFF') {
-      response = filterFinancialData(rental)
+    res.status(201).json(agreement)
+  } catch (error) {
+    console.error('Sign agreement error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to sign agreement' })
+  }
+})
+
+// Download the signed agreement PDF
+router.get('/:id/agreement', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    const agreement = await prisma.rentalAgreement.findUnique({ where: { rentalId: id } })
+    if (!agreement) {
+      return res.status(404).json({ error: 'The rental agreement has not been signed' })
     }
 
-    res.json(response)
+    const pdf = await readFile(agreement.filePath)
+
+    sendPdf(res, `agreement-${id.slice(0, 8)}.pdf`, pdf)
+  } catch (error) {
+    console.error('Get agreement error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to fetch agreement' })
+  }
+})
+
+// Check-out and return inspections side by side, with what got worse
+router.get('/:id/inspections', authenticate, requireStaff, async (req, res) => {
+  try {
+    const comparison = await getInspectionComparison(prisma, req.params.id)
+
+    res.json(comparison)
+  } catch (error) {
+    console.error('Get inspections error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to fetch inspections' })
+  }
+})
+
+// Run a lifecycle action in a transaction, auditing the rental as it was
+// before and after
+const runRentalAction = (req, id, action, run, metadata) =>
+  prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Rental" WHERE "id" = ${id} FOR UPDATE`
+    const before = await tx.rental.findUnique({ where: { id } })
+
+    await run(tx)
+
+    const after = await tx.rental.findUnique({ where: { id } })
+    await recordAudit(tx, { user: req.user, action, entity: 'Rental', entityId: id, before, after, metadata })
+  })
+
+// Reload a rental after a lifecycle action and send it, filtered for staff
+const sendRental = async (req, res, id) => {
+  const rental = await prisma.rental.findUnique({
+    where: { id },
+    include: {
+      ...rentalInclude,
+      adjustments: req.user.role === 'ADMIN',
+    },
+  })
+
+  res.json(req.user.role === 'STAFF' ? filterFinancialData(rental) : rental)
+}
+
+// Confirm a pending rental
+router.post('/:id/confirm', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await runRentalAction(req, id, 'CONFIRM', (tx) => confirmRental(tx, id))
+
+    await sendRental(req, res, id)
+  } catch (error) {
+    console.error('Confirm rental error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to confirm rental' })
+  }
+})
+
+// Check out a rental, recording the exact units that leave for serialized items
+router.post('/:id/checkout', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { items = [], inspections = [] } = req.body
+
+    await runRentalAction(
+      req,
+      id,
+      'CHECKOUT',
+      (tx) => checkOutRental(tx, id, { items, inspections, userId: req.user.id }),
+      { items, inspections }
+    )
+
+    await sendRental(req, res, id)
+  } catch (error) {
+    console.error('Check out rental error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to check out rental' })
+  }
+})
+
+// Extend a rental's end date
+router.post('/:id/extend', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { endDate } = req.body
+
+    if (!endDate) {
+      return res.status(400).json({ error: 'New end date is required' })
+    }
+
+    await runRentalAction(req, id, 'EXTEND', (tx) => extendRental(tx, id, { endDate, userId: req.user.id }))
+
+    await sendRental(req, res, id)
+  } catch (error) {
+    console.error('Extend rental error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to extend rental' })
+  }
+})
+
+// Return items (all outstanding units, or a partial return per line),
+// charging late fees and any damage found at the counter
+router.post('/:id/return', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { items, damages = [], inspections = [] } = req.body
+
+    await runRentalAction(
+      req,
+      id,
+      'RETURN',
+      (tx) => returnRental(tx, id, { items, damages, inspections, userId: req.user.id }),
+      { items, damages, inspections }
+    )
+
+    await sendRental(req, res, id)
   } catch (error) {
     console.error('Return item error:', error)
-    res.status(500).json({ error: error.message || 'Failed to return item' })
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to return item' })
+  }
+})
+
+// Cancel a rental that has not been checked out, charging any cancellation
+// fee and refunding the rest of what was paid
+router.post('/:id/cancel', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { reason, refundMethod } = req.body
+
+    if (!reason) {
+      return res.status(400).json({ error: 'Cancellation reason is required' })
+    }
+
+    await runRentalAction(req, id, 'CANCEL', (tx) => cancelRental(tx, id, { reason, refundMethod }), { reason })
+
+    await sendRental(req, res, id)
+  } catch (error) {
+    console.error('Cancel rental error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to cancel rental' })
+  }
+})
+
+// Mark an active rental past its end date as overdue (the mark-overdue job does this on a schedule)
+router.post('/:id/mark-overdue', authenticate, requireStaff, async (req, res) => {
+  try {
+    const { id } = req.params
+
+    await runRentalAction(req, id, 'MARK_OVERDUE', (tx) => markRentalOverdue(tx, id))
+
+    await sendRental(req, res, id)
+  } catch (error) {
+    console.error('Mark rental overdue error:', error)
+    res.status(error.status || 500).json({ error: error.status ? error.message : 'Failed to mark rental overdue' })
   }
 })
 
@@ -346,10 +620,7 @@ router.get('/status/active', authenticate, requireStaff, async (req, res) => {
   try {
     const rentals = await prisma.rental.findMany({
       where: { status: 'ACTIVE' },
-      include: {
-        customer: true,
-        item: true,
-      },
+      include: rentalInclude,
       orderBy: { endDate: 'asc' },
     })
 
@@ -369,25 +640,10 @@ router.get('/status/active', authenticate, requireStaff, async (req, res) => {
 // Get overdue rentals
 router.get('/status/overdue', authenticate, requireStaff, async (req, res) => {
   try {
-    const today = new Date()
-    
-    // Update overdue rentals
-    await prisma.rental.updateMany({
-      where: {
-        status: 'ACTIVE',
-        endDate: { lt: today },
-      },
-      data: {
-        status: 'OVERDUE',
-      },
-    })
-
+    // Rentals are moved to OVERDUE by the scheduled mark-overdue job
     const rentals = await prisma.rental.findMany({
       where: { status: 'OVERDUE' },
-      include: {
-        customer: true,
-        item: true,
-      },
+      include: rentalInclude,
       orderBy: { endDate: 'asc' },
     })
 
@@ -8,8 +8,21 @@ const categoryRoutes = require('./routes/categories')
 const customerRoutes = require('./routes/customers')
 const rentalRoutes = require('./routes/rentals')
 const maintenanceRoutes = require('./routes/maintenance')
+const maintenancePlanRoutes = require('./routes/maintenancePlans')
+const inspectionRoutes = require('./routes/inspections')
+const labelRoutes = require('./routes/labels')
 const financeRoutes = require('./routes/finances')
 const dashboardRoutes = require('./routes/dashboard')
+const jobRoutes = require('./routes/jobs')
+const feeRoutes = require('./routes/fees')
+const pricingRoutes = require('./routes/pricing')
+const quoteRoutes = require('./routes/quotes')
+const agreementRoutes = require('./routes/agreements')
+const auditRoutes = require('./routes/audit')
+const ledgerRoutes = require('./routes/ledger')
+const assetRoutes = require('./routes/assets')
+const config = require('./config')
+const { scheduler } = require('./jobs')
 
 const app = express()
 
@@ -17,8 +30,9 @@ const app = express()
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
+  exposedHeaders: ['Content-Disposition'], // Lets the frontend name PDF downloads
 }))
-app.use(express.json())
+app.use(express.json({ limit: '1mb' })) // Room for signatures captured as PNG data URLs
 app.use(express.urlencoded({ extended: true }))
 
 // Request logging
@@ -34,8 +48,19 @@ app.use('/api/categories', categoryRoutes)
 app.use('/api/customers', customerRoutes)
 app.use('/api/rentals', rentalRoutes)
 app.use('/api/maintenance', maintenanceRoutes)
+app.use('/api/maintenance-plans', maintenancePlanRoutes)
+app.use('/api/inspections', inspectionRoutes)
+app.use('/api/labels', labelRoutes)
 app.use('/api/finances', financeRoutes)
 app.use('/api/dashboard', dashboardRoutes)
+app.use('/api/jobs', jobRoutes)
+app.use('/api/fees', feeRoutes)
+app.use('/api/pricing', pricingRoutes)
+app.use('/api/quotes', quoteRoutes)
+app.use('/api/agreements', agreementRoutes)
+app.use('/api/audit', auditRoutes)
+app.use('/api/ledger', ledgerRoutes)
+app.use('/api/assets', assetRoutes)
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -76,6 +101,11 @@ app.listen(PORT, () => {
 📍 API: http://localhost:${PORT}/api
 🏥 Health: http://localhost:${PORT}/api/health
   `)
+
+  // Background jobs (overdue detection, late fees, reminders)
+  if (config.scheduler.enabled) {
+    scheduler.start()
+  }
 })
 
 module.exports = app
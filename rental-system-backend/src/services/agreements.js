@@ -0,0 +1,147 @@
+const config = require('../config')
+const { createError } = require('../utils/errors')
+const { renderAgreementPdf } = require('./pdf')
+const { saveFile } = require('./storage')
+
+// Used until an admin sets up an agreement template
+const DEFAULT_TERMS = [
+  'This agreement is between {{business.name}} (the "Company") and {{customer.name}} (the "Customer").',
+  'The Customer rents the items listed above from {{rental.startDate}} to {{rental.endDate}} ' +
+    '({{rental.numberOfDays}} day(s)) and will return them in the same condition, allowing for fair wear.',
+  'A refundable security deposit of {{rental.deposit}} is held against loss of or damage to the items. ' +
+    'Repair or replacement costs may be deducted from the deposit or charged to the Customer.',
+  'Items returned after the end date are charged late fees until they are back. ' +
+    'Extensions must be agreed with the Company before the end date.',
+  'The Customer is responsible for the items from check-out until they are returned and ' +
+    'will not sublet or lend them to anyone else.',
+].join('\n\n')
+
+// Statuses in which a rental's agreement can still be signed
+const SIGNABLE_STATUSES = ['PENDING', 'CONFIRMED', 'ACTIVE', 'OVERDUE']
+
+const SIGNATURE_PREFIX = 'data:image/png;base64,'
+
+const formatDate = (date) => date.toISOString().slice(0, 10)
+
+// The most recently edited active template, or null to use DEFAULT_TERMS
+const loadAgreementTemplate = (db) =>
+  db.agreementTemplate.findFirst({
+    where: { active: true },
+    orderBy: { updatedAt: 'desc' },
+  })
+
+// Placeholder values available to templates, e.g. {{customer.name}}
+const buildAgreementValues = (rental) => ({
+  'business.name': config.business.name,
+  'business.address': config.business.address,
+  'business.phone': config.business.phone,
+  'business.email': config.business.email,
+  'customer.name': rental.customer.name,
+  'customer.email': rental.customer.email,
+  'customer.phone': rental.customer.phone,
+  'customer.address': rental.customer.address || '',
+  'customer.idNumber': rental.customer.idNumber || '',
+  'rental.reference': rental.id.slice(0, 8).toUpperCase(),
+  'rental.startDate': formatDate(rental.startDate),
+  'rental.endDate': formatDate(rental.endDate),
+  'rental.numberOfDays': String(rental.numberOfDays),
+  'rental.deposit': `$${rental.deposit.toFixed(2)}`,
+  items: rental.items.map((line) => `${line.quantity} × ${line.item.name}`).join(', '),
+})
+
+// Replace {{key}} placeholders; unknown keys are left as written so typos show up
+const fillTemplate = (body, values) =>
+  body.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key) => (key in values ? values[key] : match))
+
+// Agreement wording for a rental. `rental` needs customer and items.item loaded.
+const renderAgreementTerms = async (db, rental) => {
+  const template = await loadAgreementTemplate(db)
+
+  return {
+    template,
+    terms: fillTemplate(template ? template.body : DEFAULT_TERMS, buildAgreementValues(rental)),
+  }
+}
+
+const loadAgreementRental = async (db, rentalId) => {
+  const rental = await db.rental.findUnique({
+    where: { id: rentalId },
+    include: {
+      customer: true,
+      items: { include: { item: true }, orderBy: { createdAt: 'asc' } },
+    },
+  })
+
+  if (!rental) {
+    throw createError(404, 'Rental not found')
+  }
+
+  return rental
+}
+
+// Unsigned agreement PDF for the customer to read before signing
+const previewAgreement = async (db, rentalId) => {
+  const rental = await loadAgreementRental(db, rentalId)
+  const { terms } = await renderAgreementTerms(db, rental)
+
+  return renderAgreementPdf({ rental, terms })
+}
+
+// Record the customer's signature: render the signed PDF, store it and link it
+// to the rental. A rental has one agreement; signing twice is a 409.
+const signAgreement = async (tx, rentalId, { signerName, signature, user, now = new Date() }) => {
+  if (!signerName || !signature) {
+    throw createError(400, 'Signer name and signature are required')
+  }
+  if (!signature.startsWith(SIGNATURE_PREFIX)) {
+    throw createError(400, 'Signature must be a PNG data URL')
+  }
+
+  await tx.$queryRaw`SELECT "id" FROM "Rental" WHERE "id" = ${rentalId} FOR UPDATE`
+  const rental = await loadAgreementRental(tx, rentalId)
+
+  if (!SIGNABLE_STATUSES.includes(rental.status)) {
+    throw createError(409, `Cannot sign the agreement of a ${rental.status.toLowerCase()} rental`)
+  }
+
+  const existing = await tx.rentalAgreement.findUnique({ where: { rentalId } })
+  if (existing) {
+    throw createError(409, 'The rental agreement has already been signed')
+  }
+
+  const { template, terms } = await renderAgreementTerms(tx, rental)
+  const pdf = await renderAgreementPdf({
+    rental,
+    terms,
+    signature: {
+      name: signerName,
+      image: Buffer.from(signature.slice(SIGNATURE_PREFIX.length), 'base64'),
+      signedAt: now,
+      witness: user.name,
+    },
+  })
+
+  const filePath = await saveFile(`agreements/${rentalId}.pdf`, pdf)
+
+  return tx.rentalAgreement.create({
+    data: {
+      rentalId,
+      templateId: template?.id || null,
+      userId: user.id,
+      terms,
+      signerName,
+      signature,
+      filePath,
+      signedAt: now,
+    },
+  })
+}
+
+module.exports = {
+  DEFAULT_TERMS,
+  buildAgreementValues,
+  fillTemplate,
+  renderAgreementTerms,
+  previewAgreement,
+  signAgreement,
+}
@@ -0,0 +1,275 @@
+const { createError } = require('../utils/errors')
+const { BLOCKING_RENTAL_STATUSES, lockItems } = require('./availability')
+const { roundMoney } = require('./rentalFinancials')
+const { postExpense, postDisposal } = require('./ledger')
+
+const METHODS = ['STRAIGHT_LINE', 'DECLINING_BALANCE']
+
+// Whole months from `from` to `to`; depreciation is charged per full month
+const monthsBetween = (from, to) => {
+  const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth()
+  return Math.max(to.getUTCDate() < from.getUTCDate() ? months - 1 : months, 0)
+}
+
+// Accumulated depreciation and book value of a purchase as of `asOf` under
+// its category's policy. Without a policy the purchase keeps its cost.
+const depreciate = (purchase, policy, asOf) => {
+  const months = monthsBetween(purchase.purchaseDate, asOf)
+  const salvage = policy ? (purchase.cost * policy.salvagePercent) / 100 : purchase.cost
+
+  let bookValue = purchase.cost
+  if (policy?.method === 'STRAIGHT_LINE') {
+    const perMonth = (purchase.cost - salvage) / policy.usefulLifeMonths
+    bookValue = purchase.cost - perMonth * Math.min(months, policy.usefulLifeMonths)
+  } else if (policy?.method === 'DECLINING_BALANCE') {
+    bookValue = purchase.cost * Math.pow(1 - policy.annualRate / 100, months / 12)
+  }
+
+  bookValue = roundMoney(Math.max(bookValue, salvage))
+
+  return { accumulatedDepreciation: roundMoney(purchase.cost - bookValue), bookValue }
+}
+
+// Validate a depreciation policy; returns the data to save
+const parseDepreciationPolicy = ({ method, usefulLifeMonths, annualRate, salvagePercent = 0 }) => {
+  if (!METHODS.includes(method)) {
+    throw createError(400, `Method must be one of ${METHODS.join(', ')}`)
+  }
+
+  const salvage = parseFloat(salvagePercent)
+  if (isNaN(salvage) || salvage < 0 || salvage > 100) {
+    throw createError(400, 'Salvage percent must be between 0 and 100')
+  }
+
+  if (method === 'STRAIGHT_LINE') {
+    const months = parseInt(usefulLifeMonths)
+    if (!(months > 0)) {
+      throw createError(400, 'Straight-line depreciation needs a useful life in months')
+    }
+    return { method, usefulLifeMonths: months, annualRate: null, salvagePercent: salvage }
+  }
+
+  const rate = parseFloat(annualRate)
+  if (!(rate > 0 && rate <= 100)) {
+    throw createError(400, 'Declining balance depreciation needs an annual rate between 0 and 100')
+  }
+  return { method, usefulLifeMonths: null, annualRate: rate, salvagePercent: salvage }
+}
+
+const purchaseExpenseData = (purchase, item) => ({
+  description: `Purchase: ${purchase.quantity} × ${item.name} from ${purchase.supplier}`,
+  amount: purchase.cost,
+  category: 'PROCUREMENT',
+  expenseDate: purchase.purchaseDate,
+  itemId: item.id,
+})
+
+const parsePurchaseInput = (input, existing = {}) => {
+  const data = {
+    supplier: input.supplier ?? existing.supplier,
+    quantity: input.quantity !== undefined ? parseInt(input.quantity) : existing.quantity ?? 1,
+    cost: input.cost !== undefined ? parseFloat(input.cost) : existing.cost,
+    purchaseDate: input.purchaseDate ? new Date(input.purchaseDate) : existing.purchaseDate || new Date(),
+    warrantyUntil: input.warrantyUntil !== undefined
+      ? (input.warrantyUntil ? new Date(input.warrantyUntil) : null)
+      : existing.warrantyUntil ?? null,
+    invoiceNumber: input.invoiceNumber !== undefined ? input.invoiceNumber : existing.invoiceNumber,
+    notes: input.notes !== undefined ? input.notes : existing.notes,
+  }
+
+  if (!data.supplier) {
+    throw createError(400, 'Supplier is required')
+  }
+  if (!(data.cost >= 0)) {
+    throw createError(400, 'Cost must be zero or more')
+  }
+  if (!(data.quantity > 0)) {
+    throw createError(400, 'Quantity must be at least 1')
+  }
+  if (isNaN(data.purchaseDate.getTime()) || (data.warrantyUntil && isNaN(data.warrantyUntil.getTime()))) {
+    throw createError(400, 'Invalid date')
+  }
+
+  return data
+}
+
+const loadItem = async (tx, itemId) => {
+  const item = itemId && (await tx.item.findUnique({ where: { id: itemId } }))
+  if (!item) {
+    throw createError(400, 'Item not found')
+  }
+  return item
+}
+
+// Record units bought for an item, booking the cost as a PROCUREMENT expense
+// linked to it. The item's quantity is managed separately.
+const createPurchase = async (tx, { itemId, userId, ...input }) => {
+  const item = await loadItem(tx, itemId)
+  const data = parsePurchaseInput(input)
+
+  const expense = await tx.expense.create({
+    data: purchaseExpenseData(data, item),
+  })
+  await postExpense(tx, expense)
+
+  return tx.purchase.create({
+    data: { ...data, itemId, expenseId: expense.id, userId },
+  })
+}
+
+// Update a purchase and its expense; the ledger posts any difference
+const updatePurchase = async (tx, id, input) => {
+  const existing = await tx.purchase.findUnique({ where: { id }, include: { item: true } })
+  if (!existing) {
+    throw createError(404, 'Purchase not found')
+  }
+
+  const data = parsePurchaseInput(input, existing)
+
+  const expense = await tx.expense.update({
+    where: { id: existing.expenseId },
+    data: purchaseExpenseData(data, existing.item),
+  })
+  await postExpense(tx, expense)
+
+  return tx.purchase.update({ where: { id }, data })
+}
+
+// Delete a purchase entered by mistake, with its expense and ledger postings
+const deletePurchase = async (tx, id) => {
+  const purchase = await tx.purchase.findUnique({ where: { id } })
+  if (!purchase) {
+    throw createError(404, 'Purchase not found')
+  }
+
+  await tx.purchase.delete({ where: { id } })
+  const expense = await tx.expense.delete({ where: { id: purchase.expenseId } })
+  await postExpense(tx, expense, { deleted: true })
+
+  return purchase
+}
+
+// Retire an item and record what it was sold or scrapped for. An item already
+// RETIRED (e.g. by staff) only gets its disposal recorded.
+const retireItem = async (tx, itemId, { value = 0, disposedAt, notes, userId, now = new Date() }) => {
+  await lockItems(tx, [itemId])
+  const item = await tx.item.findUnique({ where: { id: itemId }, include: { disposal: true } })
+
+  if (!item) {
+    throw createError(404, 'Item not found')
+  }
+  if (item.disposal) {
+    throw createError(409, `${item.name} was already disposed of`)
+  }
+
+  const proceeds = parseFloat(value)
+  if (isNaN(proceeds) || proceeds < 0) {
+    throw createError(400, 'Disposal value must be zero or more')
+  }
+
+  const date = disposedAt ? new Date(disposedAt) : now
+  if (isNaN(date.getTime())) {
+    throw createError(400, 'Invalid disposal date')
+  }
+
+  const openRentals = await tx.rentalItem.count({
+    where: { itemId, rental: { status: { in: BLOCKING_RENTAL_STATUSES } } },
+  })
+  if (openRentals > 0) {
+    throw createError(409, `Cannot retire ${item.name} while it is booked or rented out`)
+  }
+
+  await tx.item.update({ where: { id: itemId }, data: { status: 'RETIRED' } })
+
+  const disposal = await tx.assetDisposal.create({
+    data: { itemId, disposedAt: date, value: roundMoney(proceeds), notes, userId },
+  })
+  await postDisposal(tx, disposal, item)
+
+  return disposal
+}
+
+// Cost, depreciation and book value of every item with purchase records as
+// of `asOf`. A disposed item's book value is written off on disposal; the
+// gain or loss compares the proceeds with its book value at that date.
+const getAssetRegister = async (db, { asOf = new Date(), categoryId, includeDisposed = false } = {}) => {
+  const items = await db.item.findMany({
+    where: {
+      purchases: { some: { purchaseDate: { lte: asOf } } },
+      ...(categoryId && { categoryId }),
+      ...(!includeDisposed && { OR: [{ disposal: null }, { disposal: { disposedAt: { gt: asOf } } }] }),
+    },
+    include: {
+      category: { include: { depreciationPolicy: true } },
+      purchases: { where: { purchaseDate: { lte: asOf } }, orderBy: { purchaseDate: 'asc' } },
+      disposal: true,
+    },
+    orderBy: { name: 'asc' },
+  })
+
+  const rows = items.map((item) => {
+    const policy = item.category.depreciationPolicy
+    const disposal = item.disposal && item.disposal.disposedAt <= asOf ? item.disposal : null
+    const valuedAt = disposal ? disposal.disposedAt : asOf
+
+    const purchases = item.purchases.map((purchase) => ({
+      id: purchase.id,
+      supplier: purchase.supplier,
+      quantity: purchase.quantity,
+      cost: purchase.cost,
+      purchaseDate: purchase.purchaseDate,
+      warrantyUntil: purchase.warrantyUntil,
+      invoiceNumber: purchase.invoiceNumber,
+      ...depreciate(purchase, policy, valuedAt),
+    }))
+
+    const cost = roundMoney(purchases.reduce((sum, purchase) => sum + purchase.cost, 0))
+    const bookValueAtDisposal = roundMoney(purchases.reduce((sum, purchase) => sum + purchase.bookValue, 0))
+    const bookValue = disposal ? 0 : bookValueAtDisposal
+    const warrantyUntil = purchases
+      .map((purchase) => purchase.warrantyUntil)
+      .filter(Boolean)
+      .sort((a, b) => b - a)[0] || null
+
+    return {
+      item: { id: item.id, name: item.name, status: item.status, quantity: item.quantity },
+      category: { id: item.category.id, name: item.category.name },
+      policy,
+      acquiredAt: purchases[0].purchaseDate,
+      cost,
+      accumulatedDepreciation: roundMoney(cost - bookValueAtDisposal),
+      bookValue,
+      warrantyUntil,
+      underWarranty: Boolean(warrantyUntil && warrantyUntil >= asOf),
+      disposal: disposal && {
+        disposedAt: disposal.disposedAt,
+        value: disposal.value,
+        gainOrLoss: roundMoney(disposal.value - bookValueAtDisposal),
+        notes: disposal.notes,
+      },
+      purchases,
+    }
+  })
+
+  const total = (key) => roundMoney(rows.reduce((sum, row) => sum + row[key], 0))
+
+  return {
+    asOf,
+    totals: {
+      cost: total('cost'),
+      accumulatedDepreciation: total('accumulatedDepreciation'),
+      bookValue: total('bookValue'),
+    },
+    items: rows,
+  }
+}
+
+module.exports = {
+  depreciate,
+  parseDepreciationPolicy,
+  createPurchase,
+  updatePurchase,
+  deletePurchase,
+  retireItem,
+  getAssetRegister,
+}
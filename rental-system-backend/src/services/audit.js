@@ -0,0 +1,76 @@
+// Fields left out of audit diffs
+const IGNORED_FIELDS = ['createdAt', 'updatedAt']
+
+// Fields whose values never go into the log
+const REDACTED_FIELDS = ['password', 'signature']
+
+// Json columns, kept in diffs; any other object on a record is a relation
+const JSON_FIELDS = ['pricing', 'checks', 'result']
+
+// Scalar lists (e.g. String[]) hold no objects, unlike included relations
+const isScalarList = (value) =>
+  Array.isArray(value) && value.every((entry) => entry === null || typeof entry !== 'object')
+
+const isScalar = (field, value) =>
+  value === null ||
+  typeof value !== 'object' ||
+  value instanceof Date ||
+  isScalarList(value) ||
+  JSON_FIELDS.includes(field)
+
+// Scalar, scalar list and Json fields of a record, without relations and
+// ignored fields
+const snapshot = (record) => {
+  const fields = {}
+  if (!record) return fields
+
+  for (const [field, value] of Object.entries(record)) {
+    if (IGNORED_FIELDS.includes(field) || !isScalar(field, value)) continue
+
+    fields[field] = REDACTED_FIELDS.includes(field) ? '[redacted]' : value
+  }
+
+  return fields
+}
+
+const serialize = (value) => (value instanceof Date ? value.toISOString() : value ?? null)
+
+// Lists and Json values are compared by content
+const sameValue = (previous, next) => JSON.stringify(previous) === JSON.stringify(next)
+
+// Field-by-field changes between two versions of a record: { field: { from, to } }.
+// A missing side (create / delete) counts as null.
+const diffRecords = (before, after) => {
+  const from = snapshot(before)
+  const to = snapshot(after)
+  const changes = {}
+
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    const previous = serialize(from[field])
+    const next = serialize(to[field])
+    if (!sameValue(previous, next)) {
+      changes[field] = { from: previous, to: next }
+    }
+  }
+
+  return changes
+}
+
+// Append an entry to the audit log. Pass the record as it was before and/or
+// after the change; only the fields that differ are stored.
+const recordAudit = (db, { user, action, entity, entityId, before = null, after = null, metadata }) =>
+  db.auditLog.create({
+    data: {
+      userId: user?.id || null,
+      action,
+      entity,
+      entityId,
+      changes: diffRecords(before, after),
+      metadata,
+    },
+  })
+
+module.exports = {
+  diffRecords,
+  recordAudit,
+}
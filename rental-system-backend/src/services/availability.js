@@ -0,0 +1,238 @@
+const { createError } = require('../utils/errors')
+
+// Rental statuses that hold stock for their booked dates
+const BLOCKING_RENTAL_STATUSES = ['PENDING', 'CONFIRMED', 'ACTIVE', 'OVERDUE']
+
+// Quote statuses that tentatively hold stock (until the quote expires)
+const HOLDING_QUOTE_STATUSES = ['DRAFT', 'SENT', 'ACCEPTED']
+
+// Rental statuses whose units are out with the customer
+const OUT_RENTAL_STATUSES = ['ACTIVE', 'OVERDUE']
+
+// Maintenance statuses that keep a unit out of service
+const OPEN_MAINTENANCE_STATUSES = ['PENDING', 'IN_PROGRESS']
+
+// Parse and validate a [from, to) window from request input
+const parseWindow = (from, to) => {
+  const start = new Date(from)
+  const end = new Date(to)
+
+  if (!from || !to || isNaN(start) || isNaN(end)) {
+    throw createError(400, 'Valid from and to dates are required')
+  }
+
+  if (end <= start) {
+    throw createError(400, 'End date must be after start date')
+  }
+
+  return { start, end }
+}
+
+// Peak number of units held at any instant of the window.
+// Each booking is { start, end, units } where end === null means open-ended.
+const peakUsage = (bookings, from, to) => {
+  const events = []
+
+  for (const booking of bookings) {
+    const start = booking.start < from ? from : booking.start
+    const end = booking.end === null || booking.end > to ? to : booking.end
+    if (start >= end) continue
+
+    events.push([start.getTime(), booking.units])
+    events.push([end.getTime(), -booking.units])
+  }
+
+  // Releases sort before pickups at the same instant, so back-to-back
+  // bookings ([a, b) followed by [b, c)) don't count as overlapping
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+
+  let current = 0
+  let peak = 0
+  for (const [, delta] of events) {
+    current += delta
+    if (current > peak) peak = current
+  }
+
+  return peak
+}
+
+// Units on a rental line that have not come back yet
+const outstandingUnits = (line) => line.quantity - line.returnedQuantity
+
+// An overdue rental, or an active one past its end date that the overdue job
+// has not flagged yet, holds its units out until they are returned
+const isHeldPastEndDate = (rental, now) =>
+  rental.status === 'OVERDUE' || (rental.status === 'ACTIVE' && rental.endDate <= now)
+
+// Rental lines, quote holds and maintenance records that overlap the window
+const getBookings = async (
+  db,
+  itemId,
+  from,
+  to,
+  { excludeRentalId, excludeQuoteId, excludeMaintenanceId, now = new Date() } = {}
+) => {
+  const [lines, quoteLines, maintenances] = await Promise.all([
+    db.rentalItem.findMany({
+      where: {
+        itemId,
+        rental: {
+          status: { in: BLOCKING_RENTAL_STATUSES },
+          startDate: { lt: to },
+          // Units out on overdue and active rentals are held until they actually
+          // come back, even when the end date is already before the window
+          OR: [{ endDate: { gt: from } }, { status: { in: OUT_RENTAL_STATUSES } }],
+          ...(excludeRentalId && { id: { not: excludeRentalId } }),
+        },
+      },
+      select: {
+        quantity: true,
+        returnedQuantity: true,
+        rental: { select: { startDate: true, endDate: true, status: true } },
+      },
+    }),
+    db.quoteItem.findMany({
+      where: {
+        itemId,
+        quote: {
+          holdStock: true,
+          status: { in: HOLDING_QUOTE_STATUSES },
+          expiresAt: { gt: now },
+          startDate: { lt: to },
+          endDate: { gt: from },
+          ...(excludeQuoteId && { id: { not: excludeQuoteId } }),
+        },
+      },
+      select: {
+        quantity: true,
+        quote: { select: { startDate: true, endDate: true } },
+      },
+    }),
+    db.maintenance.findMany({
+      where: {
+        itemId,
+        status: { in: OPEN_MAINTENANCE_STATUSES },
+        startDate: { lt: to },
+        OR: [{ endDate: null }, { endDate: { gt: from } }],
+        ...(excludeMaintenanceId && { id: { not: excludeMaintenanceId } }),
+      },
+      select: { id: true, startDate: true, endDate: true },
+    }),
+  ])
+
+  return {
+    rentals: lines
+      .filter((line) => outstandingUnits(line) > 0)
+      .map((line) => ({
+        start: line.rental.startDate,
+        end: isHeldPastEndDate(line.rental, now) ? null : line.rental.endDate,
+        units: outstandingUnits(line),
+      })),
+    holds: quoteLines.map((line) => ({
+      start: line.quote.startDate,
+      end: line.quote.endDate,
+      units: line.quantity,
+    })),
+    maintenances: maintenances.map((maintenance) => ({
+      start: maintenance.startDate,
+      end: maintenance.endDate,
+      units: 1,
+    })),
+  }
+}
+
+// Compute free units of an item over [from, to)
+const getItemAvailability = async (db, itemId, from, to, options = {}) => {
+  const item = await db.item.findUnique({
+    where: { id: itemId },
+    select: { id: true, name: true, status: true, quantity: true },
+  })
+
+  if (!item) {
+    throw createError(404, 'Item not found')
+  }
+
+  const totalUnits = item.status === 'RETIRED' ? 0 : item.quantity
+  const { rentals, holds, maintenances } = await getBookings(db, itemId, from, to, options)
+
+  const bookedUnits = peakUsage(rentals, from, to)
+  const heldUnits = peakUsage(holds, from, to)
+  const maintenanceUnits = peakUsage(maintenances, from, to)
+  const unavailableUnits = peakUsage([...rentals, ...holds, ...maintenances], from, to)
+
+  return {
+    itemId: item.id,
+    itemName: item.name,
+    from,
+    to,
+    totalUnits,
+    bookedUnits,
+    heldUnits,
+    maintenanceUnits,
+    availableUnits: Math.max(0, totalUnits - unavailableUnits),
+  }
+}
+
+// Throw a 409 if fewer than `units` are free over [from, to)
+const assertItemAvailable = async (db, itemId, from, to, units = 1, options = {}) => {
+  const availability = await getItemAvailability(db, itemId, from, to, options)
+
+  if (availability.availableUnits < units) {
+    throw createError(
+      409,
+      `Only ${availability.availableUnits} unit(s) of ${availability.itemName} available between ` +
+        `${from.toISOString()} and ${to.toISOString()}`
+    )
+  }
+
+  return availability
+}
+
+// Serialize bookings for an item inside a transaction
+const lockItem = async (tx, itemId) => {
+  await tx.$queryRaw`SELECT "id" FROM "Item" WHERE "id" = ${itemId} FOR UPDATE`
+}
+
+// Lock several items in a stable order so concurrent orders can't deadlock
+const lockItems = async (tx, itemIds) => {
+  for (const itemId of [...new Set(itemIds)].sort()) {
+    await lockItem(tx, itemId)
+  }
+}
+
+// Derive RENTED / AVAILABLE from units currently out; MAINTENANCE and
+// RETIRED are managed explicitly and left untouched
+const syncItemStatus = async (db, itemId) => {
+  const item = await db.item.findUnique({
+    where: { id: itemId },
+    select: { status: true, quantity: true },
+  })
+
+  if (!item || item.status === 'MAINTENANCE' || item.status === 'RETIRED') {
+    return
+  }
+
+  const lines = await db.rentalItem.findMany({
+    where: { itemId, rental: { status: { in: ['ACTIVE', 'OVERDUE'] } } },
+    select: { quantity: true, returnedQuantity: true },
+  })
+  const unitsOut = lines.reduce((sum, line) => sum + outstandingUnits(line), 0)
+
+  const status = unitsOut > 0 && unitsOut >= item.quantity ? 'RENTED' : 'AVAILABLE'
+  if (status !== item.status) {
+    await db.item.update({ where: { id: itemId }, data: { status } })
+  }
+}
+
+module.exports = {
+  BLOCKING_RENTAL_STATUSES,
+  HOLDING_QUOTE_STATUSES,
+  OPEN_MAINTENANCE_STATUSES,
+  parseWindow,
+  peakUsage,
+  getItemAvailability,
+  assertItemAvailable,
+  lockItem,
+  lockItems,
+  syncItemStatus,
+}
@@ -0,0 +1,35 @@
+const { roundMoney } = require('./rentalFinancials')
+
+const MS_PER_HOUR = 1000 * 60 * 60
+
+const loadCancellationTiers = (db) =>
+  db.cancellationFeeTier.findMany({
+    where: { active: true },
+    orderBy: { withinHours: 'asc' },
+  })
+
+// Tightest tier whose window still covers the time left before the start;
+// no tier means a free cancellation
+const findTier = (tiers, hoursUntilStart) =>
+  [...tiers]
+    .sort((a, b) => a.withinHours - b.withinHours)
+    .find((tier) => hoursUntilStart < tier.withinHours) || null
+
+// Fee for cancelling a rental worth `totalAmount`, never more than the rental itself
+const calculateCancellationFee = (rental, tiers, asOf) => {
+  const hoursUntilStart = (rental.startDate - asOf) / MS_PER_HOUR
+  const tier = findTier(tiers, hoursUntilStart)
+
+  if (!tier) {
+    return { tier: null, amount: 0 }
+  }
+
+  const fee = tier.flatFee + (rental.totalAmount * tier.feePercent) / 100
+  return { tier, amount: roundMoney(Math.min(Math.max(fee, 0), rental.totalAmount)) }
+}
+
+module.exports = {
+  loadCancellationTiers,
+  findTier,
+  calculateCancellationFee,
+}
@@ -0,0 +1,157 @@
+const { createError } = require('../utils/errors')
+const { roundMoney, recalculateRental } = require('./rentalFinancials')
+const { postPayment, postDepositTransaction } = require('./ledger')
+
+// Deposit status from what was required, collected and released (applied or refunded).
+// PAID means the full deposit is held; REFUNDED means everything collected has been released.
+const getDepositStatus = ({ deposit, collected, released }) => {
+  const held = roundMoney(collected - released)
+
+  if (collected <= 0) return 'UNPAID'
+  if (held <= 0) return 'REFUNDED'
+  if (released > 0 || held < deposit) return 'PARTIAL'
+  return 'PAID'
+}
+
+// Recompute a rental's depositHeld and depositStatus from its deposit transactions
+const recalculateDeposit = async (tx, rentalId) => {
+  const rental = await tx.rental.findUnique({ where: { id: rentalId } })
+
+  const sums = await tx.depositTransaction.groupBy({
+    by: ['type'],
+    where: { rentalId },
+    _sum: { amount: true },
+  })
+
+  const sumOf = (type) => sums.find((entry) => entry.type === type)?._sum.amount || 0
+  const collected = sumOf('COLLECT')
+  const released = sumOf('APPLY') + sumOf('REFUND')
+
+  return tx.rental.update({
+    where: { id: rentalId },
+    data: {
+      depositHeld: roundMoney(collected - released),
+      depositStatus: getDepositStatus({ deposit: rental.deposit, collected, released }),
+    },
+  })
+}
+
+const findRental = async (tx, rentalId) => {
+  const rental = await tx.rental.findUnique({ where: { id: rentalId } })
+
+  if (!rental) {
+    throw createError(404, 'Rental not found')
+  }
+
+  return rental
+}
+
+const parseAmount = (amount) => {
+  const value = roundMoney(parseFloat(amount))
+
+  if (!(value > 0)) {
+    throw createError(400, 'Amount must be greater than zero')
+  }
+
+  return value
+}
+
+// Take the deposit (or part of it) from the customer
+const collectDeposit = async (tx, rentalId, { amount, paymentMethod, reference, notes }) => {
+  const rental = await findRental(tx, rentalId)
+
+  if (['COMPLETED', 'CANCELLED'].includes(rental.status)) {
+    throw createError(409, `Cannot collect a deposit on a ${rental.status.toLowerCase()} rental`)
+  }
+
+  if (!paymentMethod || paymentMethod === 'DEPOSIT') {
+    throw createError(400, 'A payment method is required')
+  }
+
+  const outstanding = roundMoney(rental.deposit - rental.depositHeld)
+  const value = amount === undefined ? outstanding : parseAmount(amount)
+
+  if (!(value > 0) || value > outstanding) {
+    throw createError(400, `Deposit collected cannot exceed the outstanding deposit (${outstanding})`)
+  }
+
+  const transaction = await tx.depositTransaction.create({
+    data: { rentalId, type: 'COLLECT', amount: value, paymentMethod, reference, notes },
+  })
+
+  await postDepositTransaction(tx, transaction)
+
+  await recalculateDeposit(tx, rentalId)
+
+  return transaction
+}
+
+// Settle charges on the rental (late fees, damage, unpaid rent) from the held deposit.
+// Recorded as a DEPOSIT payment, so it counts as revenue once applied.
+const applyDeposit = async (tx, rentalId, { amount, notes }) => {
+  const rental = await findRental(tx, rentalId)
+
+  const maximum = roundMoney(Math.min(rental.depositHeld, rental.amountDue))
+  const value = amount === undefined ? maximum : parseAmount(amount)
+
+  if (!(value > 0) || value > maximum) {
+    throw createError(400, `Amount applied cannot exceed the deposit held or the amount due (${maximum})`)
+  }
+
+  const payment = await tx.payment.create({
+    data: {
+      rentalId,
+      amount: value,
+      paymentMethod: 'DEPOSIT',
+      notes: notes || 'Applied from deposit',
+    },
+  })
+
+  await postPayment(tx, payment)
+
+  const transaction = await tx.depositTransaction.create({
+    data: { rentalId, type: 'APPLY', amount: value, paymentId: payment.id, notes },
+  })
+
+  await recalculateRental(tx, rentalId)
+  await recalculateDeposit(tx, rentalId)
+
+  return transaction
+}
+
+// Hand the remaining deposit (or part of it) back to the customer
+const refundDeposit = async (tx, rentalId, { amount, paymentMethod, reference, notes }) => {
+  const rental = await findRental(tx, rentalId)
+
+  if (['ACTIVE', 'OVERDUE'].includes(rental.status)) {
+    throw createError(409, 'Deposit cannot be refunded while items are still out')
+  }
+
+  if (!paymentMethod || paymentMethod === 'DEPOSIT') {
+    throw createError(400, 'A payment method is required')
+  }
+
+  const value = amount === undefined ? rental.depositHeld : parseAmount(amount)
+
+  if (!(value > 0) || value > rental.depositHeld) {
+    throw createError(400, `Refund cannot exceed the deposit held (${rental.depositHeld})`)
+  }
+
+  const transaction = await tx.depositTransaction.create({
+    data: { rentalId, type: 'REFUND', amount: value, paymentMethod, reference, notes },
+  })
+
+  await postDepositTransaction(tx, transaction)
+
+  await recalculateDeposit(tx, rentalId)
+
+  return transaction
+}
+
+module.exports = {
+  getDepositStatus,
+  recalculateDeposit,
+  collectDeposit,
+  applyDeposit,
+  refundDeposit,
+}
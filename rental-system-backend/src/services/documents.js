@@ -0,0 +1,64 @@
+const { createError } = require('../utils/errors')
+
+// Number series for printed documents
+const DOCUMENT_SERIES = {
+  INVOICE: 'INV',
+  RECEIPT: 'RCT',
+}
+
+// Take the next number of a series. The increment is a single row update, so
+// concurrent callers queue on the row and never receive the same value.
+const nextDocumentNumber = async (tx, series) => {
+  const { lastValue } = await tx.documentSequence.upsert({
+    where: { name: series },
+    create: { name: series, lastValue: 1 },
+    update: { lastValue: { increment: 1 } },
+  })
+
+  return `${DOCUMENT_SERIES[series]}-${String(lastValue).padStart(6, '0')}`
+}
+
+// The rental's invoice, numbered on first request
+const issueInvoice = async (tx, rentalId) => {
+  const locked = await tx.$queryRaw`SELECT "id" FROM "Rental" WHERE "id" = ${rentalId} FOR UPDATE`
+  if (locked.length === 0) {
+    throw createError(404, 'Rental not found')
+  }
+
+  const existing = await tx.invoice.findUnique({ where: { rentalId } })
+  if (existing) {
+    return existing
+  }
+
+  return tx.invoice.create({
+    data: {
+      rentalId,
+      number: await nextDocumentNumber(tx, 'INVOICE'),
+    },
+  })
+}
+
+// The payment, with a receipt number assigned on first request
+const issueReceipt = async (tx, paymentId) => {
+  const locked = await tx.$queryRaw`SELECT "id" FROM "Payment" WHERE "id" = ${paymentId} FOR UPDATE`
+  if (locked.length === 0) {
+    throw createError(404, 'Payment not found')
+  }
+
+  const payment = await tx.payment.findUnique({ where: { id: paymentId } })
+  if (payment.receiptNumber) {
+    return payment
+  }
+
+  return tx.payment.update({
+    where: { id: paymentId },
+    data: { receiptNumber: await nextDocumentNumber(tx, 'RECEIPT') },
+  })
+}
+
+module.exports = {
+  DOCUMENT_SERIES,
+  nextDocumentNumber,
+  issueInvoice,
+  issueReceipt,
+}
@@ -0,0 +1,64 @@
+const config = require('../config')
+const { roundMoney, calculateNumberOfDays } = require('./rentalFinancials')
+const { loadRentalPricingContext, priceLineDays } = require('./pricing')
+
+// Whole billed days a rental no longer uses when it comes back at `asOf`
+const calculateUnusedDays = (rental, asOf) => {
+  const usedDays = Math.max(calculateNumberOfDays(rental.startDate, asOf), 1)
+  return Math.max(rental.numberOfDays - usedDays, 0)
+}
+
+// Credit for `units` of a line returned early: what the unused days added to
+// the line's price when booked (per the pricing engine), so a weekly rate
+// returned after three days credits the week less three days, never less than
+// nothing. 0 unless the policy credits early returns.
+const calculateEarlyReturnCredit = (context, rental, line, units, asOf, policy = config.earlyReturns) => {
+  if (policy.policy !== 'CREDIT') {
+    return { unusedDays: 0, amount: 0 }
+  }
+
+  const unusedDays = calculateUnusedDays(rental, asOf)
+  if (unusedDays === 0) {
+    return { unusedDays, amount: 0 }
+  }
+
+  const unusedAmount = -priceLineDays(context, line, units, {
+    start: rental.startDate,
+    fromDays: rental.numberOfDays,
+    toDays: rental.numberOfDays - unusedDays,
+  })
+  const amount = roundMoney(Math.max(unusedAmount, 0) * policy.creditPercent / 100)
+
+  return { unusedDays, amount }
+}
+
+// Record an early-return credit (a negative adjustment) for units coming back on a line
+const creditEarlyReturn = async (tx, rental, line, units, asOf) => {
+  // Prices are only loaded when there is something to credit
+  if (config.earlyReturns.policy !== 'CREDIT' || calculateUnusedDays(rental, asOf) === 0) {
+    return null
+  }
+
+  const context = await loadRentalPricingContext(tx, rental)
+  const { unusedDays, amount } = calculateEarlyReturnCredit(context, rental, line, units, asOf)
+
+  if (amount <= 0) {
+    return null
+  }
+
+  return tx.rentalAdjustment.create({
+    data: {
+      rentalId: rental.id,
+      rentalItemId: line.id,
+      type: 'EARLY_RETURN_CREDIT',
+      description: `Early return: ${units} × ${line.item.name}, ${unusedDays} unused day(s)`,
+      amount: -amount,
+    },
+  })
+}
+
+module.exports = {
+  calculateUnusedDays,
+  calculateEarlyReturnCredit,
+  creditEarlyReturn,
+}
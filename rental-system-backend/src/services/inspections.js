@@ -0,0 +1,266 @@
+const { randomUUID } = require('crypto')
+const { createError } = require('../utils/errors')
+const { saveFile } = require('./storage')
+const { openMaintenance } = require('./maintenance')
+
+// Condition grades, best to worst
+const CONDITIONS = ['NEW', 'GOOD', 'FAIR', 'POOR', 'DAMAGED']
+
+// Grades that need servicing when an item comes back in them
+const SERVICE_CONDITIONS = ['POOR', 'DAMAGED']
+
+const PHOTO_EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+const inspectionInclude = {
+  unit: true,
+  user: { select: { id: true, name: true } },
+  photos: { select: { id: true, contentType: true, createdAt: true }, orderBy: { createdAt: 'asc' } },
+}
+
+const rank = (condition) => CONDITIONS.indexOf(condition)
+
+const inspectionKey = (rentalItemId, unitId) => `${rentalItemId}:${unitId || ''}`
+
+// Store an uploaded photo. It stays unattached until the inspection it was
+// taken for is saved with the check-out or return.
+const savePhoto = async (db, { data, contentType }) => {
+  const extension = PHOTO_EXTENSIONS[contentType]
+  if (!extension) {
+    throw createError(400, 'Photos must be JPEG, PNG or WebP images')
+  }
+  if (!Buffer.isBuffer(data) || data.length === 0) {
+    throw createError(400, 'Photo is empty')
+  }
+
+  const id = randomUUID()
+  const filePath = await saveFile(`inspections/${id}.${extension}`, data)
+
+  return db.inspectionPhoto.create({
+    data: { id, filePath, contentType },
+    select: { id: true, contentType: true, createdAt: true },
+  })
+}
+
+const assertCondition = (condition) => {
+  if (!CONDITIONS.includes(condition)) {
+    throw createError(400, `Condition must be one of ${CONDITIONS.join(', ')}`)
+  }
+}
+
+// Graded check points, e.g. [{ label: 'Blade', condition: 'GOOD', notes: null }]
+const parseChecks = (checks = []) => {
+  if (!Array.isArray(checks)) {
+    throw createError(400, 'Checks must be a list')
+  }
+
+  return checks.map((check) => {
+    if (!check.label) {
+      throw createError(400, 'Each check needs a label')
+    }
+    assertCondition(check.condition)
+    return { label: String(check.label), condition: check.condition, notes: check.notes || null }
+  })
+}
+
+// Record inspections taken at check-out or return. Each names a line of the
+// rental (and the unit, for serialized items) and may attach uploaded photos.
+// `rental` needs its items loaded.
+const recordInspections = async (tx, rental, stage, inspections = [], { userId }) => {
+  const created = []
+
+  for (const input of inspections) {
+    const line = rental.items.find((rentalItem) => rentalItem.id === input.rentalItemId)
+    if (!line) {
+      throw createError(400, 'Rental line not found')
+    }
+    assertCondition(input.condition)
+
+    if (input.unitId) {
+      const assigned = await tx.rentalItemUnit.count({
+        where: { rentalItemId: line.id, unitId: input.unitId },
+      })
+      if (assigned === 0) {
+        throw createError(400, 'Unit is not on this rental line')
+      }
+    }
+
+    const inspection = await tx.inspection.create({
+      data: {
+        rentalId: rental.id,
+        rentalItemId: line.id,
+        unitId: input.unitId || null,
+        stage,
+        condition: input.condition,
+        checks: parseChecks(input.checks),
+        notes: input.notes || null,
+        userId,
+      },
+    })
+
+    const photoIds = [...new Set(input.photoIds || [])]
+    if (photoIds.length > 0) {
+      const { count } = await tx.inspectionPhoto.updateMany({
+        where: { id: { in: photoIds }, inspectionId: null },
+        data: { inspectionId: inspection.id },
+      })
+      if (count !== photoIds.length) {
+        throw createError(400, 'Photo not found or already attached to an inspection')
+      }
+    }
+
+    created.push({ ...inspection, line })
+  }
+
+  return created
+}
+
+// What got worse between the check-out and return inspections. Without a
+// check-out inspection to compare with, only POOR or DAMAGED grades count.
+const compareInspections = (checkout, returned) => {
+  if (!checkout) {
+    return {
+      worsened: SERVICE_CONDITIONS.includes(returned.condition),
+      changes: returned.checks
+        .filter((check) => SERVICE_CONDITIONS.includes(check.condition))
+        .map((check) => ({ label: check.label, before: null, after: check.condition })),
+    }
+  }
+
+  const before = new Map(checkout.checks.map((check) => [check.label, check.condition]))
+  const changes = returned.checks
+    .filter((check) => before.has(check.label) && rank(check.condition) > rank(before.get(check.label)))
+    .map((check) => ({ label: check.label, before: before.get(check.label), after: check.condition }))
+
+  return {
+    worsened: rank(returned.condition) > rank(checkout.condition) || changes.length > 0,
+    changes,
+  }
+}
+
+// Come back worse, and bad enough to need servicing
+const needsService = (returned, comparison) =>
+  comparison.worsened &&
+  (SERVICE_CONDITIONS.includes(returned.condition) ||
+    comparison.changes.some((change) => SERVICE_CONDITIONS.includes(change.after)))
+
+const describeFindings = (returned, { changes }) => {
+  const findings = changes.map((change) => `${change.label} ${change.after.toLowerCase()}`)
+  return `Found at return inspection (${returned.condition.toLowerCase()})` +
+    (findings.length > 0 ? `: ${findings.join(', ')}` : '')
+}
+
+// The check-out inspection a return is compared with: the unit's own, or
+// failing that one taken of the whole line
+const findCheckoutInspection = async (tx, rentalItemId, unitId) => {
+  const find = (forUnit) =>
+    tx.inspection.findFirst({
+      where: { rentalItemId, stage: 'CHECKOUT', unitId: forUnit },
+      orderBy: { createdAt: 'desc' },
+    })
+
+  return (unitId && await find(unitId)) || find(null)
+}
+
+// Record the return inspections and open a maintenance ticket for anything
+// that came back worse than it left and needs servicing. `tickets` holds
+// tickets already opened for damages, keyed by inspectionKey, so a line or
+// unit gets at most one.
+const recordReturnInspections = async (tx, rental, inspections, { userId, tickets = new Map() }) => {
+  const created = await recordInspections(tx, rental, 'RETURN', inspections, { userId })
+
+  for (const inspection of created) {
+    const checkout = await findCheckoutInspection(tx, inspection.rentalItemId, inspection.unitId)
+    const comparison = compareInspections(checkout, inspection)
+    if (!needsService(inspection, comparison)) continue
+
+    const key = inspectionKey(inspection.rentalItemId, inspection.unitId)
+    let maintenance = tickets.get(key)
+    if (!maintenance) {
+      maintenance = await openMaintenance(tx, {
+        itemId: inspection.line.itemId,
+        unitId: inspection.unitId || undefined,
+        description: describeFindings(inspection, comparison),
+        notes: inspection.notes,
+      })
+      tickets.set(key, maintenance)
+    }
+
+    await tx.inspection.update({
+      where: { id: inspection.id },
+      data: { maintenanceId: maintenance.id },
+    })
+  }
+}
+
+// Before/after view of a rental's inspections: the checklist for each line,
+// and the latest check-out and return inspection of each line (or unit) with
+// what got worse in between
+const getInspectionComparison = async (db, rentalId) => {
+  const rental = await db.rental.findUnique({
+    where: { id: rentalId },
+    include: {
+      items: {
+        include: { item: { include: { category: { include: { checklist: true } } } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+
+  if (!rental) {
+    throw createError(404, 'Rental not found')
+  }
+
+  const inspections = await db.inspection.findMany({
+    where: { rentalId },
+    include: inspectionInclude,
+    orderBy: { createdAt: 'asc' },
+  })
+
+  // Later inspections replace earlier ones of the same stage
+  const entries = new Map()
+  for (const inspection of inspections) {
+    const key = inspectionKey(inspection.rentalItemId, inspection.unitId)
+    const entry = entries.get(key) || {
+      rentalItemId: inspection.rentalItemId,
+      unit: inspection.unit,
+      checkout: null,
+      return: null,
+    }
+    entry[inspection.stage === 'CHECKOUT' ? 'checkout' : 'return'] = inspection
+    entries.set(key, entry)
+  }
+
+  // Units without a check-out inspection of their own compare with the line's
+  for (const entry of entries.values()) {
+    if (entry.unit && !entry.checkout) {
+      entry.checkout = entries.get(inspectionKey(entry.rentalItemId, null))?.checkout || null
+    }
+  }
+
+  return {
+    lines: rental.items.map((line) => ({
+      rentalItemId: line.id,
+      item: { id: line.item.id, name: line.item.name, tracking: line.item.tracking },
+      checks: line.item.category.checklist?.checks || [],
+    })),
+    comparisons: [...entries.values()].map((entry) => ({
+      ...entry,
+      ...(entry.return ? compareInspections(entry.checkout, entry.return) : { worsened: false, changes: [] }),
+    })),
+  }
+}
+
+module.exports = {
+  CONDITIONS,
+  inspectionInclude,
+  savePhoto,
+  recordInspections,
+  recordReturnInspections,
+  compareInspections,
+  getInspectionComparison,
+  inspectionKey,
+}
@@ -0,0 +1,205 @@
+const bwipjs = require('bwip-js')
+const config = require('../config')
+const { createError } = require('../utils/errors')
+const { renderLabelSheetPdf } = require('./pdf')
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// Symbologies labels can be printed in
+const LABEL_FORMATS = ['qrcode', 'code128']
+
+const MAX_COPIES = 20
+
+const OUT_STATUSES = ['ACTIVE', 'OVERDUE']
+const UPCOMING_STATUSES = ['PENDING', 'CONFIRMED']
+const OPEN_MAINTENANCE_STATUSES = ['PENDING', 'IN_PROGRESS']
+
+// Rental fields a scan shows; no financial data, as staff scan too
+const scanRentalSelect = {
+  id: true,
+  status: true,
+  startDate: true,
+  endDate: true,
+  customer: { select: { id: true, name: true } },
+}
+
+// What a label encodes: a unit's serial number, otherwise the item's serial
+// number, falling back to its id
+const labelCode = (item, unit) => (unit ? unit.serialNumber : item.serialNumber || item.id)
+
+const toLabel = (item, unit) => ({
+  code: labelCode(item, unit),
+  title: item.name,
+  subtitle: unit ? unit.serialNumber : item.category?.name || null,
+})
+
+const parseFormat = (format = config.labels.format) => {
+  if (!LABEL_FORMATS.includes(format)) {
+    throw createError(400, `Format must be one of ${LABEL_FORMATS.join(', ')}`)
+  }
+  return format
+}
+
+// PNG of a code in the given symbology
+const renderCode = (code, format) =>
+  bwipjs.toBuffer({
+    bcid: format,
+    text: code,
+    scale: 3,
+    ...(format === 'code128' && { height: 12 }),
+  })
+
+const renderLabelImage = (code, format) => {
+  if (!code) {
+    throw createError(400, 'Code is required')
+  }
+  return renderCode(String(code), parseFormat(format))
+}
+
+// The labels for a batch: one per item, except serialized items, which get
+// one per unit still in service. `unitIds` adds labels for single units, e.g.
+// to replace a worn one.
+const buildLabels = async (db, { itemIds = [], unitIds = [], copies = 1 }) => {
+  if (!Array.isArray(itemIds) || !Array.isArray(unitIds)) {
+    throw createError(400, 'Items and units must be lists')
+  }
+  const count = parseInt(copies)
+  if (isNaN(count) || count < 1 || count > MAX_COPIES) {
+    throw createError(400, `Copies must be between 1 and ${MAX_COPIES}`)
+  }
+
+  const items = await db.item.findMany({
+    where: { id: { in: itemIds } },
+    include: {
+      category: true,
+      units: { where: { status: { not: 'RETIRED' } }, orderBy: { serialNumber: 'asc' } },
+    },
+    orderBy: { name: 'asc' },
+  })
+  if (items.length !== new Set(itemIds).size) {
+    throw createError(404, 'Item not found')
+  }
+
+  const units = await db.itemUnit.findMany({
+    where: { id: { in: unitIds } },
+    include: { item: { include: { category: true } } },
+    orderBy: { serialNumber: 'asc' },
+  })
+  if (units.length !== new Set(unitIds).size) {
+    throw createError(404, 'Unit not found')
+  }
+
+  const labels = [
+    ...items.flatMap((item) =>
+      item.tracking === 'SERIALIZED' && item.units.length > 0
+        ? item.units.map((unit) => toLabel(item, unit))
+        : [toLabel(item)]
+    ),
+    ...units.map((unit) => toLabel(unit.item, unit)),
+  ]
+  if (labels.length === 0) {
+    throw createError(400, 'Select items or units to label')
+  }
+
+  return labels.flatMap((label) => Array(count).fill(label))
+}
+
+// A sheet of labels, three across, ready to print on A4 label stock
+const renderLabelSheet = async (db, { itemIds, unitIds, copies, format }) => {
+  const symbology = parseFormat(format)
+  const labels = await buildLabels(db, { itemIds, unitIds, copies })
+
+  const images = new Map()
+  for (const { code } of labels) {
+    if (!images.has(code)) {
+      images.set(code, await renderCode(code, symbology))
+    }
+  }
+
+  return renderLabelSheetPdf({
+    labels: labels.map((label) => ({ ...label, image: images.get(label.code) })),
+    format: symbology,
+  })
+}
+
+// What a scan is most likely for. A unit that is out is coming back; a bulk
+// item is more likely being handed over when a booking starts by tomorrow.
+const suggestAction = ({ unit, out, upcoming, maintenance }, now) => {
+  const startsSoon = upcoming.some((rental) => rental.startDate <= new Date(now.getTime() + MS_PER_DAY))
+
+  if (unit && out.length > 0) return 'return'
+  if (!unit && startsSoon) return 'checkout'
+  if (out.length > 0) return 'return'
+  if (maintenance.length > 0) return 'maintenance'
+  if (upcoming.length > 0) return 'checkout'
+  return null
+}
+
+// Look up a scanned code (a unit serial number, or an item's serial number or
+// id) with the rentals and work orders staff might want to jump to
+const resolveScan = async (db, code, { now = new Date() } = {}) => {
+  const text = String(code || '').trim()
+  if (!text) {
+    throw createError(400, 'Code is required')
+  }
+
+  const unit = await db.itemUnit.findUnique({ where: { serialNumber: text } })
+  const item = await db.item.findFirst({
+    where: unit ? { id: unit.itemId } : { OR: [{ id: text }, { serialNumber: text }] },
+  })
+
+  if (!item) {
+    throw createError(404, 'No item or unit matches this code')
+  }
+
+  // Rentals the unit is out on, or that still have some of the item out
+  const outRentals = await db.rental.findMany({
+    where: {
+      status: { in: OUT_STATUSES },
+      items: {
+        some: unit ? { units: { some: { unitId: unit.id, returnedAt: null } } } : { itemId: item.id },
+      },
+    },
+    select: {
+      ...scanRentalSelect,
+      items: { where: { itemId: item.id }, select: { quantity: true, returnedQuantity: true } },
+    },
+    orderBy: { endDate: 'asc' },
+  })
+  const out = outRentals
+    .filter((rental) => rental.items.some((line) => line.returnedQuantity < line.quantity))
+    .map(({ items, ...rental }) => rental)
+
+  const upcoming = await db.rental.findMany({
+    where: { status: { in: UPCOMING_STATUSES }, items: { some: { itemId: item.id } } },
+    select: scanRentalSelect,
+    orderBy: { startDate: 'asc' },
+    take: 5,
+  })
+
+  const maintenance = await db.maintenance.findMany({
+    where: {
+      itemId: item.id,
+      status: { in: OPEN_MAINTENANCE_STATUSES },
+      ...(unit && { OR: [{ unitId: unit.id }, { unitId: null }] }),
+    },
+    select: { id: true, status: true, description: true, unitId: true, startDate: true, endDate: true },
+    orderBy: { startDate: 'asc' },
+  })
+
+  return {
+    code: text,
+    item: { id: item.id, name: item.name, status: item.status, tracking: item.tracking },
+    unit,
+    rentals: { out, upcoming },
+    maintenance,
+    action: suggestAction({ unit, out, upcoming, maintenance }, now),
+  }
+}
+
+module.exports = {
+  LABEL_FORMATS,
+  renderLabelImage,
+  renderLabelSheet,
+  resolveScan,
+}
@@ -0,0 +1,125 @@
+const config = require('../config')
+const { roundMoney, recalculateRental } = require('./rentalFinancials')
+
+const MS_PER_HOUR = 1000 * 60 * 60
+const MS_PER_DAY = MS_PER_HOUR * 24
+
+// Used when no active LateFeeRule matches
+const fallbackRule = () => ({
+  name: 'Default',
+  feePerDay: 0,
+  dailyRateMultiplier: config.lateFees.dailyRateMultiplier,
+  gracePeriodHours: 0,
+  maxFeePerUnit: null,
+})
+
+const loadLateFeeRules = (db) =>
+  db.lateFeeRule.findMany({ where: { active: true } })
+
+// Category rule first, then the default (category-less) rule
+const findRule = (rules, categoryId) =>
+  rules.find((rule) => rule.categoryId === categoryId) ||
+  rules.find((rule) => rule.categoryId === null) ||
+  fallbackRule()
+
+// Late fee for `units` of a line returned (or still out) at `asOf`
+const calculateLineLateFee = (line, rule, endDate, asOf, units) => {
+  const lateMs = asOf - endDate
+
+  if (units <= 0 || lateMs <= rule.gracePeriodHours * MS_PER_HOUR) {
+    return { daysLate: 0, amount: 0 }
+  }
+
+  const daysLate = Math.ceil(lateMs / MS_PER_DAY)
+  let perUnit = daysLate * (rule.feePerDay + line.dailyRate * rule.dailyRateMultiplier)
+  if (rule.maxFeePerUnit !== null && rule.maxFeePerUnit !== undefined) {
+    perUnit = Math.min(perUnit, rule.maxFeePerUnit)
+  }
+
+  return { daysLate, amount: roundMoney(perUnit * units) }
+}
+
+// Record a final late fee for units coming back on a line
+const settleLineLateFee = async (tx, rental, line, units, asOf, rules) => {
+  const rule = findRule(rules, line.item.categoryId)
+  const { daysLate, amount } = calculateLineLateFee(line, rule, rental.endDate, asOf, units)
+
+  if (amount === 0) {
+    return null
+  }
+
+  return tx.rentalAdjustment.create({
+    data: {
+      rentalId: rental.id,
+      rentalItemId: line.id,
+      type: 'LATE_FEE',
+      description: `Late return: ${units} × ${line.item.name}, ${daysLate} day(s) (${rule.name})`,
+      amount,
+    },
+  })
+}
+
+// Create, refresh or clear the accruing late fee for units still out, then
+// recompute the rental's totals. Returns the new accruing amount, or null if
+// nothing changed.
+const refreshAccruingLateFee = async (tx, rentalId, asOf, rules) => {
+  const rental = await tx.rental.findUnique({
+    where: { id: rentalId },
+    include: {
+      items: { include: { item: { select: { name: true, categoryId: true } } } },
+      adjustments: { where: { type: 'LATE_FEE', accruing: true } },
+    },
+  })
+
+  const feeRules = rules || await loadLateFeeRules(tx)
+  const stillOut = ['ACTIVE', 'OVERDUE'].includes(rental.status)
+
+  let amount = 0
+  let daysLate = 0
+  if (stillOut) {
+    for (const line of rental.items) {
+      const fee = calculateLineLateFee(
+        line,
+        findRule(feeRules, line.item.categoryId),
+        rental.endDate,
+        asOf,
+        line.quantity - line.returnedQuantity
+      )
+      amount += fee.amount
+      daysLate = Math.max(daysLate, fee.daysLate)
+    }
+  }
+  amount = roundMoney(amount)
+
+  const existing = rental.adjustments[0]
+  if ((existing?.amount || 0) === amount) {
+    return null
+  }
+
+  const description = `Late fee accruing: ${daysLate} day(s)`
+
+  if (amount === 0) {
+    await tx.rentalAdjustment.delete({ where: { id: existing.id } })
+  } else if (existing) {
+    await tx.rentalAdjustment.update({
+      where: { id: existing.id },
+      data: { amount, description },
+    })
+  } else {
+    await tx.rentalAdjustment.create({
+      data: { rentalId, type: 'LATE_FEE', accruing: true, amount, description },
+    })
+  }
+
+  await recalculateRental(tx, rentalId)
+
+  return amount
+}
+
+module.exports = {
+  loadLateFeeRules,
+  findRule,
+  calculateLineLateFee,
+  settleLineLateFee,
+  refreshAccruingLateFee,
+}
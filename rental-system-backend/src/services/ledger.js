@@ -0,0 +1,307 @@
+// Account codes of the chart of accounts seeded by the general_ledger migration
+const ACCOUNTS = {
+  CASH: '1000',
+  BANK: '1010',
+  MOBILE_MONEY: '1020',
+  RECEIVABLES: '1100',
+  DEPOSITS_HELD: '2000',
+  RENTAL_REVENUE: '4000',
+  FEE_REVENUE: '4100',
+  DISPOSAL_PROCEEDS: '4200',
+}
+
+const EXPENSE_ACCOUNTS = {
+  MAINTENANCE: '5000',
+  PROCUREMENT: '5100',
+  SALARY: '5200',
+  UTILITIES: '5300',
+  OTHER: '5900',
+}
+
+// Where the money sits for each payment method; DEPOSIT payments draw on deposits held
+const METHOD_ACCOUNTS = {
+  CASH: ACCOUNTS.CASH,
+  CARD: ACCOUNTS.BANK,
+  BANK_TRANSFER: ACCOUNTS.BANK,
+  MOBILE_MONEY: ACCOUNTS.MOBILE_MONEY,
+  DEPOSIT: ACCOUNTS.DEPOSITS_HELD,
+}
+
+// Adjustments booked as fee revenue; other adjustments (extensions, early
+// return credits) change the rental revenue itself
+const FEE_ADJUSTMENTS = ['LATE_FEE', 'DAMAGE', 'CANCELLATION_FEE']
+
+// Accounts whose balance grows with debits; the others grow with credits
+const DEBIT_NORMAL = ['ASSET', 'EXPENSE']
+
+// Ledger amounts are integer minor units (cents)
+const toMinor = (amount) => Math.round(amount * 100)
+const fromMinor = (amount) => amount / 100
+
+// Balance of a line total on the account's normal side
+const normalBalance = (type, { debit, credit }) => (DEBIT_NORMAL.includes(type) ? debit - credit : credit - debit)
+
+// Bring what is posted for a source record in line with `balances`
+// ({ accountCode: signed minor units, debits positive }) by posting the
+// difference as a new entry. Posting the same balances again is a no-op, and
+// empty balances reverse everything posted for the record.
+const syncEntries = async (tx, { source, sourceId, rentalId = null, date = new Date(), description, balances }) => {
+  const posted = await tx.journalLine.groupBy({
+    by: ['accountCode'],
+    where: { entry: { source, sourceId } },
+    _sum: { debit: true, credit: true },
+  })
+
+  const differences = new Map(Object.entries(balances))
+  for (const { accountCode, _sum } of posted) {
+    const net = (_sum.debit || 0) - (_sum.credit || 0)
+    differences.set(accountCode, (differences.get(accountCode) || 0) - net)
+  }
+
+  const lines = [...differences]
+    .filter(([, amount]) => amount !== 0)
+    .map(([accountCode, amount]) => ({
+      accountCode,
+      debit: Math.max(amount, 0),
+      credit: Math.max(-amount, 0),
+    }))
+
+  if (lines.length === 0) {
+    return null
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.debit - line.credit, 0)
+  if (total !== 0) {
+    throw new Error(`Unbalanced journal entry for ${source} ${sourceId}`)
+  }
+
+  return tx.journalEntry.create({
+    data: {
+      date,
+      // A full reversal keeps its own description
+      description: posted.length > 0 && Object.keys(balances).length > 0
+        ? `${description} (adjustment)`
+        : description,
+      source,
+      sourceId,
+      rentalId,
+      lines: { create: lines },
+    },
+  })
+}
+
+// Receivable for what the rental charges, against rental and fee revenue
+const postRentalCharges = async (tx, rentalId, { now = new Date() } = {}) => {
+  const rental = await tx.rental.findUnique({
+    where: { id: rentalId },
+    include: { adjustments: true },
+  })
+
+  const total = toMinor(rental.totalAmount)
+  const fees = toMinor(
+    rental.adjustments
+      .filter((adjustment) => FEE_ADJUSTMENTS.includes(adjustment.type))
+      .reduce((sum, adjustment) => sum + adjustment.amount, 0)
+  )
+
+  return syncEntries(tx, {
+    source: 'RENTAL',
+    sourceId: rentalId,
+    rentalId,
+    date: now,
+    description: 'Rental charges',
+    balances: {
+      [ACCOUNTS.RECEIVABLES]: total,
+      [ACCOUNTS.RENTAL_REVENUE]: -(total - fees),
+      [ACCOUNTS.FEE_REVENUE]: -fees,
+    },
+  })
+}
+
+const PAYMENT_DESCRIPTIONS = {
+  PAYMENT: 'Payment',
+  REFUND: 'Refund',
+  REVERSAL: 'Payment reversal',
+}
+
+// Money received (or paid back, for negative amounts) against the receivable
+const postPayment = (tx, payment) => {
+  const amount = toMinor(payment.amount)
+
+  return syncEntries(tx, {
+    source: 'PAYMENT',
+    sourceId: payment.id,
+    rentalId: payment.rentalId,
+    date: payment.paymentDate,
+    description: PAYMENT_DESCRIPTIONS[payment.type],
+    balances: {
+      [METHOD_ACCOUNTS[payment.paymentMethod]]: amount,
+      [ACCOUNTS.RECEIVABLES]: -amount,
+    },
+  })
+}
+
+// Deposits collected and refunded move money against the deposits held
+// liability. Applied deposits are posted through their DEPOSIT payment.
+const postDepositTransaction = (tx, transaction) => {
+  if (transaction.type === 'APPLY') {
+    return null
+  }
+
+  const amount = toMinor(transaction.type === 'COLLECT' ? transaction.amount : -transaction.amount)
+
+  return syncEntries(tx, {
+    source: 'DEPOSIT',
+    sourceId: transaction.id,
+    rentalId: transaction.rentalId,
+    date: transaction.createdAt,
+    description: transaction.type === 'COLLECT' ? 'Deposit collected' : 'Deposit refunded',
+    balances: {
+      [METHOD_ACCOUNTS[transaction.paymentMethod] || ACCOUNTS.CASH]: amount,
+      [ACCOUNTS.DEPOSITS_HELD]: -amount,
+    },
+  })
+}
+
+// Expenses are paid in cash. A deleted expense has its postings reversed.
+const postExpense = (tx, expense, { deleted = false } = {}) => {
+  const amount = toMinor(expense.amount)
+
+  return syncEntries(tx, {
+    source: 'EXPENSE',
+    sourceId: expense.id,
+    date: deleted ? new Date() : expense.expenseDate,
+    description: deleted ? `Expense deleted: ${expense.description}` : `Expense: ${expense.description}`,
+    balances: deleted
+      ? {}
+      : {
+          [EXPENSE_ACCOUNTS[expense.category]]: amount,
+          [ACCOUNTS.CASH]: -amount,
+        },
+  })
+}
+
+// Proceeds from disposing of a retired item, received in cash. Purchases were
+// expensed when bought, so the proceeds are income in full.
+const postDisposal = (tx, disposal, item) => {
+  const amount = toMinor(disposal.value)
+
+  return syncEntries(tx, {
+    source: 'DISPOSAL',
+    sourceId: disposal.id,
+    date: disposal.disposedAt,
+    description: `Disposal: ${item.name}`,
+    balances: amount === 0
+      ? {}
+      : {
+          [ACCOUNTS.CASH]: amount,
+          [ACCOUNTS.DISPOSAL_PROCEEDS]: -amount,
+        },
+  })
+}
+
+const dateRange = ({ startDate, endDate }) => {
+  if (!startDate && !endDate) return undefined
+
+  return {
+    ...(startDate && { gte: startDate }),
+    ...(endDate && { lte: endDate }),
+  }
+}
+
+// Debit and credit totals per account for entries dated in the range (and
+// posted from `source`, when given), with the balance on each account's normal side
+const getAccountBalances = async (db, { startDate, endDate, source } = {}) => {
+  const [accounts, sums] = await Promise.all([
+    db.ledgerAccount.findMany({ orderBy: { code: 'asc' } }),
+    db.journalLine.groupBy({
+      by: ['accountCode'],
+      where: { entry: { date: dateRange({ startDate, endDate }), source } },
+      _sum: { debit: true, credit: true },
+    }),
+  ])
+
+  return accounts.map((account) => {
+    const sum = sums.find((entry) => entry.accountCode === account.code)?._sum
+    const totals = { debit: sum?.debit || 0, credit: sum?.credit || 0 }
+
+    return { ...account, ...totals, balance: normalBalance(account.type, totals) }
+  })
+}
+
+// Every account's net balance as of a date, on the debit or credit side.
+// Debits and credits always total the same.
+const getTrialBalance = async (db, { asOf } = {}) => {
+  const accounts = await getAccountBalances(db, { endDate: asOf })
+
+  const rows = accounts.map(({ code, name, type, debit, credit }) => ({
+    code,
+    name,
+    type,
+    debit: Math.max(debit - credit, 0),
+    credit: Math.max(credit - debit, 0),
+  }))
+  const totalDebit = rows.reduce((sum, row) => sum + row.debit, 0)
+  const totalCredit = rows.reduce((sum, row) => sum + row.credit, 0)
+
+  return { asOf: asOf || null, accounts: rows, totalDebit, totalCredit, balanced: totalDebit === totalCredit }
+}
+
+const summarize = (accounts, type) => {
+  const rows = accounts
+    .filter((account) => account.type === type)
+    .map(({ code, name, balance }) => ({ code, name, balance }))
+
+  return { accounts: rows, total: rows.reduce((sum, row) => sum + row.balance, 0) }
+}
+
+// Revenue less expenses for entries dated in the period
+const getProfitAndLoss = async (db, { startDate, endDate } = {}) => {
+  const accounts = await getAccountBalances(db, { startDate, endDate })
+  const revenue = summarize(accounts, 'REVENUE')
+  const expenses = summarize(accounts, 'EXPENSE')
+
+  return {
+    startDate: startDate || null,
+    endDate: endDate || null,
+    revenue,
+    expenses,
+    netIncome: revenue.total - expenses.total,
+  }
+}
+
+// Assets, liabilities and equity as of a date. Earnings not yet closed to an
+// equity account are shown as current earnings, so assets always equal
+// liabilities plus equity.
+const getBalanceSheet = async (db, { asOf } = {}) => {
+  const accounts = await getAccountBalances(db, { endDate: asOf })
+  const assets = summarize(accounts, 'ASSET')
+  const liabilities = summarize(accounts, 'LIABILITY')
+  const equity = summarize(accounts, 'EQUITY')
+
+  const currentEarnings = summarize(accounts, 'REVENUE').total - summarize(accounts, 'EXPENSE').total
+  equity.accounts.push({ code: null, name: 'Current earnings', balance: currentEarnings })
+  equity.total += currentEarnings
+
+  return {
+    asOf: asOf || null,
+    assets,
+    liabilities,
+    equity,
+    balanced: assets.total === liabilities.total + equity.total,
+  }
+}
+
+module.exports = {
+  ACCOUNTS,
+  fromMinor,
+  postRentalCharges,
+  postPayment,
+  postDepositTransaction,
+  postExpense,
+  postDisposal,
+  getAccountBalances,
+  getTrialBalance,
+  getProfitAndLoss,
+  getBalanceSheet,
+}
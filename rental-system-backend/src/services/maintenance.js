@@ -0,0 +1,241 @@
+const { createError } = require('../utils/errors')
+const { assertItemAvailable, lockItems, syncItemStatus } = require('./availability')
+const { roundMoney } = require('./rentalFinancials')
+
+// Statuses a work order can be moved to; COMPLETED goes through completion
+const OPEN_STATUSES = ['PENDING', 'IN_PROGRESS']
+
+const maintenanceInclude = {
+  item: true,
+  unit: true,
+  plan: true,
+}
+
+// Parts and labour make up the cost (admin only). A bare `cost` is still
+// accepted and kept as is.
+const parseMaintenanceCosts = ({ cost, partsCost, labourCost }, existing = {}) => {
+  const parse = (value, fallback = 0) => (value === undefined || value === '' ? fallback : parseFloat(value))
+
+  let data = {}
+  if (partsCost !== undefined || labourCost !== undefined) {
+    data.partsCost = parse(partsCost, existing.partsCost)
+    data.labourCost = parse(labourCost, existing.labourCost)
+    data.cost = roundMoney(data.partsCost + data.labourCost)
+  } else if (cost !== undefined) {
+    data = { cost: parse(cost) }
+  }
+
+  if (Object.values(data).some((amount) => isNaN(amount) || amount < 0)) {
+    throw createError(400, 'Costs must be zero or more')
+  }
+
+  return data
+}
+
+// Parse the work window. Work starts now and stays open until completed
+// unless a start (scheduled work) or planned end is given.
+const parseWorkWindow = ({ startDate, endDate }, existing = {}, now = new Date()) => {
+  const start = startDate ? new Date(startDate) : existing.startDate || now
+  const end = endDate !== undefined
+    ? (endDate ? new Date(endDate) : null)
+    : existing.endDate ?? null
+
+  if (isNaN(start.getTime()) || (end && isNaN(end.getTime()))) {
+    throw createError(400, 'Invalid date')
+  }
+  if (end && end <= start) {
+    throw createError(400, 'End date must be after start date')
+  }
+  if (start > now && !end) {
+    throw createError(400, 'Scheduled maintenance needs an end date')
+  }
+
+  return { start, end }
+}
+
+// Take the unit (or whole item) out of service
+const takeOutOfService = async (tx, { itemId, unitId }) => {
+  if (unitId) {
+    await tx.itemUnit.update({
+      where: { id: unitId },
+      data: { status: 'MAINTENANCE' },
+    })
+  } else {
+    await tx.item.update({
+      where: { id: itemId },
+      data: { status: 'MAINTENANCE' },
+    })
+  }
+}
+
+// Whether an open work order has taken its unit or item out of service: work
+// is started (IN_PROGRESS) or was opened to start straight away. Scheduled
+// work starts after it is created and only blocks its window until started.
+const holdsOutOfService = (maintenance) =>
+  maintenance.status === 'IN_PROGRESS' || maintenance.startDate <= maintenance.createdAt
+
+// Put the unit (or whole item) back in service once no other open work order
+// holds it. A unit still checked out on a rental goes back to RENTED, and an
+// item's status is re-derived from the units it has out.
+const returnToService = async (tx, { id, itemId, unitId }) => {
+  const others = await tx.maintenance.findMany({
+    where: { id: { not: id }, itemId, unitId: unitId || null, status: { in: OPEN_STATUSES } },
+    select: { status: true, startDate: true, createdAt: true },
+  })
+  if (others.some(holdsOutOfService)) return
+
+  if (unitId) {
+    const unit = await tx.itemUnit.findUnique({ where: { id: unitId }, select: { status: true } })
+    if (unit?.status !== 'MAINTENANCE') return
+
+    const out = await tx.rentalItemUnit.count({
+      where: { unitId, returnedAt: null, rentalItem: { rental: { status: { in: ['ACTIVE', 'OVERDUE'] } } } },
+    })
+    await tx.itemUnit.update({
+      where: { id: unitId },
+      data: { status: out > 0 ? 'RENTED' : 'AVAILABLE' },
+    })
+  } else {
+    const item = await tx.item.findUnique({ where: { id: itemId }, select: { status: true } })
+    if (item?.status !== 'MAINTENANCE') return
+
+    await tx.item.update({
+      where: { id: itemId },
+      data: { status: 'AVAILABLE' },
+    })
+    await syncItemStatus(tx, itemId)
+  }
+}
+
+// A scheduled window must not take a unit that is already booked
+const assertWindowFree = async (tx, itemId, { start, end }, options = {}) => {
+  await lockItems(tx, [itemId])
+  await assertItemAvailable(tx, itemId, start, end, 1, options)
+}
+
+// Open a maintenance record. Work starting now takes the unit (or whole item)
+// out of service straight away; work scheduled for later only blocks its
+// window in availability until it is started.
+const openMaintenance = async (
+  tx,
+  { itemId, unitId, planId, description, technician, notes, startDate, endDate, now = new Date(), ...costs }
+) => {
+  const window = parseWorkWindow({ startDate, endDate }, {}, now)
+  const scheduled = window.start > now
+
+  if (scheduled) {
+    await assertWindowFree(tx, itemId, window)
+  }
+
+  const maintenance = await tx.maintenance.create({
+    data: {
+      itemId,
+      unitId,
+      planId,
+      description,
+      technician,
+      notes,
+      startDate: window.start,
+      endDate: window.end,
+      ...parseMaintenanceCosts(costs),
+      status: 'PENDING',
+    },
+    include: maintenanceInclude,
+  })
+
+  if (!scheduled) {
+    await takeOutOfService(tx, { itemId, unitId })
+  }
+
+  return maintenance
+}
+
+// Update a work order. Rescheduling re-checks the window; starting work
+// (IN_PROGRESS) takes the unit or item out of service.
+const updateMaintenance = async (tx, id, input, { allowCosts = false, now = new Date() } = {}) => {
+  const existing = await tx.maintenance.findUnique({ where: { id } })
+  if (!existing) {
+    throw createError(404, 'Maintenance record not found')
+  }
+  if (existing.status === 'COMPLETED' && (input.startDate !== undefined || input.endDate !== undefined)) {
+    throw createError(409, 'Completed maintenance cannot be rescheduled')
+  }
+  if (input.status && !OPEN_STATUSES.includes(input.status)) {
+    throw createError(400, `Status must be one of ${OPEN_STATUSES.join(', ')}; use complete to finish maintenance`)
+  }
+  if (input.status && existing.status === 'COMPLETED') {
+    throw createError(409, 'Maintenance already completed')
+  }
+
+  const data = {}
+  for (const field of ['description', 'technician', 'notes']) {
+    if (input[field] !== undefined) data[field] = input[field]
+  }
+  if (input.status) data.status = input.status
+
+  if (input.startDate !== undefined || input.endDate !== undefined) {
+    const window = parseWorkWindow(input, existing, now)
+    if (window.start > now) {
+      await assertWindowFree(tx, existing.itemId, window, { excludeMaintenanceId: id })
+    }
+    data.startDate = window.start
+    data.endDate = window.end
+  }
+
+  // Scheduled work started early begins now
+  if (data.status === 'IN_PROGRESS' && !data.startDate && existing.startDate > now) {
+    data.startDate = now
+  }
+
+  if (allowCosts) {
+    Object.assign(data, parseMaintenanceCosts(input, existing))
+  }
+
+  const maintenance = await tx.maintenance.update({
+    where: { id },
+    data,
+    include: maintenanceInclude,
+  })
+
+  if (data.status === 'IN_PROGRESS' && existing.status === 'PENDING') {
+    await takeOutOfService(tx, existing)
+  }
+
+  return { existing, maintenance }
+}
+
+// Complete a work order. endDate becomes the completion time; scheduled work
+// completed before its window starts is recorded as done now.
+const completeMaintenance = async (tx, id, { now = new Date() } = {}) => {
+  const existing = await tx.maintenance.findUnique({ where: { id } })
+  if (!existing) {
+    throw createError(404, 'Maintenance record not found')
+  }
+  if (existing.status === 'COMPLETED') {
+    throw createError(409, 'Maintenance already completed')
+  }
+
+  const maintenance = await tx.maintenance.update({
+    where: { id },
+    data: {
+      status: 'COMPLETED',
+      ...(existing.startDate > now && { startDate: now }),
+      endDate: now,
+    },
+    include: maintenanceInclude,
+  })
+
+  if (holdsOutOfService(existing)) {
+    await returnToService(tx, existing)
+  }
+
+  return { existing, maintenance }
+}
+
+module.exports = {
+  maintenanceInclude,
+  parseMaintenanceCosts,
+  openMaintenance,
+  updateMaintenance,
+  completeMaintenance,
+}
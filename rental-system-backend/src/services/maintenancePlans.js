@@ -0,0 +1,210 @@
+const { createError } = require('../utils/errors')
+const { calculateNumberOfDays } = require('./rentalFinancials')
+const { openMaintenance } = require('./maintenance')
+
+const DAY = 1000 * 60 * 60 * 24
+
+const TRIGGERS = ['CALENDAR', 'RENTAL_COUNT', 'RENTAL_DAYS']
+
+// Rentals whose items actually went out count as usage
+const USED_RENTAL_STATUSES = ['ACTIVE', 'OVERDUE', 'COMPLETED']
+
+// Work orders still open against a plan
+const OPEN_MAINTENANCE_STATUSES = ['PENDING', 'IN_PROGRESS']
+
+// Share of the interval used up before an item shows as due soon
+const DUE_SOON_RATIO = 0.8
+
+const key = (planId, itemId) => `${planId}:${itemId}`
+
+// Active plans that cover the items, paired up with each item they cover.
+// Retired items are never due.
+const loadPlanTargets = async (db, itemIds) => {
+  const items = await db.item.findMany({
+    where: {
+      ...(itemIds && { id: { in: itemIds } }),
+      status: { not: 'RETIRED' },
+    },
+    select: { id: true, name: true, categoryId: true, createdAt: true },
+  })
+  if (items.length === 0) return []
+
+  const plans = await db.maintenancePlan.findMany({
+    where: {
+      active: true,
+      OR: [
+        { itemId: { in: items.map((item) => item.id) } },
+        { categoryId: { in: [...new Set(items.map((item) => item.categoryId))] } },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const targets = []
+  for (const plan of plans) {
+    for (const item of items) {
+      if (plan.itemId === item.id || (plan.categoryId && plan.categoryId === item.categoryId)) {
+        targets.push({ plan, item })
+      }
+    }
+  }
+  return targets
+}
+
+// Usage of one item since `since`, measured the way the trigger counts it
+const measureUsage = (trigger, since, lines, now) => {
+  if (trigger === 'CALENDAR') {
+    return Math.max(0, Math.floor((now - since) / DAY))
+  }
+
+  const used = lines.filter((line) => line.rental.startDate >= since)
+  if (trigger === 'RENTAL_COUNT') {
+    return used.length
+  }
+
+  // RENTAL_DAYS: days each rental had the item out, up to now for rentals still out
+  return used.reduce((sum, line) => {
+    const end = line.returnDate || line.rental.returnDate || now
+    return sum + Math.max(0, calculateNumberOfDays(line.rental.startDate, end < now ? end : now))
+  }, 0)
+}
+
+// Where each active plan stands for the given items (or every item).
+// A plan counts from its last completed work order on the item, or from when
+// the plan (or the item, if newer) was created.
+const getPlanStatuses = async (db, { itemIds, now = new Date() } = {}) => {
+  const targets = await loadPlanTargets(db, itemIds)
+  if (targets.length === 0) return []
+
+  const planIds = [...new Set(targets.map(({ plan }) => plan.id))]
+  const targetItemIds = [...new Set(targets.map(({ item }) => item.id))]
+
+  const [lastServices, openOrders] = await Promise.all([
+    db.maintenance.groupBy({
+      by: ['planId', 'itemId'],
+      where: { planId: { in: planIds }, itemId: { in: targetItemIds }, status: 'COMPLETED' },
+      _max: { endDate: true },
+    }),
+    db.maintenance.findMany({
+      where: {
+        planId: { in: planIds },
+        itemId: { in: targetItemIds },
+        status: { in: OPEN_MAINTENANCE_STATUSES },
+      },
+      select: { id: true, planId: true, itemId: true, status: true, startDate: true, endDate: true },
+      orderBy: { startDate: 'asc' },
+    }),
+  ])
+
+  const lastServiceByKey = new Map(
+    lastServices.map((row) => [key(row.planId, row.itemId), row._max.endDate])
+  )
+  const openOrderByKey = new Map()
+  for (const order of openOrders) {
+    const orderKey = key(order.planId, order.itemId)
+    if (!openOrderByKey.has(orderKey)) openOrderByKey.set(orderKey, order)
+  }
+
+  const baselines = targets.map(({ plan, item }) =>
+    lastServiceByKey.get(key(plan.id, item.id)) ||
+    (plan.createdAt > item.createdAt ? plan.createdAt : item.createdAt)
+  )
+
+  // Rental lines are only needed for usage-based plans
+  const usageTargets = targets.filter(({ plan }) => plan.trigger !== 'CALENDAR')
+  let linesByItem = new Map()
+  if (usageTargets.length > 0) {
+    const earliest = new Date(Math.min(...baselines.map((date) => date.getTime())))
+    const lines = await db.rentalItem.findMany({
+      where: {
+        itemId: { in: [...new Set(usageTargets.map(({ item }) => item.id))] },
+        rental: { status: { in: USED_RENTAL_STATUSES }, startDate: { gte: earliest } },
+      },
+      select: {
+        itemId: true,
+        returnDate: true,
+        rental: { select: { startDate: true, returnDate: true } },
+      },
+    })
+    linesByItem = lines.reduce((map, line) => {
+      map.set(line.itemId, [...(map.get(line.itemId) || []), line])
+      return map
+    }, new Map())
+  }
+
+  return targets.map(({ plan, item }, index) => {
+    const since = baselines[index]
+    const usage = measureUsage(plan.trigger, since, linesByItem.get(item.id) || [], now)
+
+    return {
+      plan: {
+        id: plan.id,
+        name: plan.name,
+        description: plan.description,
+        trigger: plan.trigger,
+        interval: plan.interval,
+      },
+      item: { id: item.id, name: item.name },
+      since,
+      usage,
+      remaining: Math.max(0, plan.interval - usage),
+      dueDate: plan.trigger === 'CALENDAR' ? new Date(since.getTime() + plan.interval * DAY) : null,
+      due: usage >= plan.interval,
+      dueSoon: usage < plan.interval && usage >= plan.interval * DUE_SOON_RATIO,
+      openWorkOrder: openOrderByKey.get(key(plan.id, item.id)) || null,
+    }
+  })
+}
+
+// Items due for service cannot go out on new rentals until the plan's work
+// order is completed
+const assertNotDueForService = async (db, itemIds, now = new Date()) => {
+  const statuses = await getPlanStatuses(db, { itemIds, now })
+  const due = statuses.find((status) => status.due)
+
+  if (due) {
+    throw createError(409, `${due.item.name} is due for service (${due.plan.name})`)
+  }
+}
+
+// Open a work order for a plan on one of the items it covers. Plans service
+// the whole item, so the work order takes the item out of service.
+const openPlanWorkOrder = async (tx, planId, { itemId, technician, notes, startDate, endDate, now }) => {
+  const plan = await tx.maintenancePlan.findUnique({ where: { id: planId } })
+  if (!plan) {
+    throw createError(404, 'Maintenance plan not found')
+  }
+
+  const item = itemId && await tx.item.findUnique({ where: { id: itemId } })
+  if (!item) {
+    throw createError(404, 'Item not found')
+  }
+  if (plan.itemId !== item.id && plan.categoryId !== item.categoryId) {
+    throw createError(400, 'The plan does not cover this item')
+  }
+
+  const open = await tx.maintenance.findFirst({
+    where: { planId, itemId, status: { in: OPEN_MAINTENANCE_STATUSES } },
+  })
+  if (open) {
+    throw createError(409, 'A work order for this plan is already open on the item')
+  }
+
+  return openMaintenance(tx, {
+    itemId,
+    planId,
+    description: plan.description,
+    technician,
+    notes,
+    startDate,
+    endDate,
+    now,
+  })
+}
+
+module.exports = {
+  TRIGGERS,
+  getPlanStatuses,
+  assertNotDueForService,
+  openPlanWorkOrder,
+}
@@ -0,0 +1,165 @@
+const { createError } = require('../utils/errors')
+const { roundMoney, recalculateRental } = require('./rentalFinancials')
+const { postPayment } = require('./ledger')
+
+// Lock the rental so its balance is recomputed from a consistent set of payments
+const loadRentalForUpdate = async (tx, rentalId) => {
+  await tx.$queryRaw`SELECT "id" FROM "Rental" WHERE "id" = ${rentalId} FOR UPDATE`
+
+  const rental = await tx.rental.findUnique({ where: { id: rentalId } })
+
+  if (!rental) {
+    throw createError(404, 'Rental not found')
+  }
+
+  return rental
+}
+
+const parseAmount = (amount) => {
+  const value = roundMoney(parseFloat(amount))
+
+  if (!(value > 0)) {
+    throw createError(400, 'Amount must be greater than zero')
+  }
+
+  return value
+}
+
+const assertMethod = (paymentMethod) => {
+  if (!paymentMethod) {
+    throw createError(400, 'A payment method is required')
+  }
+  if (paymentMethod === 'DEPOSIT') {
+    throw createError(400, 'Use /api/finances/deposits to settle charges from or refund a deposit')
+  }
+}
+
+// Take a payment towards the rental's balance
+const recordPayment = async (tx, { rentalId, amount, paymentMethod, reference, notes, userId }) => {
+  assertMethod(paymentMethod)
+
+  const rental = await loadRentalForUpdate(tx, rentalId)
+  const value = parseAmount(amount)
+
+  if (value > rental.amountDue) {
+    throw createError(400, `Payment amount cannot exceed amount due (${rental.amountDue})`)
+  }
+
+  const payment = await tx.payment.create({
+    data: { rentalId, type: 'PAYMENT', amount: value, paymentMethod, reference, notes, userId },
+  })
+
+  await postPayment(tx, payment)
+
+  await recalculateRental(tx, rentalId)
+
+  return payment
+}
+
+// Pay money back to the customer, as a negative REFUND entry in the method used
+const refundPayment = async (tx, { rentalId, amount, paymentMethod, reference, reason, userId }) => {
+  assertMethod(paymentMethod)
+
+  if (!reason) {
+    throw createError(400, 'A refund reason is required')
+  }
+
+  const rental = await loadRentalForUpdate(tx, rentalId)
+  const value = parseAmount(amount)
+
+  if (value > rental.amountPaid) {
+    throw createError(400, `Refund cannot exceed the amount paid (${rental.amountPaid})`)
+  }
+
+  const refund = await tx.payment.create({
+    data: { rentalId, type: 'REFUND', amount: -value, paymentMethod, reference, reason, userId },
+  })
+
+  await postPayment(tx, refund)
+
+  await recalculateRental(tx, rentalId)
+
+  return refund
+}
+
+// Cancel out a payment recorded in error with a REVERSAL of the opposite amount.
+// The original stays on record; each entry can be reversed once, and reversals
+// themselves cannot be reversed.
+const voidPayment = async (tx, id, { reason, userId, now = new Date() }) => {
+  if (!reason) {
+    throw createError(400, 'A reason is required to void a payment')
+  }
+
+  const existing = await tx.payment.findUnique({ where: { id } })
+  if (!existing) {
+    throw createError(404, 'Payment not found')
+  }
+
+  await loadRentalForUpdate(tx, existing.rentalId)
+
+  const payment = await tx.payment.findUnique({
+    where: { id },
+    include: { reversal: true },
+  })
+
+  if (payment.type === 'REVERSAL') {
+    throw createError(409, 'A reversal cannot be voided')
+  }
+  if (payment.reversal) {
+    throw createError(409, 'Payment has already been voided')
+  }
+  // Deposit settlements are undone through the deposit, not the payment
+  if (payment.paymentMethod === 'DEPOSIT') {
+    throw createError(409, 'Payments applied from a deposit cannot be voided')
+  }
+
+  const reversal = await tx.payment.create({
+    data: {
+      rentalId: payment.rentalId,
+      type: 'REVERSAL',
+      amount: -payment.amount,
+      paymentMethod: payment.paymentMethod,
+      paymentDate: now,
+      reference: payment.reference,
+      reason,
+      reversedPaymentId: payment.id,
+      userId,
+    },
+  })
+
+  await postPayment(tx, reversal)
+  await recalculateRental(tx, payment.rentalId)
+
+  return reversal
+}
+
+// Rentals whose stored amountPaid no longer matches the sum of their payments
+const findUnreconciledRentals = async (db) => {
+  const sums = await db.payment.groupBy({
+    by: ['rentalId'],
+    _sum: { amount: true },
+  })
+  const paidByRental = new Map(sums.map((entry) => [entry.rentalId, roundMoney(entry._sum.amount || 0)]))
+
+  const rentals = await db.rental.findMany({
+    where: {
+      OR: [{ id: { in: [...paidByRental.keys()] } }, { amountPaid: { not: 0 } }],
+    },
+    select: { id: true, amountPaid: true },
+  })
+
+  return rentals
+    .map((rental) => ({
+      rentalId: rental.id,
+      amountPaid: rental.amountPaid,
+      paymentsTotal: paidByRental.get(rental.id) || 0,
+    }))
+    .filter((entry) => roundMoney(entry.amountPaid - entry.paymentsTotal) !== 0)
+}
+
+module.exports = {
+  recordPayment,
+  refundPayment,
+  voidPayment,
+  findUnreconciledRentals,
+}
@@ -0,0 +1,378 @@
+const PDFDocument = require('pdfkit')
+const config = require('../config')
+
+const MARGIN = 50
+const PAGE_WIDTH = 595.28 // A4 in points
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const formatMoney = (amount) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+const formatDate = (date) => date.toISOString().slice(0, 10)
+const formatMethod = (method) => method.charAt(0) + method.slice(1).toLowerCase().replace(/_/g, ' ')
+
+// Draw into a fresh A4 document and collect the output into a Buffer
+const renderPdf = (draw) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN })
+    const chunks = []
+
+    doc.on('data', (chunk) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    draw(doc)
+    doc.end()
+  })
+
+// Start a new page when fewer than `height` points are left
+const ensureSpace = (doc, height) => {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage()
+  }
+}
+
+// Business details on the left, document title and numbers on the right
+const drawHeader = (doc, title, details) => {
+  const { business } = config
+  const top = doc.y
+
+  doc.font('Helvetica-Bold').fontSize(16).text(business.name, MARGIN, top, { width: CONTENT_WIDTH / 2 })
+  doc.font('Helvetica').fontSize(9)
+  for (const line of [business.address, business.phone, business.email]) {
+    if (line) doc.text(line, { width: CONTENT_WIDTH / 2 })
+  }
+  if (business.taxId) doc.text(`Tax ID: ${business.taxId}`, { width: CONTENT_WIDTH / 2 })
+  const leftBottom = doc.y
+
+  const right = MARGIN + CONTENT_WIDTH / 2
+  doc.font('Helvetica-Bold').fontSize(20).text(title, right, top, { width: CONTENT_WIDTH / 2, align: 'right' })
+  doc.font('Helvetica').fontSize(9)
+  for (const [label, value] of details) {
+    doc.text(`${label}: ${value}`, right, doc.y, { width: CONTENT_WIDTH / 2, align: 'right' })
+  }
+
+  doc.x = MARGIN
+  doc.y = Math.max(leftBottom, doc.y) + 20
+}
+
+const drawCustomer = (doc, label, customer) => {
+  doc.font('Helvetica-Bold').fontSize(10).text(label, MARGIN, doc.y)
+  doc.font('Helvetica').fontSize(9)
+  for (const line of [customer.name, customer.address, customer.email, customer.phone]) {
+    if (line) doc.text(line)
+  }
+  doc.moveDown()
+}
+
+const drawHeading = (doc, text) => {
+  ensureSpace(doc, 40)
+  doc.font('Helvetica-Bold').fontSize(11).text(text, MARGIN, doc.y)
+  doc.moveDown(0.3)
+}
+
+// A row of cells; `columns` are { width, align } and share the content width
+const drawRow = (doc, columns, cells, { bold = false } = {}) => {
+  ensureSpace(doc, 16)
+  doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9)
+
+  const top = doc.y
+  let x = MARGIN
+  let bottom = top
+  columns.forEach((column, index) => {
+    doc.text(cells[index] ?? '', x, top, { width: column.width - 6, align: column.align || 'left' })
+    bottom = Math.max(bottom, doc.y)
+    x += column.width
+  })
+
+  doc.x = MARGIN
+  doc.y = bottom + 4
+}
+
+const drawRule = (doc) => {
+  doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + CONTENT_WIDTH, doc.y).lineWidth(0.5).stroke()
+  doc.y += 4
+}
+
+const drawTable = (doc, columns, rows) => {
+  drawRow(doc, columns, columns.map((column) => column.label), { bold: true })
+  drawRule(doc)
+  for (const row of rows) {
+    drawRow(doc, columns, row)
+  }
+  doc.moveDown(0.5)
+}
+
+// Label / amount pairs aligned to the right edge
+const drawTotals = (doc, rows) => {
+  const columns = [
+    { width: CONTENT_WIDTH - 200 },
+    { width: 110, align: 'right' },
+    { width: 90, align: 'right' },
+  ]
+  for (const { label, amount, bold } of rows) {
+    drawRow(doc, columns, ['', label, formatMoney(amount)], { bold })
+  }
+  doc.moveDown()
+}
+
+const LINE_COLUMNS = [
+  { label: 'Item', width: CONTENT_WIDTH - 290 },
+  { label: 'Qty', width: 40, align: 'right' },
+  { label: 'Unit price', width: 80, align: 'right' },
+  { label: 'Discount', width: 80, align: 'right' },
+  { label: 'Amount', width: 90, align: 'right' },
+]
+
+const CHARGE_COLUMNS = [
+  { label: 'Description', width: CONTENT_WIDTH - 90 },
+  { label: 'Amount', width: 90, align: 'right' },
+]
+
+const PAYMENT_COLUMNS = [
+  { label: 'Date', width: 90 },
+  { label: 'Method', width: 110 },
+  { label: 'Reference', width: CONTENT_WIDTH - 290 },
+  { label: 'Amount', width: 90, align: 'right' },
+]
+
+// Invoice for a rental: lines, charges and credits, totals, deposit and the
+// payments received so far. `rental` needs customer, items.item, adjustments
+// and payments loaded.
+const renderInvoicePdf = ({ invoice, rental }) =>
+  renderPdf((doc) => {
+    drawHeader(doc, 'INVOICE', [
+      ['Invoice', invoice.number],
+      ['Issued', formatDate(invoice.issuedAt)],
+      ['Rental', rental.id.slice(0, 8).toUpperCase()],
+    ])
+
+    drawCustomer(doc, 'Bill to', rental.customer)
+
+    doc.font('Helvetica').fontSize(9).text(
+      `Rental period: ${formatDate(rental.startDate)} to ${formatDate(rental.endDate)} ` +
+        `(${rental.numberOfDays} day(s)), status ${rental.status.toLowerCase()}`
+    )
+    doc.moveDown()
+
+    // A cancelled rental only owes its fees, so its lines are not billed
+    if (rental.status === 'CANCELLED') {
+      doc.text(
+        `Cancelled${rental.cancelledAt ? ` on ${formatDate(rental.cancelledAt)}` : ''}` +
+          `${rental.cancelReason ? `: ${rental.cancelReason}` : ''}. Rental lines are not charged.`
+      )
+      doc.moveDown()
+    } else {
+      drawHeading(doc, 'Items')
+      drawTable(
+        doc,
+        LINE_COLUMNS,
+        rental.items.map((line) => [
+          line.item.name,
+          String(line.quantity),
+          formatMoney(line.pricing?.unitPrice ?? line.dailyRate * rental.numberOfDays),
+          line.discount ? formatMoney(-line.discount) : '',
+          formatMoney(line.subtotal),
+        ])
+      )
+    }
+
+    if (rental.adjustments.length > 0) {
+      drawHeading(doc, 'Charges and credits')
+      drawTable(
+        doc,
+        CHARGE_COLUMNS,
+        rental.adjustments.map((adjustment) => [adjustment.description, formatMoney(adjustment.amount)])
+      )
+    }
+
+    const adjustmentTotal = rental.adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)
+    drawTotals(doc, [
+      { label: 'Subtotal', amount: rental.subtotal },
+      ...(adjustmentTotal !== 0 ? [{ label: 'Charges and credits', amount: adjustmentTotal }] : []),
+      ...(rental.discount ? [{ label: 'Discount', amount: -rental.discount }] : []),
+      { label: 'Total', amount: rental.totalAmount, bold: true },
+      { label: 'Paid to date', amount: rental.amountPaid },
+      { label: 'Balance due', amount: rental.amountDue, bold: true },
+    ])
+
+    if (rental.deposit > 0 || rental.depositHeld > 0) {
+      drawHeading(doc, 'Security deposit')
+      doc.font('Helvetica').fontSize(9).text(
+        `Required ${formatMoney(rental.deposit)}, currently held ${formatMoney(rental.depositHeld)}. ` +
+          'The deposit is refundable and not part of the total above.'
+      )
+      doc.moveDown()
+    }
+
+    if (rental.payments.length > 0) {
+      drawHeading(doc, 'Payments received')
+      drawTable(
+        doc,
+        PAYMENT_COLUMNS,
+        rental.payments.map((payment) => [
+          formatDate(payment.paymentDate),
+          formatMethod(payment.paymentMethod),
+          payment.receiptNumber || payment.reference || '',
+          formatMoney(payment.amount),
+        ])
+      )
+    }
+  })
+
+// Receipt for one payment (a refund or reversal when the amount is negative), with the
+// rental's balance after it. `rental` needs customer loaded.
+const renderReceiptPdf = ({ payment, rental, invoice }) =>
+  renderPdf((doc) => {
+    const refund = payment.amount < 0
+    const title = payment.type === 'REVERSAL' ? 'REVERSAL' : refund ? 'REFUND' : 'RECEIPT'
+
+    drawHeader(doc, title, [
+      ['Receipt', payment.receiptNumber],
+      ['Date', formatDate(payment.paymentDate)],
+      ...(invoice ? [['Invoice', invoice.number]] : []),
+    ])
+
+    drawCustomer(doc, refund ? 'Refunded to' : 'Received from', rental.customer)
+
+    drawHeading(doc, 'Payment')
+    drawTable(doc, PAYMENT_COLUMNS, [[
+      formatDate(payment.paymentDate),
+      formatMethod(payment.paymentMethod),
+      payment.reference || '',
+      formatMoney(payment.amount),
+    ]])
+
+    if (payment.reason) {
+      doc.font('Helvetica').fontSize(9).text(`Reason: ${payment.reason}`)
+    }
+    doc.font('Helvetica').fontSize(9).text(
+      `For rental ${rental.id.slice(0, 8).toUpperCase()}, ` +
+        `${formatDate(rental.startDate)} to ${formatDate(rental.endDate)}`
+    )
+    doc.moveDown()
+
+    drawTotals(doc, [
+      { label: 'Rental total', amount: rental.totalAmount },
+      { label: 'Paid to date', amount: rental.amountPaid },
+      { label: 'Balance due', amount: rental.amountDue, bold: true },
+    ])
+  })
+
+const AGREEMENT_ITEM_COLUMNS = [
+  { label: 'Item', width: CONTENT_WIDTH - 60 },
+  { label: 'Qty', width: 60, align: 'right' },
+]
+
+// Rental agreement: parties, items, dates, deposit and terms, then the
+// signature block. Without `signature` the block is left blank (preview).
+// `rental` needs customer and items.item loaded.
+const renderAgreementPdf = ({ rental, terms, signature }) =>
+  renderPdf((doc) => {
+    drawHeader(doc, 'RENTAL AGREEMENT', [
+      ['Rental', rental.id.slice(0, 8).toUpperCase()],
+      ['Date', formatDate(signature ? signature.signedAt : new Date())],
+    ])
+
+    drawCustomer(doc, 'Customer', rental.customer)
+
+    doc.font('Helvetica').fontSize(9)
+    if (rental.customer.idNumber) {
+      doc.text(`Customer ID number: ${rental.customer.idNumber}`)
+    }
+    doc.text(
+      `Rental period: ${formatDate(rental.startDate)} to ${formatDate(rental.endDate)} ` +
+        `(${rental.numberOfDays} day(s))`
+    )
+    doc.text(`Security deposit: ${formatMoney(rental.deposit)}`)
+    doc.moveDown()
+
+    drawHeading(doc, 'Items')
+    drawTable(
+      doc,
+      AGREEMENT_ITEM_COLUMNS,
+      rental.items.map((line) => [
+        line.item.serialNumber ? `${line.item.name} (${line.item.serialNumber})` : line.item.name,
+        String(line.quantity),
+      ])
+    )
+
+    drawHeading(doc, 'Terms and conditions')
+    doc.font('Helvetica').fontSize(9).text(terms, MARGIN, doc.y, { width: CONTENT_WIDTH, align: 'justify' })
+    doc.moveDown(2)
+
+    ensureSpace(doc, 130)
+    drawHeading(doc, 'Signature')
+    if (signature) {
+      doc.image(signature.image, MARGIN, doc.y, { fit: [200, 70] })
+      doc.y += 74
+    } else {
+      doc.y += 60
+    }
+    drawRule(doc)
+    doc.font('Helvetica').fontSize(9)
+    if (signature) {
+      doc.text(`Signed by ${signature.name} on ${signature.signedAt.toISOString().replace('T', ' ').slice(0, 16)} UTC`)
+      doc.text(`Witnessed by ${signature.witness}`)
+    } else {
+      doc.text('Customer signature, name and date')
+    }
+  })
+
+const LABEL_COLUMNS = 3
+const LABEL_WIDTH = CONTENT_WIDTH / LABEL_COLUMNS
+const LABEL_HEIGHT = 96
+const LABEL_PADDING = 8
+
+// One label: a QR code beside the text, or a barcode above it
+const drawLabel = (doc, label, format, x, y) => {
+  doc.lineWidth(0.5).strokeColor('#cccccc').rect(x, y, LABEL_WIDTH, LABEL_HEIGHT).stroke()
+  doc.strokeColor('black').fillColor('black')
+
+  const inner = LABEL_WIDTH - LABEL_PADDING * 2
+  let textX = x + LABEL_PADDING
+  let textY = y + LABEL_PADDING
+  let textWidth = inner
+
+  if (format === 'qrcode') {
+    const size = LABEL_HEIGHT - LABEL_PADDING * 2
+    doc.image(label.image, textX, textY, { fit: [size, size] })
+    textX += size + LABEL_PADDING
+    textWidth -= size + LABEL_PADDING
+  } else {
+    doc.image(label.image, textX, textY, { fit: [inner, 40], align: 'center' })
+    textY += 46
+  }
+
+  const options = { width: textWidth, lineBreak: false, ellipsis: true }
+  doc.font('Helvetica-Bold').fontSize(9).text(label.title, textX, textY, options)
+  if (label.subtitle) {
+    doc.font('Helvetica').fontSize(8).text(label.subtitle, textX, doc.y + 2, options)
+  }
+  doc.font('Courier').fontSize(6).fillColor('#555555').text(label.code, textX, doc.y + 2, { width: textWidth })
+  doc.fillColor('black')
+}
+
+// Sheet of item labels, filled row by row. `labels` are { code, title,
+// subtitle, image } with the code already rendered as a PNG.
+const renderLabelSheetPdf = ({ labels, format }) =>
+  renderPdf((doc) => {
+    const rowsPerPage = Math.floor((doc.page.height - MARGIN * 2) / LABEL_HEIGHT)
+    const perPage = rowsPerPage * LABEL_COLUMNS
+
+    labels.forEach((label, index) => {
+      const position = index % perPage
+      if (index > 0 && position === 0) {
+        doc.addPage()
+      }
+
+      const x = MARGIN + (position % LABEL_COLUMNS) * LABEL_WIDTH
+      const y = MARGIN + Math.floor(position / LABEL_COLUMNS) * LABEL_HEIGHT
+      drawLabel(doc, label, format, x, y)
+    })
+  })
+
+module.exports = {
+  renderInvoicePdf,
+  renderReceiptPdf,
+  renderAgreementPdf,
+  renderLabelSheetPdf,
+}
@@ -0,0 +1,260 @@
+const { createError } = require('../utils/errors')
+const { roundMoney, calculateNumberOfDays, calculateTotals } = require('./rentalFinancials')
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+const DAYS_PER_WEEK = 7
+const DAYS_PER_MONTH = 30
+
+// Filters matching records set on one of the items or on one of their categories
+const itemScope = (items) => [
+  { itemId: { in: items.map((item) => item.id) } },
+  { categoryId: { in: [...new Set(items.map((item) => item.categoryId))] } },
+]
+
+// Active seasons overlapping [start, end) for the items, their categories or everything
+const findSeasons = (db, items, { start, end }) =>
+  db.seasonalRate.findMany({
+    where: {
+      active: true,
+      startDate: { lt: end },
+      endDate: { gt: start },
+      OR: [...itemScope(items), { itemId: null, categoryId: null }],
+    },
+  })
+
+// Rate plans, seasons and the customer's group needed to price items over [start, end)
+const loadPricingContext = async (db, { itemIds, customerId, start, end }) => {
+  const items = await db.item.findMany({
+    where: { id: { in: itemIds } },
+  })
+
+  if (items.length !== new Set(itemIds).size) {
+    throw createError(404, 'Item not found')
+  }
+
+  const customer = await db.customer.findUnique({
+    where: { id: customerId },
+    include: { group: true },
+  })
+
+  if (!customer) {
+    throw createError(404, 'Customer not found')
+  }
+
+  const [ratePlans, seasons] = await Promise.all([
+    db.ratePlan.findMany({
+      where: { active: true, OR: itemScope(items) },
+      orderBy: { createdAt: 'asc' },
+    }),
+    findSeasons(db, items, { start, end }),
+  ])
+
+  return { items, customer, ratePlans, seasons }
+}
+
+// The item's own plan, else its category's
+const findRatePlan = (ratePlans, item) =>
+  ratePlans.find((plan) => plan.itemId === item.id) ||
+  ratePlans.find((plan) => !plan.itemId && plan.categoryId === item.categoryId) ||
+  null
+
+// Highest multiplier among the seasons covering `day` for this item (1 outside any season)
+const seasonMultiplier = (seasons, item, day) =>
+  seasons
+    .filter((season) =>
+      (season.itemId === null || season.itemId === item.id) &&
+      (season.categoryId === null || season.categoryId === item.categoryId) &&
+      season.startDate <= day && day < season.endDate
+    )
+    .reduce((highest, season) => Math.max(highest, season.multiplier), 0) || 1
+
+const isWeekend = (day) => [0, 6].includes(day.getUTCDay())
+
+// Price one unit over `numberOfDays` from `start`: full months, then full weeks
+// at the plan's tier rates (scaled by the average season multiplier), then the
+// remaining days at the daily rate with weekend and season multipliers
+const priceUnit = (item, plan, seasons, start, numberOfDays) => {
+  const dailyRate = plan?.dailyRate ?? item.dailyRate
+  const days = Array.from({ length: numberOfDays }, (_, index) => new Date(start.getTime() + index * MS_PER_DAY))
+  const breakdown = []
+
+  const addBlocks = (type, size, rate) => {
+    while (rate !== null && rate !== undefined && days.length >= size) {
+      const block = days.splice(0, size)
+      const multiplier = roundMoney(
+        block.reduce((sum, day) => sum + seasonMultiplier(seasons, item, day), 0) / size
+      )
+      breakdown.push({
+        type,
+        from: block[0],
+        days: size,
+        rate,
+        multiplier,
+        amount: roundMoney(rate * multiplier),
+      })
+    }
+  }
+
+  addBlocks('MONTH', DAYS_PER_MONTH, plan?.monthlyRate)
+  addBlocks('WEEK', DAYS_PER_WEEK, plan?.weeklyRate)
+
+  // Consecutive days at the same multiplier share a row
+  for (const day of days) {
+    const weekend = isWeekend(day) ? (plan?.weekendMultiplier ?? 1) : 1
+    const multiplier = roundMoney(weekend * seasonMultiplier(seasons, item, day))
+    const last = breakdown[breakdown.length - 1]
+
+    if (last && last.type === 'DAY' && last.multiplier === multiplier) {
+      last.days += 1
+      last.amount = roundMoney(last.amount + dailyRate * multiplier)
+    } else {
+      breakdown.push({
+        type: 'DAY',
+        from: day,
+        days: 1,
+        rate: dailyRate,
+        multiplier,
+        amount: roundMoney(dailyRate * multiplier),
+      })
+    }
+  }
+
+  return {
+    dailyRate,
+    breakdown,
+    amount: roundMoney(breakdown.reduce((sum, row) => sum + row.amount, 0)),
+  }
+}
+
+// Price a requested line. `dailyRate` on the line is a flat override that skips
+// rate plans, seasons and group discounts (callers decide who may send one).
+const priceLine = (context, line, { start, numberOfDays, allowRateOverride = false }) => {
+  const item = context.items.find((entry) => entry.id === line.itemId)
+  const quantity = line.quantity ? parseInt(line.quantity) : 1
+  const manualDiscount = parseFloat(line.discount || 0)
+  const override = allowRateOverride && line.dailyRate !== undefined && line.dailyRate !== null
+
+  let dailyRate
+  let unit
+  let plan = null
+  if (override) {
+    dailyRate = parseFloat(line.dailyRate)
+    const amount = roundMoney(dailyRate * numberOfDays)
+    unit = {
+      breakdown: [{ type: 'DAY', from: start, days: numberOfDays, rate: dailyRate, multiplier: 1, amount }],
+      amount,
+    }
+  } else {
+    plan = findRatePlan(context.ratePlans, item)
+    unit = priceUnit(item, plan, context.seasons, start, numberOfDays)
+    dailyRate = unit.dailyRate
+  }
+
+  const grossAmount = roundMoney(unit.amount * quantity)
+  const group = override ? null : context.customer.group
+  const groupDiscount = group ? roundMoney(grossAmount * group.discountPercent / 100) : 0
+  const discount = roundMoney(manualDiscount + groupDiscount)
+
+  return {
+    itemId: item.id,
+    quantity,
+    dailyRate,
+    discount,
+    subtotal: roundMoney(grossAmount - discount),
+    pricing: {
+      rateOverride: override,
+      ratePlanId: plan?.id || null,
+      ratePlanName: plan?.name || null,
+      ratePlanRates: plan && {
+        weeklyRate: plan.weeklyRate,
+        monthlyRate: plan.monthlyRate,
+        weekendMultiplier: plan.weekendMultiplier,
+      },
+      unitPrice: unit.amount,
+      breakdown: unit.breakdown,
+      grossAmount,
+      manualDiscount,
+      customerGroup: group?.name || null,
+      groupDiscountPercent: group?.discountPercent || 0,
+      groupDiscount,
+    },
+  }
+}
+
+// Pricing context for re-pricing a booked rental's lines over [startDate, end):
+// the seasons, and the rate plans the lines were booked on (active or not) for
+// lines priced before their plan's rates were kept in the pricing snapshot
+const loadRentalPricingContext = async (db, rental, end = rental.endDate) => {
+  const items = await db.item.findMany({
+    where: { id: { in: rental.items.map((line) => line.itemId) } },
+  })
+  const ratePlanIds = rental.items
+    .filter((line) => line.pricing?.ratePlanId && !line.pricing.ratePlanRates)
+    .map((line) => line.pricing.ratePlanId)
+
+  const [ratePlans, seasons] = await Promise.all([
+    ratePlanIds.length > 0 ? db.ratePlan.findMany({ where: { id: { in: ratePlanIds } } }) : [],
+    findSeasons(db, items, { start: rental.startDate, end }),
+  ])
+
+  return { items, ratePlans, seasons }
+}
+
+// The plan a line was booked on, at the rates it was booked at: the line's
+// daily rate with the tier rates from its pricing snapshot. Lines booked
+// without a plan (or before the pricing engine) keep their daily rate only.
+const bookedRatePlan = (context, line) => {
+  const { ratePlanId, ratePlanRates } = line.pricing || {}
+  const plan = ratePlanRates || (ratePlanId && context.ratePlans.find((entry) => entry.id === ratePlanId))
+
+  return { ...plan, dailyRate: line.dailyRate }
+}
+
+// Price `units` of a booked line kept `toDays` instead of `fromDays` (negative
+// when shortened): the difference between the two periods from priceUnit at
+// the rate plan and group discount the line was booked with, so later changes
+// to plans or to the customer's group do not re-price it. Seasons are read
+// for the dates priced. Lines booked at an override rate stay at that flat rate.
+const priceLineDays = (context, line, units, { start, fromDays, toDays }) => {
+  if (line.pricing?.rateOverride) {
+    return roundMoney(line.dailyRate * units * (toDays - fromDays))
+  }
+
+  const item = context.items.find((entry) => entry.id === line.itemId)
+  const plan = bookedRatePlan(context, line)
+  const unitAmount =
+    priceUnit(item, plan, context.seasons, start, toDays).amount -
+    priceUnit(item, plan, context.seasons, start, fromDays).amount
+
+  const grossAmount = roundMoney(unitAmount * units)
+  const groupDiscount = roundMoney(grossAmount * (line.pricing?.groupDiscountPercent || 0) / 100)
+
+  return roundMoney(grossAmount - groupDiscount)
+}
+
+// Price a whole order; the result feeds rental creation, quotes and re-pricing
+const priceRental = async (db, { customerId, items, start, end, discount = 0, allowRateOverride = false }) => {
+  const context = await loadPricingContext(db, {
+    itemIds: items.map((line) => line.itemId),
+    customerId,
+    start,
+    end,
+  })
+
+  const numberOfDays = calculateNumberOfDays(start, end)
+  const lines = items.map((line) => priceLine(context, line, { start, numberOfDays, allowRateOverride }))
+  const totals = calculateTotals({ lines, discount: parseFloat(discount) })
+
+  return { context, numberOfDays, lines, totals }
+}
+
+module.exports = {
+  loadPricingContext,
+  findRatePlan,
+  seasonMultiplier,
+  priceUnit,
+  priceLine,
+  priceRental,
+  loadRentalPricingContext,
+  priceLineDays,
+}
@@ -0,0 +1,244 @@
+const config = require('../config')
+const { createError } = require('../utils/errors')
+const { HOLDING_QUOTE_STATUSES, assertItemAvailable, lockItems } = require('./availability')
+const { calculateTotals } = require('./rentalFinancials')
+const { priceRental } = require('./pricing')
+const { postRentalCharges } = require('./ledger')
+const { assertNotDueForService } = require('./maintenancePlans')
+
+const DAY = 1000 * 60 * 60 * 24
+
+// Every status change a quote can go through. Sending again re-sends the quote.
+const TRANSITIONS = {
+  send: { label: 'send', from: ['DRAFT', 'SENT'], to: 'SENT' },
+  accept: { label: 'accept', from: ['DRAFT', 'SENT'], to: 'ACCEPTED' },
+  decline: { label: 'decline', from: ['DRAFT', 'SENT', 'ACCEPTED'], to: 'DECLINED' },
+  convert: { label: 'convert', from: ['DRAFT', 'SENT', 'ACCEPTED'], to: 'CONVERTED' },
+}
+
+const canTransition = (status, action) => TRANSITIONS[action].from.includes(status)
+
+// Actions available on a quote, for clients deciding which buttons to show
+const getAllowedQuoteActions = (quote, now = new Date()) =>
+  quote.expiresAt <= now
+    ? []
+    : Object.keys(TRANSITIONS).filter((action) => canTransition(quote.status, action))
+
+// A quote past its expiry is dead even if the expiry job hasn't marked it yet
+const assertTransition = (quote, action, now) => {
+  if (!canTransition(quote.status, action)) {
+    throw createError(409, `Cannot ${TRANSITIONS[action].label} a ${quote.status.toLowerCase()} quote`)
+  }
+  if (quote.expiresAt <= now) {
+    throw createError(409, `Quote expired on ${quote.expiresAt.toISOString().slice(0, 10)}`)
+  }
+}
+
+// Lock the quote row so concurrent actions on it run one at a time, then load it
+const loadQuoteForUpdate = async (tx, id) => {
+  await tx.$queryRaw`SELECT "id" FROM "Quote" WHERE "id" = ${id} FOR UPDATE`
+
+  const quote = await tx.quote.findUnique({
+    where: { id },
+    include: { customer: true, items: { include: { item: true } } },
+  })
+
+  if (!quote) {
+    throw createError(404, 'Quote not found')
+  }
+
+  return quote
+}
+
+const defaultExpiry = (now) => new Date(now.getTime() + config.quotes.validityDays * DAY)
+
+// Price an order through the pricing engine and save it as a DRAFT quote.
+// With holdStock the quoted units are checked and then held until expiry.
+const createQuote = async (tx, {
+  customerId,
+  userId,
+  items,
+  start,
+  end,
+  deposit = 0,
+  discount = 0,
+  notes,
+  expiresAt,
+  holdStock = true,
+  allowRateOverride = false,
+  now = new Date(),
+}) => {
+  const expiry = expiresAt ? new Date(expiresAt) : defaultExpiry(now)
+  if (isNaN(expiry.getTime()) || expiry <= now) {
+    throw createError(400, 'Expiry date must be in the future')
+  }
+
+  const { numberOfDays, lines, totals } = await priceRental(tx, {
+    customerId,
+    items,
+    start,
+    end,
+    discount,
+    allowRateOverride,
+  })
+
+  if (holdStock) {
+    await lockItems(tx, lines.map((line) => line.itemId))
+    for (const line of lines) {
+      await assertItemAvailable(tx, line.itemId, start, end, line.quantity, { now })
+    }
+  }
+
+  return tx.quote.create({
+    data: {
+      customerId,
+      userId,
+      startDate: start,
+      endDate: end,
+      expiresAt: expiry,
+      holdStock: Boolean(holdStock),
+      notes,
+      numberOfDays,
+      subtotal: totals.subtotal,
+      deposit: parseFloat(deposit),
+      discount: parseFloat(discount),
+      totalAmount: totals.totalAmount,
+      items: {
+        create: lines,
+      },
+    },
+  })
+}
+
+const formatDate = (date) => date.toISOString().slice(0, 10)
+
+// DRAFT / SENT → SENT, queueing the quote to the customer
+const sendQuote = async (tx, id, { now = new Date() } = {}) => {
+  const quote = await loadQuoteForUpdate(tx, id)
+  assertTransition(quote, 'send', now)
+
+  const lines = quote.items
+    .map((line) => `${line.quantity} × ${line.item.name}: ${line.subtotal.toFixed(2)}`)
+    .join('\n')
+
+  await tx.notification.create({
+    data: {
+      type: 'QUOTE',
+      recipient: quote.customer.email,
+      customerId: quote.customerId,
+      quoteId: id,
+      subject: 'Your rental quote',
+      body: `Hi ${quote.customer.name}, here is your quote for ${formatDate(quote.startDate)} ` +
+        `to ${formatDate(quote.endDate)}:\n${lines}\n` +
+        `Total: ${quote.totalAmount.toFixed(2)}` +
+        (quote.deposit > 0 ? ` (plus a ${quote.deposit.toFixed(2)} refundable deposit)` : '') +
+        `\nThis quote is valid until ${formatDate(quote.expiresAt)}.`,
+      scheduledFor: now,
+    },
+  })
+
+  await tx.quote.update({
+    where: { id },
+    data: { status: TRANSITIONS.send.to, sentAt: now },
+  })
+}
+
+// DRAFT / SENT → ACCEPTED
+const acceptQuote = async (tx, id, { now = new Date() } = {}) => {
+  const quote = await loadQuoteForUpdate(tx, id)
+  assertTransition(quote, 'accept', now)
+
+  await tx.quote.update({
+    where: { id },
+    data: { status: TRANSITIONS.accept.to, acceptedAt: now },
+  })
+}
+
+// DRAFT / SENT / ACCEPTED → DECLINED, releasing any held stock
+const declineQuote = async (tx, id, { now = new Date() } = {}) => {
+  const quote = await loadQuoteForUpdate(tx, id)
+  assertTransition(quote, 'decline', now)
+
+  await tx.quote.update({
+    where: { id },
+    data: { status: TRANSITIONS.decline.to },
+  })
+}
+
+// Turn a live quote into a CONFIRMED rental at the quoted prices. Stock is
+// checked again (ignoring the quote's own hold), since a quote that didn't
+// hold stock may have been overtaken by other bookings. Items that have come
+// due for service since the quote was made are refused.
+const convertQuote = async (tx, id, { userId, now = new Date() }) => {
+  const quote = await loadQuoteForUpdate(tx, id)
+  assertTransition(quote, 'convert', now)
+
+  await lockItems(tx, quote.items.map((line) => line.itemId))
+  await assertNotDueForService(tx, quote.items.map((line) => line.itemId), now)
+  for (const line of quote.items) {
+    await assertItemAvailable(tx, line.itemId, quote.startDate, quote.endDate, line.quantity, {
+      excludeQuoteId: id,
+      now,
+    })
+  }
+
+  const lines = quote.items.map((line) => ({
+    itemId: line.itemId,
+    quantity: line.quantity,
+    dailyRate: line.dailyRate,
+    discount: line.discount,
+    subtotal: line.subtotal,
+    pricing: line.pricing,
+  }))
+
+  const rental = await tx.rental.create({
+    data: {
+      customerId: quote.customerId,
+      userId,
+      startDate: quote.startDate,
+      endDate: quote.endDate,
+      status: 'CONFIRMED',
+      notes: quote.notes,
+      numberOfDays: quote.numberOfDays,
+      deposit: quote.deposit,
+      discount: quote.discount,
+      amountPaid: 0,
+      ...calculateTotals({ lines, discount: quote.discount }),
+      items: {
+        create: lines,
+      },
+    },
+  })
+
+  await tx.quote.update({
+    where: { id },
+    data: { status: TRANSITIONS.convert.to, rentalId: rental.id },
+  })
+
+  await postRentalCharges(tx, rental.id, { now })
+
+  return rental
+}
+
+// Mark live quotes past their expiry as EXPIRED; returns how many were expired
+const expireQuotes = async (db, { now = new Date() } = {}) => {
+  const { count } = await db.quote.updateMany({
+    where: {
+      status: { in: HOLDING_QUOTE_STATUSES },
+      expiresAt: { lte: now },
+    },
+    data: { status: 'EXPIRED' },
+  })
+
+  return count
+}
+
+module.exports = {
+  getAllowedQuoteActions,
+  createQuote,
+  sendQuote,
+  acceptQuote,
+  declineQuote,
+  convertQuote,
+  expireQuotes,
+}
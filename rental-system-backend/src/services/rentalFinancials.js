@@ -0,0 +1,81 @@
+const { postRentalCharges } = require('./ledger')
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// Round to cents to keep Float sums from drifting
+const roundMoney = (amount) => Math.round(amount * 100) / 100
+
+// Billable days between two dates (partial days count as a full day)
+const calculateNumberOfDays = (start, end) => Math.ceil((end - start) / MS_PER_DAY)
+
+const getPaymentStatus = (amountPaid, totalAmount) => {
+  if (amountPaid > 0 && amountPaid >= totalAmount) return 'PAID'
+  if (amountPaid > 0) return 'PARTIAL'
+  return 'UNPAID'
+}
+
+// Order-level totals from line subtotals and adjustment charges. The deposit is
+// tracked separately (see services/deposits) and is never part of the total.
+const calculateTotals = ({ lines, adjustments = [], discount = 0, amountPaid = 0 }) => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.subtotal, 0))
+  const adjustmentTotal = adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)
+  const totalAmount = roundMoney(subtotal + adjustmentTotal - discount)
+
+  return {
+    subtotal,
+    totalAmount,
+    amountDue: roundMoney(totalAmount - amountPaid),
+    paymentStatus: getPaymentStatus(amountPaid, totalAmount),
+  }
+}
+
+// Recompute a rental's derived financial fields from its lines, adjustments and payments,
+// and post any change in its charges to the ledger. A cancelled rental only owes its
+// adjustments (the cancellation fee); once money has gone back to the customer
+// (negative payments) and nothing is due, it is REFUNDED.
+const recalculateRental = async (tx, rentalId) => {
+  const rental = await tx.rental.findUnique({
+    where: { id: rentalId },
+    include: { items: true, adjustments: true },
+  })
+
+  const [payments, refunds] = await Promise.all([
+    tx.payment.aggregate({
+      where: { rentalId },
+      _sum: { amount: true },
+    }),
+    tx.payment.count({
+      where: { rentalId, amount: { lt: 0 } },
+    }),
+  ])
+
+  const cancelled = rental.status === 'CANCELLED'
+  const amountPaid = roundMoney(payments._sum.amount || 0)
+  const totals = calculateTotals({
+    lines: cancelled ? [] : rental.items,
+    adjustments: rental.adjustments,
+    discount: cancelled ? 0 : rental.discount,
+    amountPaid,
+  })
+
+  if (cancelled && refunds > 0 && totals.amountDue <= 0) {
+    totals.paymentStatus = 'REFUNDED'
+  }
+
+  const updated = await tx.rental.update({
+    where: { id: rentalId },
+    data: { ...totals, amountPaid },
+  })
+
+  await postRentalCharges(tx, rentalId)
+
+  return updated
+}
+
+module.exports = {
+  roundMoney,
+  calculateNumberOfDays,
+  getPaymentStatus,
+  calculateTotals,
+  recalculateRental,
+}
@@ -0,0 +1,413 @@
+const { createError } = require('../utils/errors')
+const { assertItemAvailable, lockItems, syncItemStatus } = require('./availability')
+const config = require('../config')
+const { roundMoney, calculateNumberOfDays, recalculateRental } = require('./rentalFinancials')
+const { loadRentalPricingContext, priceLineDays } = require('./pricing')
+const { checkOutUnits, returnUnits } = require('./units')
+const { loadLateFeeRules, settleLineLateFee, refreshAccruingLateFee } = require('./lateFees')
+const { openMaintenance } = require('./maintenance')
+const { loadCancellationTiers, calculateCancellationFee } = require('./cancellationFees')
+const { creditEarlyReturn } = require('./earlyReturns')
+const { postPayment } = require('./ledger')
+const { inspectionKey, recordInspections, recordReturnInspections } = require('./inspections')
+
+// Every status change a rental can go through. `to` is omitted for actions
+// that keep the current status (extend) or only sometimes change it (return).
+const TRANSITIONS = {
+  confirm: { label: 'confirm', from: ['PENDING'], to: 'CONFIRMED' },
+  checkout: { label: 'check out', from: ['PENDING', 'CONFIRMED'], to: 'ACTIVE' },
+  extend: { label: 'extend', from: ['PENDING', 'CONFIRMED', 'ACTIVE', 'OVERDUE'] },
+  return: { label: 'return', from: ['ACTIVE', 'OVERDUE'] },
+  cancel: { label: 'cancel', from: ['PENDING', 'CONFIRMED'], to: 'CANCELLED' },
+  markOverdue: { label: 'mark overdue', from: ['ACTIVE'], to: 'OVERDUE' },
+}
+
+const canTransition = (status, action) => TRANSITIONS[action].from.includes(status)
+
+// Actions available from a status, for clients deciding which buttons to show
+const getAllowedActions = (status) =>
+  Object.keys(TRANSITIONS).filter((action) => canTransition(status, action))
+
+const assertTransition = (rental, action) => {
+  if (!canTransition(rental.status, action)) {
+    throw createError(409, `Cannot ${TRANSITIONS[action].label} a ${rental.status.toLowerCase()} rental`)
+  }
+}
+
+// Lock the rental row so concurrent transitions on it run one at a time, then
+// load it with its lines
+const loadRentalForUpdate = async (tx, id) => {
+  await tx.$queryRaw`SELECT "id" FROM "Rental" WHERE "id" = ${id} FOR UPDATE`
+
+  const rental = await tx.rental.findUnique({
+    where: { id },
+    include: { items: { include: { item: true } } },
+  })
+
+  if (!rental) {
+    throw createError(404, 'Rental not found')
+  }
+
+  return rental
+}
+
+const syncLineItems = async (tx, rental) => {
+  for (const line of rental.items) {
+    await syncItemStatus(tx, line.itemId)
+  }
+}
+
+// PENDING → CONFIRMED
+const confirmRental = async (tx, id) => {
+  const rental = await loadRentalForUpdate(tx, id)
+  assertTransition(rental, 'confirm')
+
+  await tx.rental.update({
+    where: { id },
+    data: { status: TRANSITIONS.confirm.to },
+  })
+}
+
+// PENDING / CONFIRMED → ACTIVE, recording the exact units that leave for
+// serialized items and any check-out inspections
+const checkOutRental = async (tx, id, { items = [], inspections = [], userId } = {}) => {
+  const rental = await loadRentalForUpdate(tx, id)
+  assertTransition(rental, 'checkout')
+
+  if (config.agreements.requiredForCheckout) {
+    const agreement = await tx.rentalAgreement.findUnique({ where: { rentalId: id } })
+    if (!agreement) {
+      throw createError(409, 'The rental agreement must be signed before check-out')
+    }
+  }
+
+  for (const line of rental.items) {
+    const entry = items.find((selection) => selection.rentalItemId === line.id)
+    await checkOutUnits(tx, line, line.item, entry?.unitIds)
+  }
+
+  await recordInspections(tx, rental, 'CHECKOUT', inspections, { userId })
+
+  await tx.rental.update({
+    where: { id },
+    data: { status: TRANSITIONS.checkout.to },
+  })
+
+  await syncLineItems(tx, rental)
+}
+
+// Move the end date out, provided the units still out are free for the extra days.
+// The extra days are priced by the pricing engine as if booked that long and
+// charged as an EXTENSION adjustment (the original lines keep their subtotals)
+// and recorded as a RentalExtension. An OVERDUE rental extended
+// past now goes back to ACTIVE.
+const extendRental = async (tx, id, { endDate, userId, now = new Date() }) => {
+  const rental = await loadRentalForUpdate(tx, id)
+  assertTransition(rental, 'extend')
+
+  const end = new Date(endDate)
+  if (isNaN(end.getTime()) || end <= rental.endDate) {
+    throw createError(400, 'New end date must be after the current end date')
+  }
+
+  await lockItems(tx, rental.items.map((line) => line.itemId))
+  for (const line of rental.items) {
+    const units = line.quantity - line.returnedQuantity
+    if (units === 0) continue
+
+    await assertItemAvailable(tx, line.itemId, rental.startDate, end, units, {
+      excludeRentalId: id,
+    })
+  }
+
+  const numberOfDays = calculateNumberOfDays(rental.startDate, end)
+  const extraDays = numberOfDays - rental.numberOfDays
+  const context = await loadRentalPricingContext(tx, rental, end)
+  const amount = roundMoney(rental.items.reduce(
+    (sum, line) =>
+      sum + priceLineDays(context, line, line.quantity - line.returnedQuantity, {
+        start: rental.startDate,
+        fromDays: rental.numberOfDays,
+        toDays: numberOfDays,
+      }),
+    0
+  ))
+  const period = `${rental.endDate.toISOString().slice(0, 10)} → ${end.toISOString().slice(0, 10)}`
+
+  let adjustment = null
+  if (amount > 0) {
+    adjustment = await tx.rentalAdjustment.create({
+      data: {
+        rentalId: id,
+        type: 'EXTENSION',
+        description: `Extension ${period}: ${extraDays} day(s)`,
+        amount,
+      },
+    })
+  }
+
+  await tx.rentalExtension.create({
+    data: {
+      rentalId: id,
+      userId,
+      adjustmentId: adjustment?.id,
+      previousEndDate: rental.endDate,
+      newEndDate: end,
+      extraDays,
+      amount,
+    },
+  })
+
+  await tx.rental.update({
+    where: { id },
+    data: {
+      endDate: end,
+      numberOfDays,
+      ...(rental.status === 'OVERDUE' && end > now && { status: 'ACTIVE' }),
+    },
+  })
+
+  await refreshAccruingLateFee(tx, id, now)
+  await recalculateRental(tx, id)
+}
+
+// Bring units back (everything still out, or a partial return per line),
+// charging late fees and any damage found at the counter, and recording return
+// inspections. ACTIVE / OVERDUE → COMPLETED once every line is fully back.
+const returnRental = async (tx, id, { items, damages = [], inspections = [], userId, now = new Date() } = {}) => {
+  const rental = await loadRentalForUpdate(tx, id)
+  assertTransition(rental, 'return')
+
+  // Units coming back per line; default to everything still out.
+  // Serialized lines name the units (and their condition) in `units`.
+  const returns = Array.isArray(items) && items.length > 0
+    ? items
+    : rental.items
+        .filter((line) => line.returnedQuantity < line.quantity)
+        .map((line) => ({ rentalItemId: line.id }))
+
+  const lateFeeRules = await loadLateFeeRules(tx)
+
+  for (const entry of returns) {
+    const line = rental.items.find((rentalItem) => rentalItem.id === entry.rentalItemId)
+    if (!line) {
+      throw createError(400, 'Rental line not found')
+    }
+
+    const outstanding = line.quantity - line.returnedQuantity
+    let quantity = outstanding
+    if (entry.units) {
+      quantity = entry.units.length
+    } else if (entry.quantity !== undefined) {
+      quantity = parseInt(entry.quantity)
+    }
+
+    if (!(quantity >= 1) || quantity > outstanding) {
+      throw createError(400, `Return quantity must be between 1 and ${outstanding}`)
+    }
+
+    if (line.item.tracking === 'SERIALIZED') {
+      const unitsOut = await tx.rentalItemUnit.count({
+        where: { rentalItemId: line.id, returnedAt: null },
+      })
+
+      if (unitsOut > 0) {
+        if (!entry.units && quantity !== outstanding) {
+          throw createError(400, `Specify which units of ${line.item.name} are being returned`)
+        }
+        await returnUnits(tx, line.id, entry.units, now)
+      }
+    }
+
+    await settleLineLateFee(tx, rental, line, quantity, now, lateFeeRules)
+    await creditEarlyReturn(tx, rental, line, quantity, now)
+
+    line.returnedQuantity += quantity
+    await tx.rentalItem.update({
+      where: { id: line.id },
+      data: {
+        returnedQuantity: line.returnedQuantity,
+        ...(line.returnedQuantity === line.quantity && { returnDate: now }),
+      },
+    })
+  }
+
+  // The order completes once every line is fully back. When early returns are
+  // credited, numberOfDays is cut to the days actually used.
+  const allReturned = rental.items.every((line) => line.returnedQuantity === line.quantity)
+  if (allReturned) {
+    const usedDays = Math.max(calculateNumberOfDays(rental.startDate, now), 1)
+
+    await tx.rental.update({
+      where: { id },
+      data: {
+        returnDate: now,
+        status: 'COMPLETED',
+        ...(config.earlyReturns.policy === 'CREDIT' && usedDays < rental.numberOfDays && {
+          numberOfDays: usedDays,
+        }),
+      },
+    })
+  }
+
+  // Damage charges, optionally opening a maintenance ticket for the item or unit
+  const tickets = new Map()
+  for (const damage of damages) {
+    const line = rental.items.find((rentalItem) => rentalItem.id === damage.rentalItemId)
+    if (!line) {
+      throw createError(400, 'Rental line not found')
+    }
+
+    const amount = parseFloat(damage.amount || 0)
+    if (!damage.description || isNaN(amount) || amount < 0) {
+      throw createError(400, 'Damage requires a description and a non-negative amount')
+    }
+
+    if (damage.unitId) {
+      const assigned = await tx.rentalItemUnit.count({
+        where: { rentalItemId: line.id, unitId: damage.unitId },
+      })
+      if (assigned === 0) {
+        throw createError(400, 'Unit is not on this rental line')
+      }
+    }
+
+    let maintenance = null
+    if (damage.createMaintenance) {
+      maintenance = await openMaintenance(tx, {
+        itemId: line.itemId,
+        unitId: damage.unitId,
+        description: `Damage reported at return: ${damage.description}`,
+      })
+      tickets.set(inspectionKey(line.id, damage.unitId), maintenance)
+    }
+
+    await tx.rentalAdjustment.create({
+      data: {
+        rentalId: id,
+        rentalItemId: line.id,
+        maintenanceId: maintenance?.id,
+        type: 'DAMAGE',
+        description: `Damage: ${line.item.name} - ${damage.description}`,
+        amount,
+      },
+    })
+  }
+
+  // Anything that came back worse than it left gets a maintenance ticket,
+  // unless a damage above already opened one
+  await recordReturnInspections(tx, rental, inspections, { userId, tickets })
+
+  // Re-price the late fee for anything still out, then recompute totals
+  await refreshAccruingLateFee(tx, id, now, lateFeeRules)
+  await recalculateRental(tx, id)
+
+  await syncLineItems(tx, rental)
+}
+
+// Pay back what the customer paid beyond what a cancelled rental still owes,
+// as a negative payment in the method they paid with (unless one is given)
+const refundOverpayment = async (tx, rental, { refundMethod, reason }) => {
+  const overpaid = roundMoney(rental.amountPaid - rental.totalAmount)
+  if (overpaid <= 0) {
+    return null
+  }
+
+  let paymentMethod = refundMethod
+  if (!paymentMethod) {
+    const lastPayment = await tx.payment.findFirst({
+      where: { rentalId: rental.id, amount: { gt: 0 }, paymentMethod: { not: 'DEPOSIT' } },
+      orderBy: { paymentDate: 'desc' },
+    })
+    paymentMethod = lastPayment?.paymentMethod
+  }
+
+  if (!paymentMethod || paymentMethod === 'DEPOSIT') {
+    throw createError(400, 'A refund method is required')
+  }
+
+  const refund = await tx.payment.create({
+    data: {
+      rentalId: rental.id,
+      type: 'REFUND',
+      amount: -overpaid,
+      paymentMethod,
+      reason: `Refund on cancellation: ${reason}`,
+    },
+  })
+
+  await postPayment(tx, refund)
+
+  return refund
+}
+
+// PENDING / CONFIRMED → CANCELLED. The booking stops counting against
+// availability, the matching cancellation fee tier is charged and anything
+// paid beyond the fee is refunded.
+const cancelRental = async (tx, id, { reason, refundMethod, now = new Date() }) => {
+  const rental = await loadRentalForUpdate(tx, id)
+  assertTransition(rental, 'cancel')
+
+  if (!reason) {
+    throw createError(400, 'A cancellation reason is required')
+  }
+
+  const tiers = await loadCancellationTiers(tx)
+  const { tier, amount } = calculateCancellationFee(rental, tiers, now)
+
+  await tx.rental.update({
+    where: { id },
+    data: {
+      status: TRANSITIONS.cancel.to,
+      cancelledAt: now,
+      cancelReason: reason,
+    },
+  })
+
+  if (amount > 0) {
+    await tx.rentalAdjustment.create({
+      data: {
+        rentalId: id,
+        type: 'CANCELLATION_FEE',
+        description: `Cancellation fee (${tier.name})`,
+        amount,
+      },
+    })
+  }
+
+  const recalculated = await recalculateRental(tx, id)
+  if (await refundOverpayment(tx, recalculated, { refundMethod, reason })) {
+    await recalculateRental(tx, id)
+  }
+
+  await syncLineItems(tx, rental)
+}
+
+// ACTIVE → OVERDUE once the end date has passed
+const markRentalOverdue = async (tx, id, { now = new Date() } = {}) => {
+  const rental = await loadRentalForUpdate(tx, id)
+  assertTransition(rental, 'markOverdue')
+
+  if (rental.endDate >= now) {
+    throw createError(409, 'Rental is not past its end date')
+  }
+
+  await tx.rental.update({
+    where: { id },
+    data: { status: TRANSITIONS.markOverdue.to },
+  })
+
+  await refreshAccruingLateFee(tx, id, now)
+}
+
+module.exports = {
+  TRANSITIONS,
+  canTransition,
+  getAllowedActions,
+  confirmRental,
+  checkOutRental,
+  extendRental,
+  returnRental,
+  cancelRental,
+  markRentalOverdue,
+}
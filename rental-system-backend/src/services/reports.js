@@ -0,0 +1,517 @@
+const config = require('../config')
+const { createError } = require('../utils/errors')
+const { roundMoney } = require('./rentalFinancials')
+
+const DAY = 1000 * 60 * 60 * 24
+
+// Aging buckets by days past a rental's end date. `max` is inclusive.
+const AGING_BUCKETS = [
+  { key: 'current', label: 'Current', max: 0 },
+  { key: 'days1to30', label: '1–30 days', max: 30 },
+  { key: 'days31to60', label: '31–60 days', max: 60 },
+  { key: 'days61to90', label: '61–90 days', max: 90 },
+  { key: 'over90', label: '90+ days', max: Infinity },
+]
+
+const emptyBuckets = () => ({
+  ...Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket.key, 0])),
+  total: 0,
+})
+
+const addToBuckets = (buckets, key, amount) => {
+  buckets[key] = roundMoney(buckets[key] + amount)
+  buckets.total = roundMoney(buckets.total + amount)
+}
+
+// Whole days a rental is past its end date as of `asOf`; 0 while still running
+const daysPastDue = (endDate, asOf) => Math.max(Math.floor((asOf - endDate) / DAY), 0)
+
+const bucketFor = (days) => AGING_BUCKETS.find((bucket) => days <= bucket.max).key
+
+// Everything customers owe as of `asOf`, grouped by customer and bucketed by
+// how long each rental has been past its end date. Customers owing the most
+// come first, each with the rentals that make up their balance.
+const getReceivablesAging = async (db, { asOf = new Date(), customerId } = {}) => {
+  const rentals = await db.rental.findMany({
+    where: {
+      amountDue: { gt: 0 },
+      ...(customerId && { customerId }),
+    },
+    include: {
+      customer: { select: { id: true, name: true, email: true, phone: true } },
+    },
+    orderBy: { endDate: 'asc' },
+  })
+
+  const totals = emptyBuckets()
+  const customers = new Map()
+
+  for (const rental of rentals) {
+    const days = daysPastDue(rental.endDate, asOf)
+    const bucket = bucketFor(days)
+
+    if (!customers.has(rental.customerId)) {
+      customers.set(rental.customerId, { customer: rental.customer, ...emptyBuckets(), rentals: [] })
+    }
+    const entry = customers.get(rental.customerId)
+
+    entry.rentals.push({
+      id: rental.id,
+      status: rental.status,
+      startDate: rental.startDate,
+      endDate: rental.endDate,
+      totalAmount: rental.totalAmount,
+      amountPaid: rental.amountPaid,
+      amountDue: rental.amountDue,
+      daysPastDue: days,
+      bucket,
+    })
+    addToBuckets(entry, bucket, rental.amountDue)
+    addToBuckets(totals, bucket, rental.amountDue)
+  }
+
+  return {
+    asOf,
+    buckets: AGING_BUCKETS.map(({ key, label }) => ({ key, label })),
+    totals,
+    customers: [...customers.values()].sort((a, b) => b.total - a.total),
+  }
+}
+
+// Period lengths for revenue reports, as PostgreSQL intervals
+const GRANULARITIES = {
+  day: '1 day',
+  week: '1 week',
+  month: '1 month',
+  quarter: '3 months',
+  year: '1 year',
+}
+
+// How many periods a report covers when no start date is given
+const DEFAULT_PERIODS = { day: 30, week: 12, month: 12, quarter: 8, year: 5 }
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const isTimeZone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+// Calendar dates are handled as UTC midnights so day arithmetic ignores DST
+const parseDay = (value) => new Date(`${value}T00:00:00Z`)
+const formatDay = (date) => date.toISOString().slice(0, 10)
+
+const addDays = (day, days) => {
+  const date = parseDay(day)
+  date.setUTCDate(date.getUTCDate() + days)
+  return formatDay(date)
+}
+
+const addMonths = (day, months) => {
+  const date = parseDay(day)
+  date.setUTCMonth(date.getUTCMonth() + months)
+  return formatDay(date)
+}
+
+// Today's date where the business is
+const localToday = (timezone, now) =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now)
+
+// First day of the period DEFAULT_PERIODS back from `endDate`, so the
+// default range is made of whole periods
+const defaultStartDate = (granularity, endDate) => {
+  const count = DEFAULT_PERIODS[granularity] - 1
+  const [year, month] = endDate.split('-').map(Number)
+
+  switch (granularity) {
+    case 'day':
+      return addDays(endDate, -count)
+    case 'week': {
+      const weekday = (parseDay(endDate).getUTCDay() + 6) % 7 // Weeks start on Monday
+      return addDays(endDate, -weekday - count * 7)
+    }
+    case 'month':
+      return addMonths(`${endDate.slice(0, 7)}-01`, -count)
+    case 'quarter': {
+      const quarterStart = `${year}-${String(month - ((month - 1) % 3)).padStart(2, '0')}-01`
+      return addMonths(quarterStart, -count * 3)
+    }
+    case 'year':
+      return `${year - count}-01-01`
+  }
+}
+
+// Validate report options. Dates are calendar days (YYYY-MM-DD) in the
+// report's time zone, both inclusive.
+const parseRevenueOptions = (query, now = new Date()) => {
+  const { granularity = 'month', timezone, startDate, endDate, compare } = query
+
+  if (!GRANULARITIES[granularity]) {
+    throw createError(400, `Granularity must be one of ${Object.keys(GRANULARITIES).join(', ')}`)
+  }
+
+  const zone = timezone || config.reports.timezone
+  if (!isTimeZone(zone)) {
+    throw createError(400, `Unknown time zone ${zone}`)
+  }
+
+  for (const [name, value] of Object.entries({ startDate, endDate })) {
+    if (value && (!DATE_PATTERN.test(value) || isNaN(parseDay(value).getTime()))) {
+      throw createError(400, `${name} must be a date (YYYY-MM-DD)`)
+    }
+  }
+
+  const end = endDate || localToday(zone, now)
+  const start = startDate || defaultStartDate(granularity, end)
+  if (start > end) {
+    throw createError(400, 'startDate must not be after endDate')
+  }
+
+  if (compare && !['previous', 'year'].includes(compare)) {
+    throw createError(400, 'compare must be previous or year')
+  }
+
+  return { granularity, timezone: zone, startDate: start, endDate: end, compare }
+}
+
+// The range compared against: the same dates a year earlier, or the same
+// length just before. A range of whole months is compared with the same
+// number of whole months, so September–October is compared with July–August.
+const comparisonRange = ({ startDate, endDate, compare }) => {
+  if (compare === 'year') {
+    return { startDate: addMonths(startDate, -12), endDate: addMonths(endDate, -12) }
+  }
+
+  const nextDay = addDays(endDate, 1)
+  if (startDate.endsWith('-01') && nextDay.endsWith('-01')) {
+    const [startYear, startMonth] = startDate.split('-').map(Number)
+    const [endYear, endMonth] = nextDay.split('-').map(Number)
+    const months = (endYear - startYear) * 12 + endMonth - startMonth
+
+    return { startDate: addMonths(startDate, -months), endDate: addDays(startDate, -1) }
+  }
+
+  const days = (parseDay(endDate) - parseDay(startDate)) / DAY + 1
+  return { startDate: addDays(startDate, -days), endDate: addDays(startDate, -1) }
+}
+
+const sumBy = (rows, key) => {
+  const sums = new Map()
+  for (const row of rows) {
+    sums.set(row[key], (sums.get(row[key]) || 0) + row.amount)
+  }
+  return sums
+}
+
+const percentChange = (current, previous) =>
+  previous ? Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10 : null
+
+// Revenue (payments received, net of refunds and reversals), expenses and
+// net profit per period, with revenue broken down for the whole range.
+// Revenue is split across item categories in proportion to each rental's
+// line subtotals.
+const aggregateRevenue = async (db, { granularity, timezone, startDate, endDate }) => {
+  const interval = GRANULARITIES[granularity]
+
+  // Payments and expenses are filtered and bucketed by their local date
+  const [periods, payments, categoryShares, expenses] = await Promise.all([
+    db.$queryRaw`
+      SELECT generate_series(
+        date_trunc(${granularity}::text, ${startDate}::date::timestamp),
+        date_trunc(${granularity}::text, ${endDate}::date::timestamp),
+        ${interval}::interval
+      ) AS "period"`,
+    db.$queryRaw`
+      SELECT date_trunc(${granularity}::text, p."localDate") AS "period",
+        p."paymentMethod"::text AS "paymentMethod",
+        COALESCE(p."userId", r."userId") AS "userId", SUM(p."amount") AS "amount"
+      FROM (
+        SELECT *, "paymentDate" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}::text AS "localDate"
+        FROM "Payment"
+      ) p
+      JOIN "Rental" r ON r."id" = p."rentalId"
+      WHERE p."localDate" >= ${startDate}::date AND p."localDate" < ${endDate}::date + 1
+      GROUP BY 1, 2, 3`,
+    db.$queryRaw`
+      SELECT s."categoryId", SUM(p."amount" * s."share") AS "amount"
+      FROM (
+        SELECT *, "paymentDate" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}::text AS "localDate"
+        FROM "Payment"
+      ) p
+      JOIN (
+        SELECT ri."rentalId", i."categoryId",
+          COALESCE(
+            SUM(ri."subtotal") / NULLIF(SUM(SUM(ri."subtotal")) OVER w, 0),
+            1.0 / COUNT(*) OVER w
+          ) AS "share"
+        FROM "RentalItem" ri
+        JOIN "Item" i ON i."id" = ri."itemId"
+        GROUP BY ri."rentalId", i."categoryId"
+        WINDOW w AS (PARTITION BY ri."rentalId")
+      ) s ON s."rentalId" = p."rentalId"
+      WHERE p."localDate" >= ${startDate}::date AND p."localDate" < ${endDate}::date + 1
+      GROUP BY 1`,
+    db.$queryRaw`
+      SELECT date_trunc(${granularity}::text, e."localDate") AS "period",
+        e."category"::text AS "category", SUM(e."amount") AS "amount"
+      FROM (
+        SELECT *, "expenseDate" AT TIME ZONE 'UTC' AT TIME ZONE ${timezone}::text AS "localDate"
+        FROM "Expense"
+      ) e
+      WHERE e."localDate" >= ${startDate}::date AND e."localDate" < ${endDate}::date + 1
+      GROUP BY 1, 2`,
+  ])
+
+  const keyed = (rows) => rows.map((row) => ({ ...row, period: formatDay(row.period) }))
+  const revenueByPeriod = sumBy(keyed(payments), 'period')
+  const expensesByPeriod = sumBy(keyed(expenses), 'period')
+
+  const rows = periods.map(({ period }) => {
+    const key = formatDay(period)
+    const revenue = roundMoney(revenueByPeriod.get(key) || 0)
+    const expense = roundMoney(expensesByPeriod.get(key) || 0)
+
+    return { period: key, revenue, expenses: expense, netProfit: roundMoney(revenue - expense) }
+  })
+
+  const revenue = roundMoney(rows.reduce((sum, row) => sum + row.revenue, 0))
+  const totalExpenses = roundMoney(rows.reduce((sum, row) => sum + row.expenses, 0))
+
+  return {
+    startDate,
+    endDate,
+    totals: { revenue, expenses: totalExpenses, netProfit: roundMoney(revenue - totalExpenses) },
+    periods: rows,
+    payments,
+    categoryShares,
+    expenses,
+  }
+}
+
+const sortedBreakdown = (sums, toEntry) =>
+  [...sums.entries()]
+    .map(([key, amount]) => ({ ...toEntry(key), amount: roundMoney(amount) }))
+    .sort((a, b) => b.amount - a.amount)
+
+// Revenue, expenses and net profit by period, with breakdowns by item
+// category, payment method, staff member (who recorded the payment, or who
+// booked the rental for payments recorded by the system) and expense
+// category. With `compare` the same figures for the comparison range are
+// returned alongside, plus the percentage change of each total.
+const getRevenueReport = async (db, options) => {
+  const { granularity, timezone, compare, ...range } = options
+
+  const current = await aggregateRevenue(db, { granularity, timezone, ...range })
+
+  const categorySums = sumBy(current.categoryShares, 'categoryId')
+  const staffSums = sumBy(current.payments, 'userId')
+  const [categories, users] = await Promise.all([
+    db.category.findMany({
+      where: { id: { in: [...categorySums.keys()] } },
+      select: { id: true, name: true },
+    }),
+    db.user.findMany({
+      where: { id: { in: [...staffSums.keys()] } },
+      select: { id: true, name: true },
+    }),
+  ])
+
+  const report = {
+    granularity,
+    timezone,
+    startDate: current.startDate,
+    endDate: current.endDate,
+    totals: current.totals,
+    periods: current.periods,
+    breakdowns: {
+      categories: sortedBreakdown(categorySums, (id) => ({
+        category: categories.find((category) => category.id === id) || { id, name: 'Unknown' },
+      })),
+      paymentMethods: sortedBreakdown(sumBy(current.payments, 'paymentMethod'), (paymentMethod) => ({
+        paymentMethod,
+      })),
+      staff: sortedBreakdown(staffSums, (id) => ({
+        user: users.find((user) => user.id === id) || { id, name: 'Unknown' },
+      })),
+      expenseCategories: sortedBreakdown(sumBy(current.expenses, 'category'), (category) => ({ category })),
+    },
+  }
+
+  if (compare) {
+    const previousRange = comparisonRange({ compare, ...range })
+    const previous = await aggregateRevenue(db, { granularity, timezone, ...previousRange })
+
+    report.comparison = {
+      compare,
+      startDate: previous.startDate,
+      endDate: previous.endDate,
+      totals: previous.totals,
+      periods: previous.periods,
+      change: Object.fromEntries(
+        Object.entries(current.totals).map(([key, total]) => [key, percentChange(total, previous.totals[key])])
+      ),
+    }
+  }
+
+  return report
+}
+
+// Rentals whose items actually went out
+const OUT_STATUSES = ['ACTIVE', 'OVERDUE', 'COMPLETED']
+
+const roundDays = (days) => Math.round(days * 10) / 10
+
+// Percentage to one decimal place
+const percentOf = (part, whole) => Math.round((part / whole) * 1000) / 10
+
+// Overlap of [from, to] with the report range, in days
+const overlapDays = (from, to, start, end) => {
+  const overlap = Math.min(to, end) - Math.max(from, start)
+  return overlap > 0 ? overlap / DAY : 0
+}
+
+// When a line's units came back: the line's return date, the rental's, or
+// still out now. Units returned early from a partly returned line count as
+// out until the whole line is back.
+const lineReturnedAt = (line, now) => {
+  if (line.returnDate || line.rental.returnDate) {
+    return line.returnDate || line.rental.returnDate
+  }
+  return line.rental.status === 'COMPLETED' ? line.rental.endDate : now
+}
+
+const sumOf = (values) => values.reduce((total, value) => total + value, 0)
+
+// Utilization and return figures from summed unit-days and money
+const withReturns = (totals) => {
+  const { daysAvailable, daysRented, revenue, maintenanceCost, procurementCost } = totals
+  const earned = revenue - maintenanceCost
+
+  return {
+    ...totals,
+    daysAvailable: roundDays(daysAvailable),
+    daysRented: roundDays(daysRented),
+    utilization: daysAvailable > 0 ? percentOf(daysRented, daysAvailable) : null,
+    revenue: roundMoney(revenue),
+    maintenanceCost: roundMoney(maintenanceCost),
+    procurementCost: roundMoney(procurementCost),
+    netReturn: roundMoney(earned - procurementCost),
+    // Share of the purchase price earned back, and profit on it; null when
+    // there is no recorded procurement cost
+    paybackPercent: procurementCost > 0 ? percentOf(earned, procurementCost) : null,
+    roi: procurementCost > 0 ? percentOf(earned - procurementCost, procurementCost) : null,
+  }
+}
+
+const sumTotals = (rows) => ({
+  daysAvailable: sumOf(rows.map((row) => row.daysAvailable)),
+  daysRented: sumOf(rows.map((row) => row.daysRented)),
+  revenue: sumOf(rows.map((row) => row.revenue)),
+  maintenanceCost: sumOf(rows.map((row) => row.maintenanceCost)),
+  procurementCost: sumOf(rows.map((row) => row.procurementCost)),
+})
+
+// Per-item and per-category utilization and return on investment between
+// `startDate` (default: when each item was added) and `endDate` (default: now).
+//  - days available: units owned × days in the range since the item was added
+//  - days rented: units × days out on rentals that went out, within the range
+//  - revenue: line subtotals plus line fees (late, damage) of rentals
+//    starting in the range
+//  - maintenance cost: maintenance started in the range
+//  - procurement cost: PROCUREMENT expenses linked to the item in the range
+const getItemUtilization = async (db, { startDate, endDate, categoryId, now = new Date() } = {}) => {
+  const end = endDate || now
+  const inRange = (date) => (!startDate || date >= startDate) && date <= end
+
+  const items = await db.item.findMany({
+    where: categoryId ? { categoryId } : {},
+    include: {
+      category: { select: { id: true, name: true } },
+      rentalItems: {
+        where: { rental: { status: { in: OUT_STATUSES }, startDate: { lte: end } } },
+        include: {
+          rental: { select: { startDate: true, endDate: true, returnDate: true, status: true } },
+          adjustments: { select: { amount: true } },
+        },
+      },
+      maintenances: {
+        where: { startDate: { ...(startDate && { gte: startDate }), lte: end } },
+        select: { cost: true },
+      },
+      expenses: {
+        where: {
+          category: 'PROCUREMENT',
+          expenseDate: { ...(startDate && { gte: startDate }), lte: end },
+        },
+        select: { amount: true },
+      },
+    },
+    orderBy: { name: 'asc' },
+  })
+
+  const rows = items.map((item) => {
+    const from = startDate && startDate > item.createdAt ? startDate : item.createdAt
+    const daysOut = (line) => overlapDays(line.rental.startDate, lineReturnedAt(line, now), from, end)
+    const lineRevenue = (line) => line.subtotal + sumOf(line.adjustments.map((fee) => fee.amount))
+
+    return {
+      item: {
+        id: item.id,
+        name: item.name,
+        status: item.status,
+        quantity: item.quantity,
+        dailyRate: item.dailyRate,
+      },
+      category: item.category,
+      totals: {
+        daysAvailable: item.quantity * overlapDays(item.createdAt, end, from, end),
+        daysRented: sumOf(item.rentalItems.map((line) => line.quantity * daysOut(line))),
+        revenue: sumOf(item.rentalItems.filter((line) => inRange(line.rental.startDate)).map(lineRevenue)),
+        maintenanceCost: sumOf(item.maintenances.map((maintenance) => maintenance.cost)),
+        procurementCost: sumOf(item.expenses.map((expense) => expense.amount)),
+      },
+    }
+  })
+
+  const categories = new Map()
+  for (const row of rows) {
+    if (!categories.has(row.category.id)) {
+      categories.set(row.category.id, { category: row.category, rows: [] })
+    }
+    categories.get(row.category.id).rows.push(row.totals)
+  }
+
+  return {
+    startDate: startDate || null,
+    endDate: end,
+    totals: withReturns(sumTotals(rows.map((row) => row.totals))),
+    categories: [...categories.values()]
+      .map(({ category, rows: totals }) => ({
+        category,
+        itemCount: totals.length,
+        ...withReturns(sumTotals(totals)),
+      }))
+      .sort((a, b) => b.revenue - a.revenue),
+    items: rows
+      .map(({ item, category, totals }) => ({ item, category, ...withReturns(totals) }))
+      .sort((a, b) => b.revenue - a.revenue),
+  }
+}
+
+module.exports = {
+  AGING_BUCKETS,
+  GRANULARITIES,
+  getReceivablesAging,
+  parseRevenueOptions,
+  getRevenueReport,
+  getItemUtilization,
+}
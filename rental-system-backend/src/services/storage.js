@@ -0,0 +1,52 @@
+const fs = require('fs/promises')
+const path = require('path')
+const config = require('../config')
+const { createError } = require('../utils/errors')
+
+// Absolute path of a stored file, refusing paths that escape the storage directory
+const resolveStoragePath = (relativePath) => {
+  const fullPath = path.resolve(config.storage.dir, relativePath)
+
+  if (!fullPath.startsWith(config.storage.dir + path.sep)) {
+    throw createError(400, 'Invalid file path')
+  }
+
+  return fullPath
+}
+
+// Write a file under the storage directory; returns the relative path to keep in the database
+const saveFile = async (relativePath, data) => {
+  const fullPath = resolveStoragePath(relativePath)
+
+  await fs.mkdir(path.dirname(fullPath), { recursive: true })
+  await fs.writeFile(fullPath, data)
+
+  return relativePath
+}
+
+const readFile = async (relativePath) => {
+  try {
+    return await fs.readFile(resolveStoragePath(relativePath))
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      throw createError(404, 'File not found')
+    }
+    throw error
+  }
+}
+
+// Remove a stored file; a file that is already gone is not an error
+const deleteFile = async (relativePath) => {
+  try {
+    await fs.unlink(resolveStoragePath(relativePath))
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error
+  }
+}
+
+module.exports = {
+  resolveStoragePath,
+  saveFile,
+  readFile,
+  deleteFile,
+}
@@ -0,0 +1,114 @@
+const { createError } = require('../utils/errors')
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// Keep a SERIALIZED item's quantity equal to its non-retired units, so the
+// availability engine can keep working from Item.quantity
+const syncSerializedQuantity = async (tx, itemId) => {
+  const quantity = await tx.itemUnit.count({
+    where: { itemId, status: { not: 'RETIRED' } },
+  })
+
+  await tx.item.update({
+    where: { id: itemId },
+    data: { quantity },
+  })
+}
+
+// Attach specific units to a rental line at check-out
+const checkOutUnits = async (tx, line, item, unitIds = []) => {
+  if (item.tracking !== 'SERIALIZED') {
+    if (unitIds.length > 0) {
+      throw createError(400, `${item.name} is not tracked per unit`)
+    }
+    return []
+  }
+
+  if (new Set(unitIds).size !== line.quantity || unitIds.length !== line.quantity) {
+    throw createError(400, `Select ${line.quantity} distinct unit(s) of ${item.name}`)
+  }
+
+  const units = await tx.itemUnit.findMany({
+    where: { id: { in: unitIds }, itemId: item.id },
+  })
+
+  if (units.length !== unitIds.length) {
+    throw createError(400, `Unit does not belong to ${item.name}`)
+  }
+
+  const unavailable = units.find((unit) => unit.status !== 'AVAILABLE')
+  if (unavailable) {
+    throw createError(409, `Unit ${unavailable.serialNumber} is ${unavailable.status.toLowerCase()}`)
+  }
+
+  await tx.rentalItemUnit.createMany({
+    data: unitIds.map((unitId) => ({ rentalItemId: line.id, unitId })),
+  })
+
+  await tx.itemUnit.updateMany({
+    where: { id: { in: unitIds } },
+    data: { status: 'RENTED' },
+  })
+
+  return units
+}
+
+// Mark units on a rental line as back in stock; returns how many came back.
+// `units` is [{ unitId, condition }]; omit it to return every unit still out.
+const returnUnits = async (tx, lineId, units, returnedAt) => {
+  const outstanding = await tx.rentalItemUnit.findMany({
+    where: { rentalItemId: lineId, returnedAt: null },
+  })
+
+  const returning = units
+    ? units.map((entry) => {
+        const assignment = outstanding.find((rentalUnit) => rentalUnit.unitId === entry.unitId)
+        if (!assignment) {
+          throw createError(400, 'Unit is not out on this rental line')
+        }
+        return { assignment, condition: entry.condition }
+      })
+    : outstanding.map((assignment) => ({ assignment }))
+
+  for (const { assignment, condition } of returning) {
+    await tx.rentalItemUnit.update({
+      where: { id: assignment.id },
+      data: { returnedAt, ...(condition && { returnCondition: condition }) },
+    })
+
+    await tx.itemUnit.update({
+      where: { id: assignment.unitId },
+      data: { status: 'AVAILABLE', ...(condition && { condition }) },
+    })
+  }
+
+  return returning.length
+}
+
+// Per-unit usage summary from its check-out history
+const summarizeUnitUsage = (rentalUnits, now = new Date()) => {
+  let daysRented = 0
+  let lastCheckedOutAt = null
+
+  for (const rentalUnit of rentalUnits) {
+    const end = rentalUnit.returnedAt || now
+    daysRented += Math.ceil((end - rentalUnit.checkedOutAt) / MS_PER_DAY)
+
+    if (!lastCheckedOutAt || rentalUnit.checkedOutAt > lastCheckedOutAt) {
+      lastCheckedOutAt = rentalUnit.checkedOutAt
+    }
+  }
+
+  return {
+    rentalCount: rentalUnits.length,
+    daysRented,
+    lastCheckedOutAt,
+  }
+}
+
+module.exports = {
+  syncSerializedQuantity,
+  checkOutUnits,
+  returnUnits,
+  summarizeUnitUsage,
+}
@@ -0,0 +1,25 @@
+// Quote a value when it contains a delimiter, quote or line break
+const escapeCsv = (value) => {
+  if (value === null || value === undefined) return ''
+
+  const text = value instanceof Date ? value.toISOString() : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Build a CSV document from rows and [{ header, value: (row) => ... }] columns
+const toCsv = (rows, columns) =>
+  [
+    columns.map((column) => escapeCsv(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsv(column.value(row))).join(',')),
+  ].join('\r\n') + '\r\n'
+
+// Send a CSV document as a download
+const sendCsv = (res, filename, csv) => {
+  res.set({
+    'Content-Type': 'text/csv; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${filename}"`,
+  })
+  res.send(csv)
+}
+
+module.exports = { toCsv, sendCsv }
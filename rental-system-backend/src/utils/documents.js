@@ -0,0 +1,23 @@
+// Relations the invoice and receipt PDFs print
+const invoiceRentalInclude = {
+  customer: true,
+  items: {
+    include: { item: true },
+    orderBy: { createdAt: 'asc' },
+  },
+  adjustments: { orderBy: { createdAt: 'asc' } },
+  payments: { orderBy: { paymentDate: 'asc' } },
+  invoice: true,
+}
+
+// Send a generated PDF as a download
+const sendPdf = (res, filename, pdf) => {
+  res.set({
+    'Content-Type': 'application/pdf',
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    'Content-Length': pdf.length,
+  })
+  res.send(pdf)
+}
+
+module.exports = { invoiceRentalInclude, sendPdf }
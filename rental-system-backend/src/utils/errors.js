@@ -0,0 +1,8 @@
+// Error carrying the HTTP status a route should respond with
+const createError = (status, message) => {
+  const error = new Error(message)
+  error.status = status
+  return error
+}
+
+module.exports = { createError }
@@ -0,0 +1,26 @@
+const { filterLineFinancialData } = require('./rentals')
+
+// Relations returned with a quote
+const quoteInclude = {
+  customer: true,
+  items: {
+    include: { item: true },
+    orderBy: { createdAt: 'asc' },
+  },
+  user: {
+    select: { id: true, name: true, email: true },
+  },
+}
+
+// Remove financial data from a quote for staff
+const filterQuoteFinancialData = (quote) => {
+  const { numberOfDays, subtotal, deposit, discount, totalAmount, ...rest } = quote
+
+  if (rest.items) {
+    rest.items = rest.items.map(filterLineFinancialData)
+  }
+
+  return rest
+}
+
+module.exports = { quoteInclude, filterQuoteFinancialData }
@@ -0,0 +1,89 @@
+// Relations returned with a rental order
+const rentalInclude = {
+  customer: true,
+  items: {
+    include: {
+      item: true,
+      units: {
+        include: { unit: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  user: {
+    select: { id: true, name: true, email: true },
+  },
+}
+
+// Signed agreement details returned with a rental (the signature image and
+// stored file are only served as the signed PDF)
+const agreementSelect = {
+  id: true,
+  signerName: true,
+  signedAt: true,
+  user: {
+    select: { id: true, name: true },
+  },
+}
+
+// Remove line-level financial data for staff
+const filterLineFinancialData = (line) => {
+  const { dailyRate, discount, subtotal, pricing, ...rest } = line
+  return rest
+}
+
+// Remove financial data from a rental order for staff
+const filterFinancialData = (rental) => {
+  const { numberOfDays, subtotal, deposit, depositHeld, depositStatus, discount,
+          totalAmount, amountPaid, amountDue, paymentStatus,
+          payments, adjustments, deposits, extensions, invoice, ...rest } = rental
+
+  if (rest.items) {
+    rest.items = rest.items.map(filterLineFinancialData)
+  }
+
+  return rest
+}
+
+// Remove prices from a rental price preview for staff, keeping what would be
+// booked and whether it is free
+const filterPreviewFinancialData = (preview) => {
+  const { customerGroup, discount, subtotal, totalAmount, amountDue, paymentStatus, ...rest } = preview
+  return { ...rest, lines: rest.lines.map(filterLineFinancialData) }
+}
+
+// Validate the order part of a rental or quote request
+const parseOrderInput = ({ customerId, items = [], startDate, endDate }) => {
+  if (!customerId || !startDate || !endDate || !Array.isArray(items) || items.length === 0) {
+    return { error: 'Customer, at least one item, start date, and end date are required' }
+  }
+
+  const itemIds = items.map((line) => line.itemId)
+  if (itemIds.some((itemId) => !itemId)) {
+    return { error: 'Each line requires an item' }
+  }
+  if (new Set(itemIds).size !== itemIds.length) {
+    return { error: 'Each item can only appear once per order' }
+  }
+  if (items.some((line) => line.quantity !== undefined && !(parseInt(line.quantity) >= 1))) {
+    return { error: 'Line quantity must be at least 1' }
+  }
+
+  const start = new Date(startDate)
+  const end = new Date(endDate)
+
+  if (end <= start) {
+    return { error: 'End date must be after start date' }
+  }
+
+  return { itemIds, start, end }
+}
+
+module.exports = {
+  rentalInclude,
+  agreementSelect,
+  filterFinancialData,
+  filterLineFinancialData,
+  filterPreviewFinancialData,
+  parseOrderInput,
+}
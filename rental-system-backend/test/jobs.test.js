@@ -0,0 +1,181 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { createScheduler } = require('../src/jobs/scheduler')
+const markOverdue = require('../src/jobs/markOverdue')
+const applyLateFees = require('../src/jobs/applyLateFees')
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// Clock whose time only moves when the test says so; timers fire on `tick`
+const createManualClock = (start) => {
+  let current = new Date(start)
+  const timers = new Map()
+  let nextHandle = 1
+
+  return {
+    now: () => new Date(current),
+    setInterval: (fn, ms) => {
+      const handle = nextHandle++
+      timers.set(handle, { fn, ms })
+      return handle
+    },
+    clearInterval: (handle) => timers.delete(handle),
+    advance: (ms) => {
+      current = new Date(current.getTime() + ms)
+    },
+    // Fire every timer once, as if its interval had elapsed, and let the runs
+    // they start settle; the fake database below never waits on I/O
+    tick: async () => {
+      timers.forEach(({ fn }) => fn())
+      await new Promise((resolve) => setImmediate(resolve))
+    },
+  }
+}
+
+const lateFeeRule = {
+  name: 'Flat',
+  categoryId: null,
+  feePerDay: 10,
+  dailyRateMultiplier: 0,
+  gracePeriodHours: 0,
+  maxFeePerUnit: null,
+}
+
+// In-memory stand-in for the Prisma calls the overdue and late fee jobs make
+const createFakePrisma = (rentals) => {
+  const adjustments = []
+  const jobRuns = []
+  let nextId = 1
+
+  const withRelations = (rental, include = {}) => ({
+    ...rental,
+    ...(include.adjustments && {
+      adjustments: adjustments.filter(
+        (adjustment) =>
+          adjustment.rentalId === rental.id &&
+          Object.entries(include.adjustments.where || {}).every(([key, value]) => adjustment[key] === value)
+      ),
+    }),
+  })
+
+  const db = {
+    jobRuns,
+    adjustments,
+    rentals,
+    jobRun: {
+      create: async ({ data }) => {
+        const jobRun = { id: `run-${nextId++}`, status: 'RUNNING', ...data }
+        jobRuns.push(jobRun)
+        return jobRun
+      },
+      update: async ({ where, data }) => Object.assign(jobRuns.find((run) => run.id === where.id), data),
+    },
+    rental: {
+      findMany: async ({ where }) =>
+        rentals.filter(
+          (rental) => rental.status === where.status && (!where.endDate || rental.endDate < where.endDate.lt)
+        ),
+      findUnique: async ({ where, include }) => {
+        const rental = rentals.find((entry) => entry.id === where.id)
+        return rental && withRelations(rental, include)
+      },
+      update: async ({ where, data }) => Object.assign(rentals.find((rental) => rental.id === where.id), data),
+    },
+    rentalAdjustment: {
+      create: async ({ data }) => {
+        const adjustment = { id: `adj-${nextId++}`, accruing: false, ...data }
+        adjustments.push(adjustment)
+        return adjustment
+      },
+      update: async ({ where, data }) =>
+        Object.assign(adjustments.find((adjustment) => adjustment.id === where.id), data),
+      delete: async ({ where }) =>
+        adjustments.splice(adjustments.findIndex((adjustment) => adjustment.id === where.id), 1)[0],
+    },
+    lateFeeRule: { findMany: async () => [lateFeeRule] },
+    payment: {
+      aggregate: async () => ({ _sum: { amount: 0 } }),
+      count: async () => 0,
+    },
+    journalLine: { groupBy: async () => [] },
+    journalEntry: { create: async ({ data }) => data },
+    $queryRaw: async () => [],
+    $transaction: (fn) => fn(db),
+  }
+
+  return db
+}
+
+const rental = (id, endDate) => ({
+  id,
+  status: 'ACTIVE',
+  endDate: new Date(endDate),
+  discount: 0,
+  items: [
+    {
+      id: `${id}-line`,
+      quantity: 2,
+      returnedQuantity: 0,
+      dailyRate: 25,
+      subtotal: 100,
+      item: { name: 'Ladder', categoryId: 'tools' },
+    },
+  ],
+})
+
+const silentLogger = { warn: () => {}, error: () => {} }
+
+describe('scheduled jobs', () => {
+  it('marks rentals overdue once the clock passes their end date', async () => {
+    const clock = createManualClock('2026-03-10T09:00:00Z')
+    const prisma = createFakePrisma([rental('r1', '2026-03-10T12:00:00Z'), rental('r2', '2026-03-12T12:00:00Z')])
+    const scheduler = createScheduler({ prisma, jobs: [markOverdue], clock, logger: silentLogger })
+    scheduler.start()
+
+    await clock.tick()
+    assert.deepEqual(prisma.rentals.map((entry) => entry.status), ['ACTIVE', 'ACTIVE'])
+
+    clock.advance(MS_PER_DAY)
+    await clock.tick()
+    assert.deepEqual(prisma.rentals.map((entry) => entry.status), ['OVERDUE', 'ACTIVE'])
+    assert.deepEqual(prisma.jobRuns.map((run) => run.result), [{ markedOverdue: 0 }, { markedOverdue: 1 }])
+
+    scheduler.stop()
+  })
+
+  it('accrues late fees by the days late at the clock time', async () => {
+    const clock = createManualClock('2026-03-11T09:00:00Z')
+    const prisma = createFakePrisma([{ ...rental('r1', '2026-03-10T12:00:00Z'), status: 'OVERDUE' }])
+    const scheduler = createScheduler({ prisma, jobs: [applyLateFees], clock, logger: silentLogger })
+
+    // 21 hours late: one day at 10 per unit, two units out
+    await scheduler.runJob('apply-late-fees')
+    assert.equal(prisma.adjustments.length, 1)
+    assert.equal(prisma.adjustments[0].amount, 20)
+    assert.equal(prisma.rentals[0].totalAmount, 120)
+
+    clock.advance(2 * MS_PER_DAY)
+    await scheduler.runJob('apply-late-fees')
+    assert.equal(prisma.adjustments.length, 1)
+    assert.equal(prisma.adjustments[0].amount, 60)
+    assert.equal(prisma.adjustments[0].description, 'Late fee accruing: 3 day(s)')
+    assert.equal(prisma.jobRuns.at(-1).status, 'SUCCEEDED')
+  })
+
+  it('releases a job when its run cannot be recorded', async () => {
+    const clock = createManualClock('2026-03-10T09:00:00Z')
+    const prisma = createFakePrisma([])
+    const create = prisma.jobRun.create
+    prisma.jobRun.create = async () => {
+      prisma.jobRun.create = create
+      throw new Error('connection lost')
+    }
+    const scheduler = createScheduler({ prisma, jobs: [markOverdue], clock, logger: silentLogger })
+
+    await assert.rejects(scheduler.runJob('mark-overdue'), /connection lost/)
+    assert.equal(scheduler.isRunning('mark-overdue'), false)
+
+    const run = await scheduler.runJob('mark-overdue')
+    assert.equal(run.status, 'SUCCEEDED')
+  })
+})
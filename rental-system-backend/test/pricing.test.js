@@ -0,0 +1,90 @@
+const { describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const { loadPricingContext, priceLine, loadRentalPricingContext, priceLineDays } = require('../src/services/pricing')
+const { calculateEarlyReturnCredit } = require('../src/services/earlyReturns')
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+const creditPolicy = { policy: 'CREDIT', creditPercent: 100 }
+
+const item = { id: 'ladder', categoryId: 'tools', dailyRate: 15 }
+
+// Weekly tier, no weekend surcharge
+const weeklyPlan = {
+  id: 'plan-1',
+  name: 'Ladder weekly',
+  itemId: item.id,
+  categoryId: null,
+  dailyRate: 10,
+  weeklyRate: 50,
+  monthlyRate: null,
+  weekendMultiplier: 1,
+  active: true,
+}
+
+// In-memory stand-in for the Prisma reads the pricing engine makes
+const createFakePrisma = ({ ratePlans, group }) => ({
+  ratePlans,
+  item: { findMany: async () => [item] },
+  customer: { findUnique: async () => ({ id: 'customer', group }) },
+  ratePlan: {
+    findMany: async ({ where }) =>
+      ratePlans.filter((plan) => (where.id ? where.id.in.includes(plan.id) : plan.active)),
+  },
+  seasonalRate: { findMany: async () => [] },
+})
+
+// A rental of two ladders for 10 days from a Monday, priced as at booking
+const bookRental = async (db) => {
+  const start = new Date('2026-03-02T00:00:00Z')
+  const end = new Date(start.getTime() + 10 * MS_PER_DAY)
+  const context = await loadPricingContext(db, { itemIds: [item.id], customerId: 'customer', start, end })
+  const line = priceLine(context, { itemId: item.id, quantity: 2 }, { start, numberOfDays: 10 })
+
+  return {
+    id: 'r1',
+    customerId: 'customer',
+    startDate: start,
+    endDate: end,
+    numberOfDays: 10,
+    items: [{ id: 'r1-line', ...line }],
+  }
+}
+
+describe('pricing a booked rental', () => {
+  it('credits an early return at the plan and group discount it was booked with', async () => {
+    const db = createFakePrisma({ ratePlans: [weeklyPlan], group: { name: 'Trade', discountPercent: 10 } })
+    const rental = await bookRental(db)
+
+    // One week at 50 and three days at 10, less 10%
+    assert.equal(rental.items[0].pricing.unitPrice, 80)
+    assert.equal(rental.items[0].subtotal, 144)
+
+    // The plan is repriced and retired, and the customer leaves the group
+    db.ratePlans.splice(0, 1, { ...weeklyPlan, dailyRate: 20, weeklyRate: 100, active: false })
+    db.customer.findUnique = async () => ({ id: 'customer', group: null })
+
+    // Back after three days: the booked 80 less three days at 10, less 10%, per unit
+    const context = await loadRentalPricingContext(db, rental)
+    const asOf = new Date(rental.startDate.getTime() + 3 * MS_PER_DAY)
+    const credit = calculateEarlyReturnCredit(context, rental, rental.items[0], 2, asOf, creditPolicy)
+
+    assert.deepEqual(credit, { unusedDays: 7, amount: 90 })
+  })
+
+  it('prices an extension at the booked plan when the snapshot predates its rates', async () => {
+    const db = createFakePrisma({ ratePlans: [weeklyPlan], group: null })
+    const rental = await bookRental(db)
+    delete rental.items[0].pricing.ratePlanRates
+
+    // The plan is retired and a new one takes its place
+    db.ratePlans.splice(0, 1, { ...weeklyPlan, active: false }, { ...weeklyPlan, id: 'plan-2', weeklyRate: 30 })
+
+    // 14 days is two weeks at 50, against the booked week and three days at 10
+    const end = new Date(rental.startDate.getTime() + 14 * MS_PER_DAY)
+    const context = await loadRentalPricingContext(db, rental, end)
+    const amount = priceLineDays(context, rental.items[0], 2, { start: rental.startDate, fromDays: 10, toDays: 14 })
+
+    assert.equal(amount, 40)
+  })
+})
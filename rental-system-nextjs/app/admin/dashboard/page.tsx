@@ -6,7 +6,7 @@ import ProtectedRoute from '@/components/ProtectedRoute'
 import AdminLayout from '@/components/layouts/AdminLayout'
 import api from '@/lib/api'
 import { DashboardStats, Rental } from '@/lib/types'
-import { DollarSign, Package, FileText, Wrench, TrendingUp } from 'lucide-react'
+import { DollarSign, Package, FileText, Wrench, TrendingUp, ShieldCheck } from 'lucide-react'
 
 export default function AdminDashboard() {
   const router = useRouter()
@@ -70,7 +70,7 @@ export default function AdminDashboard() {
             </div>
 
             {/* Stats Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
               <StatCard
                   title="Monthly Revenue"
                   value={`$${stats?.monthlyRevenue?.toLocaleString() || '0'}`}
@@ -99,6 +99,13 @@ export default function AdminDashboard() {
                   icon={FileText}
                   color="text-orange-600"
               />
+              <StatCard
+                  title="Deposits Held"
+                  value={`$${stats?.depositsHeld?.toLocaleString() || '0'}`}
+                  subtitle="Refundable, not revenue"
+                  icon={ShieldCheck}
+                  color="text-teal-600"
+              />
             </div>
 
             {/* Recent Rentals */}
@@ -118,7 +125,7 @@ export default function AdminDashboard() {
                               {rental.customer?.name || 'Unknown Customer'}
                             </p>
                             <p className="text-sm text-gray-600">
-                              {rental.item?.name || 'Unknown Item'}
+                              {rental.items?.map((line) => `${line.quantity} × ${line.item?.name}`).join(', ') || 'No items'}
                             </p>
                           </div>
                           <div className="text-right">
@@ -3,9 +3,9 @@
 import { useEffect, useState } from 'react'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import AdminLayout from '@/components/layouts/AdminLayout'
-import api from '@/lib/api'
+import api, { downloadFile } from '@/lib/api'
 import { Payment, Expense } from '@/lib/types'
-import { DollarSign, TrendingDown, Plus } from 'lucide-react'
+import { DollarSign, TrendingDown, Plus, FileText, Receipt, Undo2 } from 'lucide-react'
 
 export default function AdminFinancesPage() {
   const [activeTab, setActiveTab] = useState<'payments' | 'expenses'>('payments')
@@ -32,6 +32,27 @@ export default function AdminFinancesPage() {
     }
   }
 
+  const handleDownload = async (url: string, fallbackName: string) => {
+    try {
+      await downloadFile(url, fallbackName)
+    } catch (error) {
+      console.error('Error downloading document:', error)
+    }
+  }
+
+  // Payments are never deleted; voiding records a reversal with the reason given
+  const handleVoid = async (payment: Payment) => {
+    const reason = window.prompt(`Reason for voiding the $${payment.amount.toFixed(2)} payment`)
+    if (!reason) return
+
+    try {
+      await api.post(`/finances/payments/${payment.id}/void`, { reason })
+      await fetchFinancialData()
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to void payment')
+    }
+  }
+
   const totalPayments = payments.reduce((sum, p) => sum + p.amount, 0)
   const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0)
 
@@ -130,12 +151,13 @@ export default function AdminFinancesPage() {
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Amount</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Method</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Documents</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
                       {payments.length === 0 ? (
                         <tr>
-                          <td colSpan={5} className="px-4 py-12 text-center text-gray-500">
+                          <td colSpan={6} className="px-4 py-12 text-center text-gray-500">
                             No payments recorded
                           </td>
                         </tr>
@@ -148,8 +170,22 @@ export default function AdminFinancesPage() {
                             <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                               Rental #{payment.rentalId.slice(0, 8)}
                             </td>
-                            <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-emerald-600">
-                              ${payment.amount.toFixed(2)}
+                            <td
+                              className={`px-4 py-4 whitespace-nowrap text-sm font-medium ${
+                                payment.amount < 0 ? 'text-red-600' : 'text-emerald-600'
+                              }`}
+                            >
+                              {payment.amount < 0 ? '-' : ''}${Math.abs(payment.amount).toFixed(2)}
+                              {payment.type !== 'PAYMENT' && (
+                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700">
+                                  {payment.type}
+                                </span>
+                              )}
+                              {payment.reversal && (
+                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                                  VOIDED
+                                </span>
+                              )}
                             </td>
                             <td className="px-4 py-4 whitespace-nowrap">
                               <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-700">
@@ -157,7 +193,34 @@ export default function AdminFinancesPage() {
                               </span>
                             </td>
                             <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {payment.reference || '-'}
+                              {payment.reason || payment.reference || '-'}
+                            </td>
+                            <td className="px-4 py-4 whitespace-nowrap text-sm">
+                              <div className="flex items-center space-x-3">
+                                <button
+                                  onClick={() => handleDownload(`/finances/payments/${payment.id}/receipt`, `receipt-${payment.id.slice(0, 8)}.pdf`)}
+                                  className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+                                >
+                                  <Receipt size={16} />
+                                  <span>Receipt</span>
+                                </button>
+                                <button
+                                  onClick={() => handleDownload(`/rentals/${payment.rentalId}/invoice`, `invoice-${payment.rentalId.slice(0, 8)}.pdf`)}
+                                  className="flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+                                >
+                                  <FileText size={16} />
+                                  <span>Invoice</span>
+                                </button>
+                                {payment.type !== 'REVERSAL' && !payment.reversal && payment.paymentMethod !== 'DEPOSIT' && (
+                                  <button
+                                    onClick={() => handleVoid(payment)}
+                                    className="flex items-center space-x-1 text-red-600 hover:text-red-800"
+                                  >
+                                    <Undo2 size={16} />
+                                    <span>Void</span>
+                                  </button>
+                                )}
+                              </div>
                             </td>
                           </tr>
                         ))
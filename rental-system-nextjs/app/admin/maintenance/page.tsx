@@ -0,0 +1,15 @@
+'use client'
+
+import ProtectedRoute from '@/components/ProtectedRoute'
+import AdminLayout from '@/components/layouts/AdminLayout'
+import MaintenanceBoard from '@/components/MaintenanceBoard'
+
+export default function AdminMaintenancePage() {
+  return (
+    <ProtectedRoute requireAdmin>
+      <AdminLayout>
+        <MaintenanceBoard />
+      </AdminLayout>
+    </ProtectedRoute>
+  )
+}
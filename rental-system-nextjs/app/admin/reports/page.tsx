@@ -0,0 +1,62 @@
+'use client'
+
+import { useState } from 'react'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import AdminLayout from '@/components/layouts/AdminLayout'
+import AgingReport from '@/components/reports/AgingReport'
+import AssetRegisterReport from '@/components/reports/AssetRegisterReport'
+import RevenueReport from '@/components/reports/RevenueReport'
+import UtilizationReport from '@/components/reports/UtilizationReport'
+
+const reports = [
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'aging', label: 'Receivables Aging' },
+  { key: 'utilization', label: 'Utilization & ROI' },
+  { key: 'assets', label: 'Asset Register' },
+] as const
+
+type ReportKey = (typeof reports)[number]['key']
+
+export default function AdminReportsPage() {
+  const [activeReport, setActiveReport] = useState<ReportKey>('revenue')
+
+  return (
+    <ProtectedRoute requireAdmin>
+      <AdminLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+            <p className="text-gray-600">Financial and operational reports</p>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+            <div className="border-b border-gray-200">
+              <div className="flex space-x-4 px-6">
+                {reports.map((report) => (
+                  <button
+                    key={report.key}
+                    onClick={() => setActiveReport(report.key)}
+                    className={`py-4 px-2 border-b-2 font-medium text-sm transition ${
+                      activeReport === report.key
+                        ? 'border-blue-600 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {report.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-6">
+              {activeReport === 'revenue' && <RevenueReport />}
+              {activeReport === 'aging' && <AgingReport />}
+              {activeReport === 'utilization' && <UtilizationReport />}
+              {activeReport === 'assets' && <AssetRegisterReport />}
+            </div>
+          </div>
+        </div>
+      </AdminLayout>
+    </ProtectedRoute>
+  )
+}
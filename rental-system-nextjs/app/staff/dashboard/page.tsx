@@ -1,15 +1,18 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import StaffLayout from '@/components/layouts/StaffLayout'
 import api from '@/lib/api'
-import { DashboardStats, Rental } from '@/lib/types'
-import { Package, FileText, Wrench, CheckCircle } from 'lucide-react'
+import { DashboardStats, MaintenancePlanStatus, Rental } from '@/lib/types'
+import { triggerUnit } from '@/components/MaintenancePlanModal'
+import { Package, FileText, Wrench, CheckCircle, AlertTriangle } from 'lucide-react'
 
 export default function StaffDashboard() {
   const [stats, setStats] = useState<DashboardStats | null>(null)
   const [recentRentals, setRecentRentals] = useState<Rental[]>([])
+  const [serviceDue, setServiceDue] = useState<MaintenancePlanStatus[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -18,12 +21,14 @@ export default function StaffDashboard() {
 
   const fetchDashboardData = async () => {
     try {
-      const [statsRes, rentalsRes] = await Promise.all([
+      const [statsRes, rentalsRes, serviceRes] = await Promise.all([
         api.get('/dashboard/staff'),
-        api.get('/rentals?limit=5')
+        api.get('/rentals?limit=5'),
+        api.get('/dashboard/service-due')
       ])
       setStats(statsRes.data)
       setRecentRentals(rentalsRes.data.rentals || [])
+      setServiceDue(serviceRes.data)
     } catch (error) {
       console.error('Error fetching dashboard data:', error)
     } finally {
@@ -93,12 +98,52 @@ export default function StaffDashboard() {
             <StatCard
               title="Maintenance"
               value={stats?.maintenanceItems || 0}
-              subtitle="Items in service"
+              subtitle={stats?.serviceDueItems ? `${stats.serviceDueItems} due for service` : 'Items in service'}
               icon={Wrench}
               color="text-orange-600"
             />
           </div>
 
+          {/* Preventive maintenance - due items can't go out on new rentals */}
+          {serviceDue.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold">Due for Service</h3>
+                <Link href="/staff/maintenance" className="text-sm text-blue-600 hover:text-blue-800">
+                  Maintenance plans
+                </Link>
+              </div>
+              <div className="space-y-3">
+                {serviceDue.map((status) => (
+                  <div
+                    key={`${status.plan.id}:${status.item.id}`}
+                    className={`flex items-center justify-between p-3 rounded-lg ${
+                      status.due ? 'bg-red-50' : 'bg-yellow-50'
+                    }`}
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900">{status.item.name}</p>
+                      <p className="text-sm text-gray-600">
+                        {status.plan.name} · {status.usage} / {status.plan.interval} {triggerUnit(status.plan.trigger)}
+                      </p>
+                    </div>
+                    <div className="text-right text-sm">
+                      {status.due ? (
+                        <span className="inline-flex items-center text-red-700 font-medium">
+                          <AlertTriangle size={14} className="mr-1" />
+                          Blocked from new rentals
+                        </span>
+                      ) : (
+                        <span className="text-yellow-700 font-medium">Due soon</span>
+                      )}
+                      {status.openWorkOrder && <p className="text-gray-500 mt-1">Work order open</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Recent Rentals - NO FINANCIAL DATA */}
           <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
             <h3 className="text-lg font-semibold mb-4">Recent Rentals</h3>
@@ -107,8 +152,9 @@ export default function StaffDashboard() {
                 <p className="text-gray-500 text-center py-8">No recent rentals</p>
               ) : (
                 recentRentals.map((rental) => (
-                  <div
+                  <Link
                     key={rental.id}
+                    href={`/staff/rentals/${rental.id}`}
                     className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition"
                   >
                     <div className="flex-1">
@@ -116,7 +162,7 @@ export default function StaffDashboard() {
                         {rental.customer?.name || 'Unknown Customer'}
                       </p>
                       <p className="text-sm text-gray-600">
-                        {rental.item?.name || 'Unknown Item'}
+                        {rental.items?.map((line) => `${line.quantity} × ${line.item?.name}`).join(', ') || 'No items'}
                       </p>
                     </div>
                     <div className="text-right">
@@ -135,7 +181,7 @@ export default function StaffDashboard() {
                         Due: {new Date(rental.endDate).toLocaleDateString()}
                       </p>
                     </div>
-                  </div>
+                  </Link>
                 ))
               )}
             </div>
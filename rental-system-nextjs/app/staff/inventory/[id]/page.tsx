@@ -0,0 +1,219 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import StaffLayout from '@/components/layouts/StaffLayout'
+import AuditTrail from '@/components/AuditTrail'
+import ItemPurchases from '@/components/ItemPurchases'
+import PrintLabels from '@/components/PrintLabels'
+import api, { downloadFile } from '@/lib/api'
+import { useAuthStore } from '@/lib/store/authStore'
+import { Item, Maintenance } from '@/lib/types'
+import { ArrowLeft, History, Package, Printer, ShoppingCart, Wrench } from 'lucide-react'
+
+type ItemDetail = Item & { maintenances?: Maintenance[] }
+
+const statusStyles: Record<string, string> = {
+  AVAILABLE: 'bg-green-100 text-green-700',
+  RENTED: 'bg-blue-100 text-blue-700',
+  MAINTENANCE: 'bg-orange-100 text-orange-700',
+  RETIRED: 'bg-gray-100 text-gray-700',
+}
+
+export default function StaffItemDetailPage({ params }: { params: { id: string } }) {
+  const { id } = params
+  const { isAdmin } = useAuthStore()
+  const [tab, setTab] = useState<'details' | 'purchases' | 'audit'>('details')
+  const [item, setItem] = useState<ItemDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchItem()
+  }, [id])
+
+  // A single label in the default format, e.g. to replace a worn one
+  const printUnitLabel = async (unitId: string, serialNumber: string) => {
+    try {
+      await downloadFile('/labels/sheet', `label-${serialNumber}.pdf`, { unitIds: [unitId] })
+    } catch (error) {
+      console.error('Error printing label:', error)
+    }
+  }
+
+  const fetchItem = async () => {
+    try {
+      const response = await api.get(`/items/${id}`)
+      setItem(response.data)
+    } catch (error) {
+      console.error('Error fetching item:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <ProtectedRoute>
+        <StaffLayout>
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        </StaffLayout>
+      </ProtectedRoute>
+    )
+  }
+
+  if (!item) {
+    return (
+      <ProtectedRoute>
+        <StaffLayout>
+          <p className="text-gray-500 text-center py-12">Item not found</p>
+        </StaffLayout>
+      </ProtectedRoute>
+    )
+  }
+
+  return (
+    <ProtectedRoute>
+      <StaffLayout>
+        <div className="space-y-6">
+          <Link href="/staff/inventory" className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft size={16} />
+            <span>Back to inventory</span>
+          </Link>
+
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{item.name}</h1>
+              <p className="text-gray-600">{item.category?.name || 'Uncategorized'}</p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <PrintLabels itemIds={[item.id]} />
+              <span className={`px-3 py-1 rounded-full text-sm font-medium ${statusStyles[item.status]}`}>
+                {item.status}
+              </span>
+            </div>
+          </div>
+
+          {isAdmin() && (
+            <div className="flex space-x-2 border-b border-gray-200">
+              {(['details', 'purchases', 'audit'] as const).map((entry) => (
+                <button
+                  key={entry}
+                  onClick={() => setTab(entry)}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+                    tab === entry
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {entry === 'details' ? 'Details' : entry === 'purchases' ? 'Purchases' : 'Audit'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {tab === 'audit' ? (
+            <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+              <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                <History size={20} className="text-gray-500" />
+                <span>Audit Trail</span>
+              </h3>
+              <AuditTrail entity="Item" entityId={item.id} />
+            </div>
+          ) : tab === 'purchases' ? (
+            <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+              <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                <ShoppingCart size={20} className="text-gray-500" />
+                <span>Purchases</span>
+              </h3>
+              <ItemPurchases itemId={item.id} retired={item.status === 'RETIRED'} onRetired={fetchItem} />
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                  <Package size={20} className="text-gray-500" />
+                  <span>Details</span>
+                </h3>
+                {item.description && <p className="text-sm text-gray-700 mb-4">{item.description}</p>}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Daily rate</p>
+                    <p className="font-medium text-gray-900">${item.dailyRate.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Quantity</p>
+                    <p className="font-medium text-gray-900">{item.quantity}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Tracking</p>
+                    <p className="font-medium text-gray-900">{item.tracking}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Serial number</p>
+                    <p className="font-medium text-gray-900">{item.serialNumber || '—'}</p>
+                  </div>
+                </div>
+              </div>
+
+              {item.units && item.units.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                  <h3 className="text-lg font-semibold mb-4">Units</h3>
+                  <div className="space-y-2">
+                    {item.units.map((unit) => (
+                      <div key={unit.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                        <div>
+                          <p className="font-medium text-gray-900">{unit.serialNumber}</p>
+                          <p className="text-sm text-gray-600">
+                            {unit.condition}
+                            {unit.location && ` · ${unit.location}`}
+                            {unit.usage && ` · ${unit.usage.rentalCount} rental(s), ${unit.usage.daysRented} day(s) out`}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => printUnitLabel(unit.id, unit.serialNumber)}
+                            title="Print label"
+                            className="p-2 text-gray-500 hover:text-blue-600"
+                          >
+                            <Printer size={16} />
+                          </button>
+                          <span className={`px-3 py-1 rounded-full text-xs font-medium ${statusStyles[unit.status]}`}>
+                            {unit.status}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                  <Wrench size={20} className="text-gray-500" />
+                  <span>Recent Maintenance</span>
+                </h3>
+                {item.maintenances && item.maintenances.length > 0 ? (
+                  <div className="space-y-2">
+                    {item.maintenances.map((maintenance) => (
+                      <div key={maintenance.id} className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-900">{maintenance.description}</p>
+                        <p className="text-sm text-gray-500">
+                          {maintenance.status} · {new Date(maintenance.startDate).toLocaleDateString()}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No maintenance recorded.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </StaffLayout>
+    </ProtectedRoute>
+  )
+}
@@ -1,8 +1,11 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import StaffLayout from '@/components/layouts/StaffLayout'
+import InspectionChecklists from '@/components/InspectionChecklists'
+import PrintLabels from '@/components/PrintLabels'
 import api from '@/lib/api'
 import { Item } from '@/lib/types'
 import { Search, Plus } from 'lucide-react'
@@ -12,6 +15,7 @@ export default function StaffInventoryPage() {
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('ALL')
+  const [selected, setSelected] = useState<string[]>([])
 
   useEffect(() => {
     fetchItems()
@@ -34,6 +38,13 @@ export default function StaffInventoryPage() {
     return matchesSearch && matchesStatus
   })
 
+  const toggleSelected = (itemId: string) =>
+    setSelected((current) =>
+      current.includes(itemId) ? current.filter((entry) => entry !== itemId) : [...current, itemId]
+    )
+
+  const allSelected = filteredItems.length > 0 && filteredItems.every((item) => selected.includes(item.id))
+
   const getStatusColor = (status: string) => {
     const colors = {
       AVAILABLE: 'bg-green-100 text-green-700',
@@ -72,20 +83,26 @@ export default function StaffInventoryPage() {
                   className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
-              <div className="flex space-x-2">
-                {['ALL', 'AVAILABLE', 'RENTED', 'MAINTENANCE', 'RETIRED'].map((status) => (
-                  <button
-                    key={status}
-                    onClick={() => setStatusFilter(status)}
-                    className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
-                      statusFilter === status
-                        ? 'bg-blue-600 text-white'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    }`}
-                  >
-                    {status}
-                  </button>
-                ))}
+              <div className="flex justify-between items-center">
+                <div className="flex space-x-2">
+                  {['ALL', 'AVAILABLE', 'RENTED', 'MAINTENANCE', 'RETIRED'].map((status) => (
+                    <button
+                      key={status}
+                      onClick={() => setStatusFilter(status)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                        statusFilter === status
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {status}
+                    </button>
+                  ))}
+                </div>
+                <PrintLabels
+                  itemIds={selected}
+                  label={selected.length > 0 ? `Print Labels (${selected.length})` : 'Print Labels'}
+                />
               </div>
             </div>
 
@@ -99,6 +116,13 @@ export default function StaffInventoryPage() {
                 <table className="w-full">
                   <thead className="bg-gray-50">
                     <tr>
+                      <th className="pl-6 py-3 text-left">
+                        <input
+                          type="checkbox"
+                          checked={allSelected}
+                          onChange={() => setSelected(allSelected ? [] : filteredItems.map((item) => item.id))}
+                        />
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Item Name
                       </th>
@@ -122,15 +146,24 @@ export default function StaffInventoryPage() {
                   <tbody className="bg-white divide-y divide-gray-200">
                     {filteredItems.length === 0 ? (
                       <tr>
-                        <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                        <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                           No items found
                         </td>
                       </tr>
                     ) : (
                       filteredItems.map((item) => (
                         <tr key={item.id} className="hover:bg-gray-50">
+                          <td className="pl-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selected.includes(item.id)}
+                              onChange={() => toggleSelected(item.id)}
+                            />
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="font-medium text-gray-900">{item.name}</div>
+                            <Link href={`/staff/inventory/${item.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                              {item.name}
+                            </Link>
                             <div className="text-sm text-gray-500">{item.description}</div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
@@ -161,6 +194,8 @@ export default function StaffInventoryPage() {
               )}
             </div>
           </div>
+
+          <InspectionChecklists />
         </div>
       </StaffLayout>
     </ProtectedRoute>
@@ -0,0 +1,19 @@
+'use client'
+
+import ProtectedRoute from '@/components/ProtectedRoute'
+import StaffLayout from '@/components/layouts/StaffLayout'
+import MaintenanceBoard from '@/components/MaintenanceBoard'
+
+export default function StaffMaintenancePage({
+  searchParams,
+}: {
+  searchParams: { maintenanceId?: string; itemId?: string; unitId?: string }
+}) {
+  return (
+    <ProtectedRoute>
+      <StaffLayout>
+        <MaintenanceBoard focus={searchParams} />
+      </StaffLayout>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,725 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import StaffLayout from '@/components/layouts/StaffLayout'
+import SignaturePad from '@/components/SignaturePad'
+import AuditTrail from '@/components/AuditTrail'
+import InspectionForm, {
+  InspectionDraft,
+  findChanges,
+  newInspectionDraft,
+  toInspectionInput,
+} from '@/components/InspectionForm'
+import InspectionComparison from '@/components/InspectionComparison'
+import api, { downloadFile } from '@/lib/api'
+import { useAuthStore } from '@/lib/store/authStore'
+import { Inspection, ItemUnit, Rental, RentalInspections, RentalItem, UnitCondition } from '@/lib/types'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Calendar,
+  CheckCircle,
+  ClipboardCheck,
+  Download,
+  Eye,
+  FileSignature,
+  History,
+  PackageCheck,
+  Undo2,
+  User,
+} from 'lucide-react'
+
+// Statuses in which the agreement can still be signed
+const SIGNABLE_STATUSES = ['PENDING', 'CONFIRMED', 'ACTIVE', 'OVERDUE']
+
+// Inspections are kept per line, or per unit of a serialized line
+const inspectionKey = (rentalItemId: string, unitId?: string) => `${rentalItemId}:${unitId || ''}`
+
+interface InspectionTarget {
+  line: RentalItem
+  unitId?: string
+  label?: string
+  condition?: UnitCondition
+}
+
+const outstanding = (line: RentalItem) => line.quantity - line.returnedQuantity
+
+// Units of a serialized line that are still with the customer
+const unitsOut = (line: RentalItem) => (line.units || []).filter((entry) => !entry.returnedAt)
+
+const statusStyles: Record<string, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-700',
+  CONFIRMED: 'bg-indigo-100 text-indigo-700',
+  ACTIVE: 'bg-blue-100 text-blue-700',
+  OVERDUE: 'bg-red-100 text-red-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-gray-100 text-gray-700',
+}
+
+// `unitId` is set when a unit's label was scanned to get here; that unit is
+// picked for check-out or return
+export default function StaffRentalDetailPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string }
+  searchParams: { unitId?: string }
+}) {
+  const { id } = params
+  const scannedUnitId = searchParams.unitId
+  const { isAdmin } = useAuthStore()
+  const [tab, setTab] = useState<'details' | 'audit'>('details')
+  const [rental, setRental] = useState<Rental | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [signerName, setSignerName] = useState('')
+  const [signature, setSignature] = useState<string | null>(null)
+  const [availableUnits, setAvailableUnits] = useState<Record<string, ItemUnit[]>>({})
+  const [selectedUnits, setSelectedUnits] = useState<Record<string, string[]>>({})
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({})
+  const [returnUnits, setReturnUnits] = useState<Record<string, string[]>>({})
+  const [inspections, setInspections] = useState<RentalInspections | null>(null)
+  const [checkoutDrafts, setCheckoutDrafts] = useState<Record<string, InspectionDraft>>({})
+  const [returnDrafts, setReturnDrafts] = useState<Record<string, InspectionDraft>>({})
+  const [damageCharges, setDamageCharges] = useState<Record<string, { description: string; amount: string }>>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchRental()
+  }, [id])
+
+  const fetchRental = async () => {
+    try {
+      const [response, inspectionsRes] = await Promise.all([
+        api.get(`/rentals/${id}`),
+        api.get(`/rentals/${id}/inspections`),
+      ])
+      const data: Rental = response.data
+      setRental(data)
+      setInspections(inspectionsRes.data)
+      setCheckoutDrafts({})
+      setReturnDrafts({})
+      setDamageCharges({})
+      setSignerName((name) => name || data.customer?.name || '')
+
+      // Serialized lines need their units picked at check-out
+      if (data.allowedActions?.includes('checkout')) {
+        const serializedLines = (data.items || []).filter((line) => line.item?.tracking === 'SERIALIZED')
+        const entries = await Promise.all(
+          serializedLines.map(async (line) => {
+            const unitsRes = await api.get(`/items/${line.itemId}/units?status=AVAILABLE`)
+            return [line.id, unitsRes.data as ItemUnit[]] as const
+          })
+        )
+        setAvailableUnits(Object.fromEntries(entries))
+
+        const scannedLine = entries.find(([, units]) => units.some((unit) => unit.id === scannedUnitId))
+        if (scannedLine) {
+          setSelectedUnits((current) => ({ ...current, [scannedLine[0]]: [scannedUnitId!] }))
+        }
+      }
+
+      // Default the return to everything still out, or just the scanned unit on its line
+      const openLines = (data.items || []).filter((line) => outstanding(line) > 0)
+      setReturnQuantities(Object.fromEntries(openLines.map((line) => [line.id, outstanding(line)])))
+      setReturnUnits(
+        Object.fromEntries(
+          openLines.map((line) => {
+            const unitIds = unitsOut(line).map((entry) => entry.unitId)
+            return [line.id, scannedUnitId && unitIds.includes(scannedUnitId) ? [scannedUnitId] : unitIds]
+          })
+        )
+      )
+    } catch (error) {
+      console.error('Error fetching rental:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    try {
+      await downloadFile(`/rentals/${id}/agreement/preview`, `agreement-${id.slice(0, 8)}-preview.pdf`)
+    } catch (error) {
+      console.error('Error previewing agreement:', error)
+    }
+  }
+
+  const handleDownload = async () => {
+    try {
+      await downloadFile(`/rentals/${id}/agreement`, `agreement-${id.slice(0, 8)}.pdf`)
+    } catch (error) {
+      console.error('Error downloading agreement:', error)
+    }
+  }
+
+  const handleSign = async () => {
+    if (!signerName || !signature) {
+      setError('Enter the signer name and capture a signature')
+      return
+    }
+
+    setSubmitting(true)
+    setError('')
+    try {
+      await api.post(`/rentals/${id}/agreement`, { signerName, signature })
+      setSignature(null)
+      await fetchRental()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to sign agreement')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const toggleUnit = (rentalItemId: string, unitId: string, quantity: number) => {
+    setSelectedUnits((current) => {
+      const selected = current[rentalItemId] || []
+      if (selected.includes(unitId)) {
+        return { ...current, [rentalItemId]: selected.filter((entry) => entry !== unitId) }
+      }
+      if (selected.length >= quantity) {
+        return current
+      }
+      return { ...current, [rentalItemId]: [...selected, unitId] }
+    })
+  }
+
+  const checksFor = (rentalItemId: string) =>
+    inspections?.lines.find((line) => line.rentalItemId === rentalItemId)?.checks || []
+
+  // The draft for a line or unit, starting every check at the given grade
+  const draftFor = (
+    drafts: Record<string, InspectionDraft>,
+    rentalItemId: string,
+    unitId?: string,
+    condition?: UnitCondition
+  ) => drafts[inspectionKey(rentalItemId, unitId)] || newInspectionDraft(checksFor(rentalItemId), condition)
+
+  // What a line or unit was like when it left: its own check-out inspection, or the line's
+  const checkoutInspection = (rentalItemId: string, unitId?: string): Inspection | null => {
+    const find = (unit?: string) =>
+      inspections?.comparisons.find(
+        (entry) => entry.rentalItemId === rentalItemId && (entry.unit?.id || undefined) === unit
+      )?.checkout
+    return (unitId && find(unitId)) || find() || null
+  }
+
+  // Serialized lines are inspected unit by unit, bulk lines as a whole
+  const checkoutTargets = (): InspectionTarget[] =>
+    (rental?.items || []).flatMap((line) =>
+      line.item?.tracking === 'SERIALIZED'
+        ? (selectedUnits[line.id] || []).map((unitId) => {
+            const unit = availableUnits[line.id]?.find((entry) => entry.id === unitId)
+            return { line, unitId, label: unit?.serialNumber, condition: unit?.condition }
+          })
+        : [{ line }]
+    )
+
+  const returnTargets = (): InspectionTarget[] =>
+    (rental?.items || [])
+      .filter((line) => outstanding(line) > 0)
+      .flatMap((line) =>
+        unitsOut(line).length > 0
+          ? (returnUnits[line.id] || []).map((unitId) => {
+              const entry = unitsOut(line).find((rentalUnit) => rentalUnit.unitId === unitId)
+              return { line, unitId, label: entry?.unit?.serialNumber, condition: entry?.unit?.condition }
+            })
+          : (returnQuantities[line.id] || 0) > 0
+          ? [{ line }]
+          : []
+      )
+
+  const handleCheckout = async () => {
+    setSubmitting(true)
+    setError('')
+    try {
+      await api.post(`/rentals/${id}/checkout`, {
+        items: Object.entries(selectedUnits).map(([rentalItemId, unitIds]) => ({ rentalItemId, unitIds })),
+        inspections: checkoutTargets().map(({ line, unitId, condition }) =>
+          toInspectionInput(line.id, unitId, draftFor(checkoutDrafts, line.id, unitId, condition))
+        ),
+      })
+      await fetchRental()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to check out rental')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const toggleReturnUnit = (rentalItemId: string, unitId: string) => {
+    setReturnUnits((current) => {
+      const selected = current[rentalItemId] || []
+      return {
+        ...current,
+        [rentalItemId]: selected.includes(unitId)
+          ? selected.filter((entry) => entry !== unitId)
+          : [...selected, unitId],
+      }
+    })
+  }
+
+  // Returns start from the grade the line or unit left in
+  const returnDraftFor = (rentalItemId: string, unitId?: string, condition?: UnitCondition) =>
+    draftFor(returnDrafts, rentalItemId, unitId, checkoutInspection(rentalItemId, unitId)?.condition || condition)
+
+  const handleReturn = async () => {
+    if (!rental) return
+
+    // Serialized lines name their units, in the condition they were inspected
+    // in; bulk lines send a count
+    const items = (rental.items || [])
+      .filter((line) => outstanding(line) > 0)
+      .map((line) =>
+        unitsOut(line).length > 0
+          ? {
+              rentalItemId: line.id,
+              units: (returnUnits[line.id] || []).map((unitId) => ({
+                unitId,
+                condition: returnDraftFor(line.id, unitId).condition,
+              })),
+            }
+          : { rentalItemId: line.id, quantity: returnQuantities[line.id] || 0 }
+      )
+      .filter((entry) => (entry.units ? entry.units.length > 0 : (entry.quantity ?? 0) > 0))
+
+    if (items.length === 0) {
+      setError('Select what is being returned')
+      return
+    }
+
+    const targets = returnTargets()
+    const damages = targets
+      .map(({ line, unitId }) => ({ line, unitId, charge: damageCharges[inspectionKey(line.id, unitId)] }))
+      .filter(({ charge }) => charge && parseFloat(charge.amount) > 0)
+      .map(({ line, unitId, charge }) => ({
+        rentalItemId: line.id,
+        unitId,
+        description: charge.description || 'Damage found at return inspection',
+        amount: charge.amount,
+      }))
+
+    setSubmitting(true)
+    setError('')
+    try {
+      await api.post(`/rentals/${id}/return`, {
+        items,
+        damages,
+        inspections: targets.map(({ line, unitId, condition }) =>
+          toInspectionInput(line.id, unitId, returnDraftFor(line.id, unitId, condition))
+        ),
+      })
+      await fetchRental()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to return items')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <ProtectedRoute>
+        <StaffLayout>
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        </StaffLayout>
+      </ProtectedRoute>
+    )
+  }
+
+  if (!rental) {
+    return (
+      <ProtectedRoute>
+        <StaffLayout>
+          <p className="text-gray-500 text-center py-12">Rental not found</p>
+        </StaffLayout>
+      </ProtectedRoute>
+    )
+  }
+
+  const canSign = !rental.agreement && SIGNABLE_STATUSES.includes(rental.status)
+  const canCheckout = rental.allowedActions?.includes('checkout')
+  const canReturn = rental.allowedActions?.includes('return')
+  const unitsComplete = (rental.items || []).every(
+    (line) => line.item?.tracking !== 'SERIALIZED' || (selectedUnits[line.id] || []).length === line.quantity
+  )
+  const hasInspections = (inspections?.comparisons.length || 0) > 0
+
+  // Return inspection of a line or unit, flagged against how it left
+  const renderReturnInspection = (line: RentalItem, unitId?: string, condition?: UnitCondition) => {
+    const key = inspectionKey(line.id, unitId)
+    const checkout = checkoutInspection(line.id, unitId)
+    const draft = returnDraftFor(line.id, unitId, condition)
+    const { worsened, changes } = findChanges(checkout, draft)
+    const charge = damageCharges[key] || { description: '', amount: '' }
+    const setCharge = (update: Partial<typeof charge>) =>
+      setDamageCharges({ ...damageCharges, [key]: { ...charge, ...update } })
+    const findings = changes.map((change) => `${change.label} ${change.before || '—'} → ${change.after}`)
+
+    return (
+      <div className="mt-2 space-y-2">
+        <p className="text-xs text-gray-500">
+          {checkout ? `Left in ${checkout.condition}` : 'No check-out inspection'}
+        </p>
+        <InspectionForm value={draft} onChange={(value) => setReturnDrafts({ ...returnDrafts, [key]: value })} />
+        {worsened && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-2">
+            <p className="flex items-center">
+              <AlertTriangle size={14} className="mr-1" />
+              Worse than at check-out
+              {findings.length > 0 && `: ${findings.join(', ')}`}
+            </p>
+            {isAdmin() && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  placeholder="Damage charge description"
+                  value={charge.description}
+                  onChange={(e) => setCharge({ description: e.target.value })}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="Amount"
+                  value={charge.amount}
+                  onChange={(e) => setCharge({ amount: e.target.value })}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900"
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <ProtectedRoute>
+      <StaffLayout>
+        <div className="space-y-6">
+          <Link href="/staff/rentals" className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft size={16} />
+            <span>Back to rentals</span>
+          </Link>
+
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Rental #{rental.id.slice(0, 8)}</h1>
+              <p className="text-gray-600">{rental.customer?.name}</p>
+            </div>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${statusStyles[rental.status]}`}>
+              {rental.status}
+            </span>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {isAdmin() && (
+            <div className="flex space-x-2 border-b border-gray-200">
+              {(['details', 'audit'] as const).map((entry) => (
+                <button
+                  key={entry}
+                  onClick={() => setTab(entry)}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+                    tab === entry
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {entry === 'details' ? 'Details' : 'Audit'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {tab === 'audit' ? (
+            <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+              <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                <History size={20} className="text-gray-500" />
+                <span>Audit Trail</span>
+              </h3>
+              <AuditTrail entity="Rental" entityId={rental.id} />
+            </div>
+          ) : (
+            <>
+              {/* Rental details - NO FINANCIAL DATA */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                    <User size={20} className="text-gray-500" />
+                    <span>Customer</span>
+                  </h3>
+                  <p className="font-medium text-gray-900">{rental.customer?.name}</p>
+                  <p className="text-sm text-gray-600">{rental.customer?.phone}</p>
+                  <p className="text-sm text-gray-600">{rental.customer?.email}</p>
+                </div>
+                <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                    <Calendar size={20} className="text-gray-500" />
+                    <span>Dates</span>
+                  </h3>
+                  <p className="text-sm text-gray-700">
+                    {new Date(rental.startDate).toLocaleDateString()} – {new Date(rental.endDate).toLocaleDateString()}
+                  </p>
+                  {rental.notes && <p className="text-sm text-gray-500 mt-2">{rental.notes}</p>}
+                </div>
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                <h3 className="text-lg font-semibold mb-4">Items</h3>
+                <div className="space-y-3">
+                  {rental.items?.map((line) => (
+                    <div key={line.id} className="p-3 bg-gray-50 rounded-lg">
+                      <div className="flex justify-between">
+                        <p className="font-medium text-gray-900">
+                          {line.quantity} × {line.item?.name}
+                        </p>
+                        {line.returnedQuantity > 0 && (
+                          <p className="text-sm text-gray-500">{line.returnedQuantity} returned</p>
+                        )}
+                      </div>
+                      {line.units && line.units.length > 0 && (
+                        <p className="text-sm text-gray-600 mt-1">
+                          Units: {line.units.map((entry) => entry.unit?.serialNumber).join(', ')}
+                        </p>
+                      )}
+                      {canCheckout && availableUnits[line.id] && (
+                        <div className="mt-2">
+                          <p className="text-xs text-gray-500 mb-1">
+                            Select {line.quantity} unit(s) ({(selectedUnits[line.id] || []).length} selected)
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            {availableUnits[line.id].map((unit) => {
+                              const selected = (selectedUnits[line.id] || []).includes(unit.id)
+                              return (
+                                <button
+                                  key={unit.id}
+                                  type="button"
+                                  onClick={() => toggleUnit(line.id, unit.id, line.quantity)}
+                                  className={`px-2 py-1 text-xs rounded border transition ${
+                                    selected
+                                      ? 'bg-green-600 border-green-600 text-white'
+                                      : 'bg-white border-gray-300 text-gray-700 hover:border-green-600'
+                                  }`}
+                                >
+                                  {unit.serialNumber}
+                                </button>
+                              )
+                            })}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Rental agreement */}
+              <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                  <FileSignature size={20} className="text-gray-500" />
+                  <span>Rental Agreement</span>
+                </h3>
+
+                {rental.agreement ? (
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <CheckCircle className="text-green-600" size={24} />
+                      <div>
+                        <p className="font-medium text-gray-900">Signed by {rental.agreement.signerName}</p>
+                        <p className="text-sm text-gray-600">
+                          {new Date(rental.agreement.signedAt).toLocaleString()}
+                          {rental.agreement.user && ` · witnessed by ${rental.agreement.user.name}`}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={handleDownload}
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition"
+                    >
+                      <Download size={16} />
+                      <span>Signed PDF</span>
+                    </button>
+                  </div>
+                ) : canSign ? (
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <p className="text-sm text-gray-600">
+                        Go through the agreement with the customer, then capture their signature.
+                      </p>
+                      <button
+                        onClick={handlePreview}
+                        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                      >
+                        <Eye size={16} />
+                        <span>Preview</span>
+                      </button>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Signer name</label>
+                      <input
+                        type="text"
+                        value={signerName}
+                        onChange={(e) => setSignerName(e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </div>
+                    <SignaturePad onChange={setSignature} />
+                    <button
+                      onClick={handleSign}
+                      disabled={submitting || !signature || !signerName}
+                      className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <FileSignature size={18} />
+                      <span>Sign Agreement</span>
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No agreement was signed for this rental.</p>
+                )}
+              </div>
+
+              {/* Check-out */}
+              {canCheckout && (
+                <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold">Check Out</h3>
+                      <p className="text-sm text-gray-600">
+                        {!rental.agreement
+                          ? 'The agreement must be signed before the items leave.'
+                          : !unitsComplete
+                          ? 'Select the units handed over for each serialized item.'
+                          : 'Inspect the items, hand them over and mark the rental active.'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={handleCheckout}
+                      disabled={submitting || !rental.agreement || !unitsComplete}
+                      className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <PackageCheck size={18} />
+                      <span>Check Out</span>
+                    </button>
+                  </div>
+                  {checkoutTargets().map(({ line, unitId, label, condition }) => {
+                    const key = inspectionKey(line.id, unitId)
+                    return (
+                      <div key={key} className="p-3 bg-gray-50 rounded-lg">
+                        <p className="font-medium text-gray-900 mb-2">
+                          {line.item?.name}
+                          {label && <span className="text-gray-500 font-normal"> · {label}</span>}
+                        </p>
+                        <InspectionForm
+                          value={draftFor(checkoutDrafts, line.id, unitId, condition)}
+                          onChange={(value) => setCheckoutDrafts({ ...checkoutDrafts, [key]: value })}
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              {/* Return */}
+              {canReturn && (
+                <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 space-y-4">
+                  <div>
+                    <h3 className="text-lg font-semibold">Return Items</h3>
+                    <p className="text-sm text-gray-600">
+                      Inspect what came back; anything left out stays on the rental. Items that come back
+                      worse and need servicing get a maintenance ticket.
+                    </p>
+                  </div>
+                  {rental.items
+                    ?.filter((line) => outstanding(line) > 0)
+                    .map((line) => (
+                      <div key={line.id} className="p-3 bg-gray-50 rounded-lg">
+                        <div className="flex justify-between items-center">
+                          <p className="font-medium text-gray-900">{line.item?.name}</p>
+                          {unitsOut(line).length === 0 && (
+                            <div className="flex items-center space-x-2 text-sm text-gray-600">
+                              <input
+                                type="number"
+                                min={0}
+                                max={outstanding(line)}
+                                value={returnQuantities[line.id] ?? 0}
+                                onChange={(e) =>
+                                  setReturnQuantities({
+                                    ...returnQuantities,
+                                    [line.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), outstanding(line)),
+                                  })
+                                }
+                                className="w-20 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                              />
+                              <span>of {outstanding(line)} out</span>
+                            </div>
+                          )}
+                        </div>
+                        {unitsOut(line).length === 0 &&
+                          (returnQuantities[line.id] || 0) > 0 &&
+                          renderReturnInspection(line)}
+                        {unitsOut(line).length > 0 && (
+                          <div className="mt-2 space-y-3">
+                            {unitsOut(line).map((entry) => {
+                              const selected = (returnUnits[line.id] || []).includes(entry.unitId)
+                              return (
+                                <div key={entry.unitId} className="text-sm">
+                                  <label className="flex items-center space-x-3">
+                                    <input
+                                      type="checkbox"
+                                      checked={selected}
+                                      onChange={() => toggleReturnUnit(line.id, entry.unitId)}
+                                    />
+                                    <span className="text-gray-900">{entry.unit?.serialNumber}</span>
+                                  </label>
+                                  {selected && (
+                                    <div className="ml-7">
+                                      {renderReturnInspection(line, entry.unitId, entry.unit?.condition)}
+                                    </div>
+                                  )}
+                                </div>
+                              )
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleReturn}
+                      disabled={submitting}
+                      className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Undo2 size={18} />
+                      <span>Return</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Inspections */}
+              {hasInspections && (
+                <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+                    <ClipboardCheck size={20} className="text-gray-500" />
+                    <span>Inspections</span>
+                  </h3>
+                  <InspectionComparison inspections={inspections!} />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </StaffLayout>
+    </ProtectedRoute>
+  )
+}
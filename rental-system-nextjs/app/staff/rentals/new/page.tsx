@@ -0,0 +1,586 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import StaffLayout from '@/components/layouts/StaffLayout'
+import api from '@/lib/api'
+import { useAuthStore } from '@/lib/store/authStore'
+import { Customer, Item, ItemAvailability, RentalPricePreview } from '@/lib/types'
+import { ArrowLeft, Check, ChevronLeft, ChevronRight, Plus, Search, Trash2, UserPlus } from 'lucide-react'
+
+type Step = 'customer' | 'dates' | 'items' | 'review'
+
+// Dates come before items so availability can be shown for the chosen window
+const steps: { key: Step; label: string }[] = [
+  { key: 'customer', label: 'Customer' },
+  { key: 'dates', label: 'Dates' },
+  { key: 'items', label: 'Items' },
+  { key: 'review', label: 'Review' },
+]
+
+interface Line {
+  item: Item
+  quantity: number
+}
+
+const emptyCustomer = { name: '', email: '', phone: '', address: '' }
+
+// Date inputs are taken as local midnight, the start of the counter's day
+const toIso = (date: string) => new Date(`${date}T00:00:00`).toISOString()
+
+// Today's local date as a date input value, so it matches toIso
+const today = () => {
+  const now = new Date()
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+const formatMoney = (amount = 0) => `$${amount.toFixed(2)}`
+
+export default function NewRentalPage() {
+  const router = useRouter()
+  const { isAdmin } = useAuthStore()
+  const [step, setStep] = useState<Step>('customer')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // Customer
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [customerSearch, setCustomerSearch] = useState('')
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [showCustomerForm, setShowCustomerForm] = useState(false)
+  const [customerForm, setCustomerForm] = useState(emptyCustomer)
+
+  // Dates
+  const [startDate, setStartDate] = useState(today)
+  const [endDate, setEndDate] = useState('')
+
+  // Items
+  const [itemSearch, setItemSearch] = useState('')
+  const [items, setItems] = useState<Item[]>([])
+  const [lines, setLines] = useState<Line[]>([])
+  const [availability, setAvailability] = useState<Record<string, ItemAvailability>>({})
+
+  // Review
+  const [notes, setNotes] = useState('')
+  const [deposit, setDeposit] = useState('')
+  const [discount, setDiscount] = useState('')
+  const [preview, setPreview] = useState<RentalPricePreview | null>(null)
+
+  useEffect(() => {
+    if (step !== 'customer') return
+    const timeout = setTimeout(fetchCustomers, 300)
+    return () => clearTimeout(timeout)
+  }, [step, customerSearch])
+
+  useEffect(() => {
+    if (step !== 'items') return
+    const timeout = setTimeout(fetchItems, 300)
+    return () => clearTimeout(timeout)
+  }, [step, itemSearch])
+
+  // Availability depends on the window, so start over when it changes
+  useEffect(() => {
+    setAvailability({})
+  }, [startDate, endDate])
+
+  // The order is previewed on review (staff get it without prices) and
+  // re-priced as the discount changes
+  useEffect(() => {
+    if (step !== 'review') return
+    const timeout = setTimeout(fetchPreview, 300)
+    return () => clearTimeout(timeout)
+  }, [step, discount])
+
+  const fetchCustomers = async () => {
+    try {
+      const response = await api.get('/customers', { params: { search: customerSearch || undefined, limit: 10 } })
+      setCustomers(response.data.customers)
+    } catch (error) {
+      console.error('Error fetching customers:', error)
+    }
+  }
+
+  const fetchItems = async () => {
+    try {
+      const response = await api.get('/items', { params: { search: itemSearch || undefined, limit: 10 } })
+      const found: Item[] = response.data.items.filter((item: Item) => item.status !== 'RETIRED')
+      setItems(found)
+      await fetchAvailability([...found.map((item) => item.id), ...lines.map((line) => line.item.id)])
+    } catch (error) {
+      console.error('Error fetching items:', error)
+    }
+  }
+
+  const fetchAvailability = async (itemIds: string[]) => {
+    const missing = itemIds.filter((id) => !availability[id])
+    if (missing.length === 0) return
+
+    const entries = await Promise.all(
+      missing.map(async (id) => {
+        const response = await api.get(`/items/${id}/availability`, {
+          params: { from: toIso(startDate), to: toIso(endDate) },
+        })
+        return [id, response.data as ItemAvailability] as const
+      })
+    )
+    setAvailability((current) => ({ ...current, ...Object.fromEntries(entries) }))
+  }
+
+  const fetchPreview = async () => {
+    setPreview(null)
+    try {
+      const response = await api.post('/rentals/quote', {
+        ...orderBody(),
+        discount: discount || 0,
+      })
+      setPreview(response.data)
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to price rental')
+    }
+  }
+
+  const orderBody = () => ({
+    customerId: customer?.id,
+    startDate: toIso(startDate),
+    endDate: toIso(endDate),
+    items: lines.map((line) => ({ itemId: line.item.id, quantity: line.quantity })),
+  })
+
+  const handleCreateCustomer = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      const response = await api.post('/customers', customerForm)
+      setCustomer(response.data)
+      setCustomerForm(emptyCustomer)
+      setShowCustomerForm(false)
+      setStep('dates')
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to create customer')
+    }
+  }
+
+  const addLine = (item: Item) => {
+    if (lines.some((line) => line.item.id === item.id)) return
+    setLines([...lines, { item, quantity: 1 }])
+  }
+
+  const setLineQuantity = (itemId: string, quantity: number) => {
+    setLines(lines.map((line) => (line.item.id === itemId ? { ...line, quantity: Math.max(quantity, 1) } : line)))
+  }
+
+  const removeLine = (itemId: string) => {
+    setLines(lines.filter((line) => line.item.id !== itemId))
+  }
+
+  const isShort = (line: Line) => {
+    const free = availability[line.item.id]?.availableUnits
+    return free !== undefined && line.quantity > free
+  }
+
+  const canContinue = () => {
+    if (step === 'customer') return Boolean(customer)
+    if (step === 'dates') return Boolean(startDate && endDate && endDate > startDate)
+    if (step === 'items') return lines.length > 0 && !lines.some(isShort)
+    return true
+  }
+
+  const goTo = (offset: number) => {
+    setError('')
+    const index = steps.findIndex((entry) => entry.key === step)
+    setStep(steps[index + offset].key)
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setError('')
+    try {
+      const response = await api.post('/rentals', {
+        ...orderBody(),
+        notes: notes || undefined,
+        ...(isAdmin() && { deposit: deposit || 0, discount: discount || 0 }),
+      })
+      router.push(`/staff/rentals/${response.data.id}`)
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to create rental')
+      setSubmitting(false)
+    }
+  }
+
+  const stepIndex = steps.findIndex((entry) => entry.key === step)
+
+  return (
+    <ProtectedRoute>
+      <StaffLayout>
+        <div className="space-y-6">
+          <Link href="/staff/rentals" className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft size={16} />
+            <span>Back to rentals</span>
+          </Link>
+
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">New Rental</h1>
+            <p className="text-gray-600">Book items for a customer</p>
+          </div>
+
+          {/* Progress */}
+          <ol className="flex items-center space-x-4">
+            {steps.map((entry, index) => (
+              <li key={entry.key} className="flex items-center space-x-2">
+                <span
+                  className={`flex items-center justify-center w-8 h-8 rounded-full text-sm font-medium ${
+                    index < stepIndex
+                      ? 'bg-green-600 text-white'
+                      : index === stepIndex
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-200 text-gray-600'
+                  }`}
+                >
+                  {index < stepIndex ? <Check size={16} /> : index + 1}
+                </span>
+                <span className={`text-sm ${index === stepIndex ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+                  {entry.label}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+            {step === 'customer' && (
+              <div className="space-y-4">
+                <div className="flex space-x-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                    <input
+                      type="text"
+                      placeholder="Search customers by name or email..."
+                      value={customerSearch}
+                      onChange={(e) => setCustomerSearch(e.target.value)}
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <button
+                    onClick={() => setShowCustomerForm(!showCustomerForm)}
+                    className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                  >
+                    <UserPlus size={18} />
+                    <span>New Customer</span>
+                  </button>
+                </div>
+
+                {showCustomerForm && (
+                  <form onSubmit={handleCreateCustomer} className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
+                    {([
+                      ['name', 'Full Name *', 'text', true],
+                      ['email', 'Email *', 'email', true],
+                      ['phone', 'Phone *', 'tel', true],
+                      ['address', 'Address', 'text', false],
+                    ] as const).map(([field, label, type, required]) => (
+                      <div key={field}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                        <input
+                          type={type}
+                          required={required}
+                          value={customerForm[field]}
+                          onChange={(e) => setCustomerForm({ ...customerForm, [field]: e.target.value })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    ))}
+                    <div className="md:col-span-2 flex justify-end">
+                      <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition">
+                        Create and Select
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {customers.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500 text-center">No customers found</p>
+                  ) : (
+                    customers.map((entry) => (
+                      <button
+                        key={entry.id}
+                        onClick={() => setCustomer(entry)}
+                        className={`w-full flex justify-between items-center p-4 text-left transition ${
+                          customer?.id === entry.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900">{entry.name}</p>
+                          <p className="text-sm text-gray-600">
+                            {entry.email} · {entry.phone}
+                          </p>
+                        </div>
+                        {customer?.id === entry.id && <Check size={20} className="text-blue-600" />}
+                      </button>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+
+            {step === 'dates' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-xl">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Start date</label>
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">End date</label>
+                  <input
+                    type="date"
+                    value={endDate}
+                    min={startDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                {startDate && endDate && endDate <= startDate && (
+                  <p className="md:col-span-2 text-sm text-red-600">The end date must be after the start date.</p>
+                )}
+              </div>
+            )}
+
+            {step === 'items' && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                    <input
+                      type="text"
+                      placeholder="Search items..."
+                      value={itemSearch}
+                      onChange={(e) => setItemSearch(e.target.value)}
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {items.map((item) => {
+                      const free = availability[item.id]?.availableUnits
+                      const added = lines.some((line) => line.item.id === item.id)
+                      return (
+                        <div key={item.id} className="flex justify-between items-center p-4">
+                          <div>
+                            <p className="font-medium text-gray-900">{item.name}</p>
+                            <p className={`text-sm ${free === 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                              {free === undefined ? 'Checking availability...' : `${free} of ${item.quantity} free`}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => addLine(item)}
+                            disabled={added || !free}
+                            className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {added ? <Check size={16} /> : <Plus size={16} />}
+                            <span>{added ? 'Added' : 'Add'}</span>
+                          </button>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Order</h3>
+                  {lines.length === 0 ? (
+                    <p className="text-sm text-gray-500">Add at least one item.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {lines.map((line) => (
+                        <div key={line.item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                          <div>
+                            <p className="font-medium text-gray-900">{line.item.name}</p>
+                            {isShort(line) && (
+                              <p className="text-sm text-red-600">
+                                Only {availability[line.item.id].availableUnits} free for these dates
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            <input
+                              type="number"
+                              min={1}
+                              value={line.quantity}
+                              onChange={(e) => setLineQuantity(line.item.id, parseInt(e.target.value) || 1)}
+                              className="w-20 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                            />
+                            <button onClick={() => removeLine(line.item.id)} className="text-red-600 hover:text-red-800">
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {step === 'review' && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Customer</p>
+                    <p className="font-medium text-gray-900">{customer?.name}</p>
+                    <p className="text-gray-600">{customer?.phone}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Dates</p>
+                    <p className="font-medium text-gray-900">
+                      {new Date(toIso(startDate)).toLocaleDateString()} – {new Date(toIso(endDate)).toLocaleDateString()}
+                    </p>
+                    {preview && <p className="text-gray-600">{preview.numberOfDays} day(s)</p>}
+                  </div>
+                </div>
+
+                {/* Prices are financial data, so staff only see what is being booked */}
+                {isAdmin() ? (
+                  preview ? (
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">Item</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">Qty</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">Daily Rate</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">Discount</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">Subtotal</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {preview.lines.map((line) => (
+                          <tr key={line.itemId}>
+                            <td className="px-4 py-2">
+                              {line.itemName}
+                              {line.pricing?.ratePlanName && (
+                                <span className="text-gray-500"> · {line.pricing.ratePlanName}</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-right">{line.quantity}</td>
+                            <td className="px-4 py-2 text-right">{formatMoney(line.dailyRate)}</td>
+                            <td className="px-4 py-2 text-right">{formatMoney(line.discount)}</td>
+                            <td className="px-4 py-2 text-right">{formatMoney(line.subtotal)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot className="font-medium">
+                        {Boolean(preview.discount) && (
+                          <tr>
+                            <td colSpan={4} className="px-4 py-2 text-right text-gray-600">Order discount</td>
+                            <td className="px-4 py-2 text-right">-{formatMoney(preview.discount)}</td>
+                          </tr>
+                        )}
+                        <tr>
+                          <td colSpan={4} className="px-4 py-2 text-right text-gray-900">Total</td>
+                          <td className="px-4 py-2 text-right text-gray-900">{formatMoney(preview.totalAmount)}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-gray-500">Pricing...</p>
+                  )
+                ) : (
+                  <div className="space-y-2">
+                    {lines.map((line) => {
+                      const previewLine = preview?.lines.find((entry) => entry.itemId === line.item.id)
+                      return (
+                        <p key={line.item.id} className="text-sm text-gray-900">
+                          {line.quantity} × {line.item.name}
+                          {previewLine && !previewLine.available && (
+                            <span className="text-red-600"> · only {previewLine.availableUnits} free</span>
+                          )}
+                        </p>
+                      )
+                    })}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {isAdmin() && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Order discount</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={discount}
+                          onChange={(e) => setDiscount(e.target.value)}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Deposit required</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={deposit}
+                          onChange={(e) => setDeposit(e.target.value)}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={2}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Navigation */}
+          <div className="flex justify-between">
+            <button
+              onClick={() => goTo(-1)}
+              disabled={stepIndex === 0}
+              className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft size={18} />
+              <span>Back</span>
+            </button>
+            {step === 'review' ? (
+              <button
+                onClick={handleSubmit}
+                disabled={submitting}
+                className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check size={18} />
+                <span>Confirm Booking</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => goTo(1)}
+                disabled={!canContinue()}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <span>Next</span>
+                <ChevronRight size={18} />
+              </button>
+            )}
+          </div>
+        </div>
+      </StaffLayout>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import StaffLayout from '@/components/layouts/StaffLayout'
+import api from '@/lib/api'
+import { Rental, RentalStatus } from '@/lib/types'
+import { AlertTriangle, ChevronLeft, ChevronRight, Plus, Search } from 'lucide-react'
+
+const STATUSES: ('ALL' | RentalStatus)[] = ['ALL', 'PENDING', 'CONFIRMED', 'ACTIVE', 'OVERDUE', 'COMPLETED', 'CANCELLED']
+
+const statusStyles: Record<string, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-700',
+  CONFIRMED: 'bg-indigo-100 text-indigo-700',
+  ACTIVE: 'bg-blue-100 text-blue-700',
+  OVERDUE: 'bg-red-100 text-red-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-gray-100 text-gray-700',
+}
+
+// Items still out past their end date, including active rentals the
+// mark-overdue job has not reached yet
+const isOverdue = (rental: Rental) =>
+  rental.status === 'OVERDUE' || (rental.status === 'ACTIVE' && new Date(rental.endDate) < new Date())
+
+export default function StaffRentalsPage() {
+  const [rentals, setRentals] = useState<Rental[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<'ALL' | RentalStatus>('ALL')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchTerm)
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  useEffect(() => {
+    fetchRentals()
+  }, [statusFilter, search, page])
+
+  const fetchRentals = async () => {
+    setLoading(true)
+    try {
+      const response = await api.get('/rentals', {
+        params: { page, limit: 20, status: statusFilter, search: search || undefined },
+      })
+      setRentals(response.data.rentals)
+      setTotalPages(response.data.totalPages || 1)
+    } catch (error) {
+      console.error('Error fetching rentals:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <ProtectedRoute>
+      <StaffLayout>
+        <div className="space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Rentals</h1>
+              <p className="text-gray-600">Book, check out and return rentals</p>
+            </div>
+            <Link
+              href="/staff/rentals/new"
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+            >
+              <Plus size={20} />
+              <span>New Rental</span>
+            </Link>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+            {/* Filters */}
+            <div className="p-6 border-b border-gray-200 space-y-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                <input
+                  type="text"
+                  placeholder="Search by customer or item..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {STATUSES.map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => {
+                      setStatusFilter(status)
+                      setPage(1)
+                    }}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                      statusFilter === status
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {status}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Table */}
+            <div className="overflow-x-auto">
+              {loading ? (
+                <div className="flex items-center justify-center h-64">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Rental
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Customer
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Items
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Dates
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rentals.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                          No rentals found
+                        </td>
+                      </tr>
+                    ) : (
+                      rentals.map((rental) => {
+                        const overdue = isOverdue(rental)
+                        return (
+                          <tr key={rental.id} className={overdue ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <Link
+                                href={`/staff/rentals/${rental.id}`}
+                                className="font-medium text-blue-600 hover:text-blue-800"
+                              >
+                                #{rental.id.slice(0, 8)}
+                              </Link>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <div className="font-medium text-gray-900">{rental.customer?.name}</div>
+                              <div className="text-gray-500">{rental.customer?.phone}</div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-700">
+                              {rental.items?.map((line) => `${line.quantity} × ${line.item?.name}`).join(', ')}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                              {new Date(rental.startDate).toLocaleDateString()} –{' '}
+                              <span className={overdue ? 'font-medium text-red-700' : ''}>
+                                {new Date(rental.endDate).toLocaleDateString()}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[rental.status]}`}>
+                                {rental.status}
+                              </span>
+                              {overdue && rental.status === 'ACTIVE' && (
+                                <span className="inline-flex items-center ml-2 text-xs text-red-700">
+                                  <AlertTriangle size={14} className="mr-1" />
+                                  Past due
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })
+                    )}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {totalPages > 1 && (
+              <div className="flex justify-between items-center px-6 py-4 border-t border-gray-200 text-sm text-gray-600">
+                <span>
+                  Page {page} of {totalPages}
+                </span>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <ChevronLeft size={16} />
+                  </button>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                    className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <ChevronRight size={16} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </StaffLayout>
+    </ProtectedRoute>
+  )
+}
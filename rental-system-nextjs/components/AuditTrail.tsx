@@ -0,0 +1,100 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { AuditLog } from '@/lib/types'
+
+interface AuditTrailProps {
+  entity: string
+  entityId: string
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Who changed what on one record, newest first. The audit log is admin only.
+export default function AuditTrail({ entity, entityId }: AuditTrailProps) {
+  const [logs, setLogs] = useState<AuditLog[]>([])
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchLogs(1)
+  }, [entity, entityId])
+
+  const fetchLogs = async (nextPage: number) => {
+    setLoading(true)
+    try {
+      const response = await api.get('/audit', { params: { entity, entityId, page: nextPage } })
+      setLogs((current) => (nextPage === 1 ? response.data.logs : [...current, ...response.data.logs]))
+      setPage(nextPage)
+      setTotalPages(response.data.totalPages)
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!loading && logs.length === 0) {
+    return <p className="text-sm text-gray-500">No changes recorded yet.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {logs.map((log) => {
+        const changes = Object.entries(log.changes || {})
+        const details = Object.entries(log.metadata || {})
+
+        return (
+          <div key={log.id} className="p-4 bg-gray-50 rounded-lg">
+            <div className="flex justify-between items-center">
+              <p className="font-medium text-gray-900">
+                {log.action.replace(/_/g, ' ').toLowerCase()}
+                <span className="font-normal text-gray-600"> by {log.user?.name || 'system'}</span>
+              </p>
+              <p className="text-sm text-gray-500">{new Date(log.createdAt).toLocaleString()}</p>
+            </div>
+            {changes.length > 0 && (
+              <table className="w-full mt-2 text-sm">
+                <tbody>
+                  {changes.map(([field, change]) => (
+                    <tr key={field}>
+                      <td className="py-1 pr-4 text-gray-500 w-1/4">{field}</td>
+                      <td className="py-1 pr-4 text-red-700 line-through">{formatValue(change.from)}</td>
+                      <td className="py-1 text-green-700">{formatValue(change.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {details.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                {details.map(([key, value]) => `${key}: ${formatValue(value)}`).join(' · ')}
+              </p>
+            )}
+          </div>
+        )
+      })}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        page < totalPages && (
+          <button
+            onClick={() => fetchLogs(page + 1)}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+          >
+            Load more
+          </button>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { Category, InspectionChecklist } from '@/lib/types'
+import { ClipboardCheck, Pencil } from 'lucide-react'
+
+// The check points graded at check-out and return, one list per category
+export default function InspectionChecklists() {
+  const [categories, setCategories] = useState<Category[]>([])
+  const [checklists, setChecklists] = useState<InspectionChecklist[]>([])
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchChecklists()
+  }, [])
+
+  const fetchChecklists = async () => {
+    try {
+      const [categoriesRes, checklistsRes] = await Promise.all([
+        api.get('/categories'),
+        api.get('/inspections/checklists'),
+      ])
+      setCategories(categoriesRes.data)
+      setChecklists(checklistsRes.data)
+    } catch (error) {
+      console.error('Error fetching checklists:', error)
+    }
+  }
+
+  const checksFor = (categoryId: string) =>
+    checklists.find((checklist) => checklist.categoryId === categoryId)?.checks || []
+
+  const startEditing = (categoryId: string) => {
+    setEditing(categoryId)
+    setDraft(checksFor(categoryId).join('\n'))
+    setError('')
+  }
+
+  // One check point per line; an empty list removes the checklist
+  const handleSave = async (categoryId: string) => {
+    const checks = draft.split('\n').map((line) => line.trim()).filter(Boolean)
+
+    setSubmitting(true)
+    setError('')
+    try {
+      if (checks.length > 0) {
+        await api.put(`/inspections/checklists/${categoryId}`, { checks })
+      } else if (checksFor(categoryId).length > 0) {
+        await api.delete(`/inspections/checklists/${categoryId}`)
+      }
+      setEditing(null)
+      fetchChecklists()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save checklist')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+      <h3 className="text-lg font-semibold mb-1 flex items-center space-x-2">
+        <ClipboardCheck size={20} className="text-gray-500" />
+        <span>Inspection Checklists</span>
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">Graded for every item of the category at check-out and return.</p>
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {categories.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">No categories yet</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {categories.map((category) => (
+            <div key={category.id} className="py-3">
+              <div className="flex justify-between items-center">
+                <div>
+                  <p className="font-medium text-gray-900">{category.name}</p>
+                  {editing !== category.id && (
+                    <p className="text-sm text-gray-600">
+                      {checksFor(category.id).length > 0
+                        ? checksFor(category.id).join(', ')
+                        : 'Overall grade only'}
+                    </p>
+                  )}
+                </div>
+                {editing !== category.id && (
+                  <button onClick={() => startEditing(category.id)} className="p-2 text-gray-500 hover:text-blue-600">
+                    <Pencil size={16} />
+                  </button>
+                )}
+              </div>
+              {editing === category.id && (
+                <div className="mt-2 space-y-2">
+                  <textarea
+                    rows={4}
+                    value={draft}
+                    placeholder="One check point per line, e.g. Blade"
+                    onChange={(e) => setDraft(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setEditing(null)}
+                      className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleSave(category.id)}
+                      disabled={submitting}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
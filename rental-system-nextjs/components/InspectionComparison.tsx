@@ -0,0 +1,117 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { Inspection, InspectionComparison as Comparison, RentalInspections } from '@/lib/types'
+import { AlertTriangle, Wrench } from 'lucide-react'
+
+// Photos need the auth header, so they are fetched as blobs rather than linked
+function PhotoThumb({ photoId }: { photoId: string }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let objectUrl: string | null = null
+    api
+      .get(`/inspections/photos/${photoId}`, { responseType: 'blob' })
+      .then((response) => {
+        objectUrl = URL.createObjectURL(response.data)
+        setUrl(objectUrl)
+      })
+      .catch((error) => console.error('Error fetching photo:', error))
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [photoId])
+
+  if (!url) return <div className="h-16 w-16 bg-gray-100 rounded" />
+
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img src={url} alt="Inspection photo" className="h-16 w-16 object-cover rounded" />
+    </a>
+  )
+}
+
+function InspectionSummary({ title, inspection, comparison }: {
+  title: string
+  inspection: Inspection | null
+  comparison?: Comparison
+}) {
+  if (!inspection) {
+    return (
+      <div>
+        <p className="text-xs font-medium text-gray-500 uppercase mb-1">{title}</p>
+        <p className="text-sm text-gray-400">Not inspected</p>
+      </div>
+    )
+  }
+
+  const worse = new Set(comparison?.changes.map((change) => change.label))
+
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="text-xs font-medium text-gray-500 uppercase">{title}</p>
+      <p className="font-medium text-gray-900">{inspection.condition}</p>
+      {inspection.checks.map((check) => (
+        <p key={check.label} className={worse.has(check.label) ? 'text-red-700 font-medium' : 'text-gray-700'}>
+          {check.label}: {check.condition}
+          {check.notes && <span className="text-gray-500 font-normal"> · {check.notes}</span>}
+        </p>
+      ))}
+      {inspection.notes && <p className="text-gray-500">{inspection.notes}</p>}
+      {inspection.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          {inspection.photos.map((photo) => (
+            <PhotoThumb key={photo.id} photoId={photo.id} />
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-400">
+        {new Date(inspection.createdAt).toLocaleString()}
+        {inspection.user && ` · ${inspection.user.name}`}
+      </p>
+    </div>
+  )
+}
+
+// Before/after view of each line's (or unit's) check-out and return inspections
+export default function InspectionComparison({ inspections }: { inspections: RentalInspections }) {
+  const itemName = (rentalItemId: string) =>
+    inspections.lines.find((line) => line.rentalItemId === rentalItemId)?.item.name
+
+  return (
+    <div className="space-y-4">
+      {inspections.comparisons.map((comparison) => (
+        <div
+          key={`${comparison.rentalItemId}:${comparison.unit?.id || ''}`}
+          className={`p-4 rounded-lg ${comparison.worsened ? 'bg-red-50' : 'bg-gray-50'}`}
+        >
+          <div className="flex justify-between items-center mb-3">
+            <p className="font-medium text-gray-900">
+              {itemName(comparison.rentalItemId)}
+              {comparison.unit && <span className="text-gray-500 font-normal"> · {comparison.unit.serialNumber}</span>}
+            </p>
+            <div className="flex items-center space-x-3 text-sm">
+              {comparison.worsened && (
+                <span className="inline-flex items-center text-red-700 font-medium">
+                  <AlertTriangle size={14} className="mr-1" />
+                  Came back worse
+                </span>
+              )}
+              {comparison.return?.maintenanceId && (
+                <span className="inline-flex items-center text-orange-700">
+                  <Wrench size={14} className="mr-1" />
+                  Maintenance ticket opened
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <InspectionSummary title="Check-out" inspection={comparison.checkout} />
+            <InspectionSummary title="Return" inspection={comparison.return} comparison={comparison} />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
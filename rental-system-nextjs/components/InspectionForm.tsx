@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from 'react'
+import api from '@/lib/api'
+import { Inspection, InspectionChange, InspectionCheck, UnitCondition } from '@/lib/types'
+import { Camera, X } from 'lucide-react'
+
+export const CONDITIONS: UnitCondition[] = ['NEW', 'GOOD', 'FAIR', 'POOR', 'DAMAGED']
+
+// Grades that need servicing when an item comes back in them
+const SERVICE_CONDITIONS: UnitCondition[] = ['POOR', 'DAMAGED']
+
+export interface InspectionDraft {
+  condition: UnitCondition
+  checks: InspectionCheck[]
+  notes: string
+  photos: { id: string; preview: string }[]
+}
+
+export const newInspectionDraft = (checks: string[], condition: UnitCondition = 'GOOD'): InspectionDraft => ({
+  condition,
+  checks: checks.map((label) => ({ label, condition })),
+  notes: '',
+  photos: [],
+})
+
+// Request body for an inspection of a line (or one unit of it)
+export const toInspectionInput = (rentalItemId: string, unitId: string | undefined, draft: InspectionDraft) => ({
+  rentalItemId,
+  unitId,
+  condition: draft.condition,
+  checks: draft.checks,
+  notes: draft.notes || undefined,
+  photoIds: draft.photos.map((photo) => photo.id),
+})
+
+const rank = (condition: UnitCondition) => CONDITIONS.indexOf(condition)
+
+// What got worse since check-out, the same way the API compares them
+export const findChanges = (
+  checkout: Inspection | null,
+  draft: InspectionDraft
+): { worsened: boolean; changes: InspectionChange[] } => {
+  if (!checkout) {
+    return {
+      worsened: SERVICE_CONDITIONS.includes(draft.condition),
+      changes: draft.checks
+        .filter((check) => SERVICE_CONDITIONS.includes(check.condition))
+        .map((check) => ({ label: check.label, before: null, after: check.condition })),
+    }
+  }
+
+  const before = new Map(checkout.checks.map((check) => [check.label, check.condition]))
+  const changes = draft.checks
+    .filter((check) => before.has(check.label) && rank(check.condition) > rank(before.get(check.label)!))
+    .map((check) => ({ label: check.label, before: before.get(check.label)!, after: check.condition }))
+
+  return { worsened: rank(draft.condition) > rank(checkout.condition) || changes.length > 0, changes }
+}
+
+interface InspectionFormProps {
+  value: InspectionDraft
+  onChange: (draft: InspectionDraft) => void
+}
+
+// Condition grade, checklist, notes and photos for one inspection
+export default function InspectionForm({ value, onChange }: InspectionFormProps) {
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Photos are uploaded straight away and attached when the check-out or return is saved
+  const handlePhotos = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    setUploading(true)
+    setError('')
+    try {
+      const uploaded = await Promise.all(
+        Array.from(files).map(async (file) => {
+          const response = await api.post('/inspections/photos', file, { headers: { 'Content-Type': file.type } })
+          return { id: response.data.id as string, preview: URL.createObjectURL(file) }
+        })
+      )
+      onChange({ ...value, photos: [...value.photos, ...uploaded] })
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to upload photo')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const setCheck = (index: number, check: Partial<InspectionCheck>) =>
+    onChange({
+      ...value,
+      checks: value.checks.map((entry, position) => (position === index ? { ...entry, ...check } : entry)),
+    })
+
+  const selectClass = 'px-2 py-1 border border-gray-300 rounded-lg text-sm'
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center space-x-3">
+        <span className="w-32 text-gray-700">Overall</span>
+        <select
+          value={value.condition}
+          onChange={(e) => onChange({ ...value, condition: e.target.value as UnitCondition })}
+          className={selectClass}
+        >
+          {CONDITIONS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+
+      {value.checks.map((check, index) => (
+        <div key={check.label} className="flex items-center space-x-3">
+          <span className="w-32 text-gray-700">{check.label}</span>
+          <select
+            value={check.condition}
+            onChange={(e) => setCheck(index, { condition: e.target.value as UnitCondition })}
+            className={selectClass}
+          >
+            {CONDITIONS.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Notes"
+            value={check.notes || ''}
+            onChange={(e) => setCheck(index, { notes: e.target.value })}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+      ))}
+
+      <input
+        type="text"
+        placeholder="Inspection notes"
+        value={value.notes}
+        onChange={(e) => onChange({ ...value, notes: e.target.value })}
+        className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        {value.photos.map((photo) => (
+          <div key={photo.id} className="relative">
+            <img src={photo.preview} alt="Inspection photo" className="h-16 w-16 object-cover rounded" />
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, photos: value.photos.filter((entry) => entry.id !== photo.id) })}
+              className="absolute -top-1 -right-1 bg-white rounded-full text-gray-500 hover:text-red-600"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        <label className="flex items-center space-x-1 px-3 py-1 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 cursor-pointer">
+          <Camera size={14} />
+          <span>{uploading ? 'Uploading...' : 'Add photos'}</span>
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            capture="environment"
+            multiple
+            disabled={uploading}
+            onChange={(e) => {
+              handlePhotos(e.target.files)
+              e.target.value = ''
+            }}
+            className="hidden"
+          />
+        </label>
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+    </div>
+  )
+}
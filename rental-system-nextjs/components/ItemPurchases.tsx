@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { Purchase } from '@/lib/types'
+import { Archive, Plus, Trash2 } from 'lucide-react'
+
+interface ItemPurchasesProps {
+  itemId: string
+  retired: boolean
+  onRetired: () => void
+}
+
+const emptyForm = {
+  supplier: '',
+  quantity: '1',
+  cost: '',
+  purchaseDate: new Date().toISOString().slice(0, 10),
+  warrantyUntil: '',
+  invoiceNumber: '',
+}
+
+// Purchase records of one item, and retiring it with its disposal value.
+// Purchases and disposals are admin only.
+export default function ItemPurchases({ itemId, retired, onRetired }: ItemPurchasesProps) {
+  const [purchases, setPurchases] = useState<Purchase[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [showForm, setShowForm] = useState(false)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchPurchases()
+  }, [itemId])
+
+  const fetchPurchases = async () => {
+    try {
+      const response = await api.get('/assets/purchases', { params: { itemId, limit: 100 } })
+      setPurchases(response.data.purchases)
+    } catch (error) {
+      console.error('Error fetching purchases:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    try {
+      await api.post('/assets/purchases', {
+        itemId,
+        ...form,
+        warrantyUntil: form.warrantyUntil || undefined,
+        invoiceNumber: form.invoiceNumber || undefined,
+      })
+      setForm(emptyForm)
+      setShowForm(false)
+      await fetchPurchases()
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to record purchase')
+    }
+  }
+
+  const handleDelete = async (purchase: Purchase) => {
+    if (!window.confirm(`Delete the purchase from ${purchase.supplier} and its expense?`)) return
+
+    try {
+      await api.delete(`/assets/purchases/${purchase.id}`)
+      await fetchPurchases()
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to delete purchase')
+    }
+  }
+
+  const handleRetire = async () => {
+    const value = window.prompt('Disposal value (what the item was sold for; 0 if scrapped)', '0')
+    if (value === null) return
+
+    try {
+      await api.post(`/assets/items/${itemId}/retire`, { value })
+      onRetired()
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Failed to retire item')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition"
+        >
+          <Plus size={16} />
+          <span>Record Purchase</span>
+        </button>
+        {/* An item retired without a disposal can still have one recorded */}
+        <button
+          onClick={handleRetire}
+          className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-600 text-sm rounded-lg hover:bg-red-50 transition"
+        >
+          <Archive size={16} />
+          <span>{retired ? 'Record Disposal' : 'Retire Item'}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-3 gap-4 p-4 bg-gray-50 rounded-lg">
+          {([
+            ['supplier', 'Supplier', 'text', true],
+            ['quantity', 'Quantity', 'number', true],
+            ['cost', 'Total cost', 'number', true],
+            ['purchaseDate', 'Purchase date', 'date', true],
+            ['warrantyUntil', 'Warranty until', 'date', false],
+            ['invoiceNumber', 'Supplier invoice', 'text', false],
+          ] as const).map(([field, label, type, required]) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                type={type}
+                required={required}
+                step={field === 'cost' ? '0.01' : undefined}
+                value={form[field]}
+                onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+          ))}
+          {error && <p className="col-span-full text-sm text-red-600">{error}</p>}
+          <div className="col-span-full flex justify-end">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? null : purchases.length === 0 ? (
+        <p className="text-sm text-gray-500">No purchases recorded.</p>
+      ) : (
+        <div className="space-y-2">
+          {purchases.map((purchase) => (
+            <div key={purchase.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {purchase.quantity} from {purchase.supplier} · ${purchase.cost.toFixed(2)}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {new Date(purchase.purchaseDate).toLocaleDateString()}
+                  {purchase.invoiceNumber && ` · Invoice ${purchase.invoiceNumber}`}
+                  {purchase.warrantyUntil && ` · Warranty until ${new Date(purchase.warrantyUntil).toLocaleDateString()}`}
+                </p>
+              </div>
+              <button onClick={() => handleDelete(purchase)} className="text-red-600 hover:text-red-800">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { useAuthStore } from '@/lib/store/authStore'
+import { Maintenance, MaintenanceStatus } from '@/lib/types'
+import WorkOrderModal from '@/components/WorkOrderModal'
+import MaintenancePlans from '@/components/MaintenancePlans'
+import { CalendarClock, Plus, Repeat, User } from 'lucide-react'
+
+const columns: { status: MaintenanceStatus; label: string; accent: string }[] = [
+  { status: 'PENDING', label: 'Pending', accent: 'border-yellow-400' },
+  { status: 'IN_PROGRESS', label: 'In Progress', accent: 'border-blue-500' },
+  { status: 'COMPLETED', label: 'Completed', accent: 'border-green-500' },
+]
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+interface MaintenanceBoardProps {
+  // A work order to open, or an item (and unit) to start a new one for, e.g. after a scan
+  focus?: { maintenanceId?: string; itemId?: string; unitId?: string }
+}
+
+// Maintenance work orders in Pending / In Progress / Completed columns, with
+// preventive maintenance plans on a second tab. Costs only come back from the
+// API for admins.
+export default function MaintenanceBoard({ focus }: MaintenanceBoardProps) {
+  const { isAdmin } = useAuthStore()
+  const [board, setBoard] = useState<Record<MaintenanceStatus, Maintenance[]>>({
+    PENDING: [],
+    IN_PROGRESS: [],
+    COMPLETED: [],
+  })
+  const [loading, setLoading] = useState(true)
+  const [tab, setTab] = useState<'board' | 'plans'>('board')
+  // undefined: closed, null: new work order
+  const [selected, setSelected] = useState<Maintenance | null | undefined>(undefined)
+  const [defaults, setDefaults] = useState<{ itemId?: string; unitId?: string }>()
+
+  useEffect(() => {
+    fetchBoard()
+  }, [])
+
+  useEffect(() => {
+    if (loading || !focus) return
+
+    if (focus.maintenanceId) {
+      const match = Object.values(board)
+        .flat()
+        .find((maintenance) => maintenance.id === focus.maintenanceId)
+      if (match) setSelected(match)
+    } else if (focus.itemId) {
+      setDefaults({ itemId: focus.itemId, unitId: focus.unitId })
+      setSelected(null)
+    }
+  }, [loading])
+
+  const fetchBoard = async () => {
+    try {
+      const responses = await Promise.all(
+        columns.map((column) =>
+          api.get('/maintenance', {
+            params: { status: column.status, limit: column.status === 'COMPLETED' ? 20 : 100 },
+          })
+        )
+      )
+      setBoard({
+        PENDING: responses[0].data.maintenances,
+        IN_PROGRESS: responses[1].data.maintenances,
+        COMPLETED: responses[2].data.maintenances,
+      })
+    } catch (error) {
+      console.error('Error fetching maintenance:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    setSelected(undefined)
+    setDefaults(undefined)
+  }
+
+  const handleSaved = () => {
+    handleClose()
+    fetchBoard()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Maintenance</h1>
+          <p className="text-gray-600">Work orders and scheduled servicing</p>
+        </div>
+        <button
+          onClick={() => setSelected(null)}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+        >
+          <Plus size={20} />
+          <span>New Work Order</span>
+        </button>
+      </div>
+
+      <div className="flex space-x-2">
+        {(['board', 'plans'] as const).map((key) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+              tab === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {key === 'board' ? 'Work Orders' : 'Plans'}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'plans' ? (
+        <MaintenancePlans onWorkOrderOpened={fetchBoard} />
+      ) : loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {columns.map((column) => (
+            <div key={column.status} className="bg-gray-100 rounded-xl p-4">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="font-semibold text-gray-900">{column.label}</h2>
+                <span className="px-2 py-1 bg-white text-gray-600 text-xs font-medium rounded-full">
+                  {board[column.status].length}
+                </span>
+              </div>
+              <div className="space-y-3">
+                {board[column.status].length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-6">Nothing here</p>
+                )}
+                {board[column.status].map((maintenance) => {
+                  const scheduled = maintenance.status === 'PENDING' && new Date(maintenance.startDate) > new Date()
+                  return (
+                    <button
+                      key={maintenance.id}
+                      onClick={() => setSelected(maintenance)}
+                      className={`w-full text-left bg-white rounded-lg shadow-sm p-4 border-l-4 ${column.accent} hover:shadow-md transition`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <p className="font-medium text-gray-900">
+                          {maintenance.item?.name}
+                          {maintenance.unit && (
+                            <span className="text-gray-500 font-normal"> · {maintenance.unit.serialNumber}</span>
+                          )}
+                        </p>
+                        {scheduled && (
+                          <span className="px-2 py-0.5 bg-purple-100 text-purple-700 text-xs font-medium rounded">
+                            Scheduled
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">{maintenance.description}</p>
+                      <div className="mt-3 space-y-1 text-xs text-gray-500">
+                        <p className="flex items-center">
+                          <CalendarClock size={14} className="mr-1" />
+                          {maintenance.status === 'COMPLETED' && maintenance.endDate
+                            ? `Completed ${formatDateTime(maintenance.endDate)}`
+                            : `${formatDateTime(maintenance.startDate)}${
+                                maintenance.endDate ? ` – ${formatDateTime(maintenance.endDate)}` : ''
+                              }`}
+                        </p>
+                        {maintenance.plan && (
+                          <p className="flex items-center">
+                            <Repeat size={14} className="mr-1" />
+                            {maintenance.plan.name}
+                          </p>
+                        )}
+                        {maintenance.technician && (
+                          <p className="flex items-center">
+                            <User size={14} className="mr-1" />
+                            {maintenance.technician}
+                          </p>
+                        )}
+                        {isAdmin() && maintenance.cost !== undefined && maintenance.cost > 0 && (
+                          <p className="text-gray-700">
+                            {formatMoney(maintenance.cost)} (parts {formatMoney(maintenance.partsCost || 0)}, labour{' '}
+                            {formatMoney(maintenance.labourCost || 0)})
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected !== undefined && (
+        <WorkOrderModal maintenance={selected} defaults={defaults} onClose={handleClose} onSaved={handleSaved} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { Category, Item, MaintenancePlan, MaintenanceTrigger } from '@/lib/types'
+import { Trash2, X } from 'lucide-react'
+
+interface MaintenancePlanModalProps {
+  plan: MaintenancePlan | null // null to create a new plan
+  onClose: () => void
+  onSaved: () => void
+}
+
+export const TRIGGER_OPTIONS: { value: MaintenanceTrigger; label: string; unit: string }[] = [
+  { value: 'CALENDAR', label: 'Calendar interval', unit: 'days' },
+  { value: 'RENTAL_COUNT', label: 'Number of rentals', unit: 'rentals' },
+  { value: 'RENTAL_DAYS', label: 'Days out on rental', unit: 'rental-days' },
+]
+
+export const triggerUnit = (trigger: MaintenanceTrigger) =>
+  TRIGGER_OPTIONS.find((option) => option.value === trigger)?.unit || ''
+
+// Create or edit a preventive maintenance plan for an item or a category
+export default function MaintenancePlanModal({ plan, onClose, onSaved }: MaintenancePlanModalProps) {
+  const [items, setItems] = useState<Item[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [form, setForm] = useState({
+    name: plan?.name || '',
+    description: plan?.description || '',
+    scope: plan?.itemId ? 'item' : 'category',
+    itemId: plan?.itemId || '',
+    categoryId: plan?.categoryId || '',
+    trigger: plan?.trigger || ('CALENDAR' as MaintenanceTrigger),
+    interval: plan?.interval?.toString() || '',
+    active: plan?.active ?? true,
+  })
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  const fetchOptions = async () => {
+    try {
+      const [itemsRes, categoriesRes] = await Promise.all([
+        api.get('/items', { params: { limit: 100 } }),
+        api.get('/categories'),
+      ])
+      setItems(itemsRes.data.items.filter((item: Item) => item.status !== 'RETIRED'))
+      setCategories(categoriesRes.data)
+    } catch (error) {
+      console.error('Error fetching plan options:', error)
+    }
+  }
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSubmitting(true)
+    setError('')
+    try {
+      await action()
+      onSaved()
+    } catch (err: any) {
+      setError(err.response?.data?.error || failure)
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const body = {
+      name: form.name,
+      description: form.description,
+      itemId: form.scope === 'item' ? form.itemId : null,
+      categoryId: form.scope === 'category' ? form.categoryId : null,
+      trigger: form.trigger,
+      interval: form.interval,
+      active: form.active,
+    }
+
+    run(
+      () => (plan ? api.put(`/maintenance-plans/${plan.id}`, body) : api.post('/maintenance-plans', body)),
+      'Failed to save maintenance plan'
+    )
+  }
+
+  const handleDelete = () => {
+    if (!window.confirm('Delete this plan? Its past work orders are kept.')) return
+    run(() => api.delete(`/maintenance-plans/${plan!.id}`), 'Failed to delete maintenance plan')
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-gray-900">{plan ? 'Maintenance Plan' : 'New Maintenance Plan'}</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X size={24} />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Work to do *</label>
+              <textarea
+                required
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Applies to *</label>
+              <div className="flex space-x-4 mb-2 text-sm text-gray-700">
+                {(['category', 'item'] as const).map((scope) => (
+                  <label key={scope} className="flex items-center space-x-2">
+                    <input
+                      type="radio"
+                      checked={form.scope === scope}
+                      onChange={() => setForm({ ...form, scope })}
+                    />
+                    <span>{scope === 'category' ? 'Every item in a category' : 'One item'}</span>
+                  </label>
+                ))}
+              </div>
+              {form.scope === 'category' ? (
+                <select
+                  required
+                  value={form.categoryId}
+                  onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select a category</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <select
+                  required
+                  value={form.itemId}
+                  onChange={(e) => setForm({ ...form, itemId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select an item</option>
+                  {items.map((item) => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Due by *</label>
+                <select
+                  value={form.trigger}
+                  onChange={(e) => setForm({ ...form, trigger: e.target.value as MaintenanceTrigger })}
+                  className={inputClass}
+                >
+                  {TRIGGER_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Every ({triggerUnit(form.trigger)}) *
+                </label>
+                <input
+                  type="number"
+                  required
+                  min={1}
+                  step={1}
+                  value={form.interval}
+                  onChange={(e) => setForm({ ...form, interval: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              />
+              <span>Active (due items are blocked from new rentals)</span>
+            </label>
+
+            <div className="flex gap-2 pt-4">
+              {plan && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={submitting}
+                  className="flex items-center space-x-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50"
+                >
+                  <Trash2 size={16} />
+                  <span>Delete</span>
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={submitting}
+                className="ml-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {plan ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { MaintenancePlan, MaintenancePlanStatus } from '@/lib/types'
+import MaintenancePlanModal, { triggerUnit } from '@/components/MaintenancePlanModal'
+import { Pencil, Plus, Wrench } from 'lucide-react'
+
+interface MaintenancePlansProps {
+  onWorkOrderOpened: () => void
+}
+
+const stateBadge = (status: MaintenancePlanStatus) => {
+  if (status.due) return { label: 'Due', style: 'bg-red-100 text-red-700' }
+  if (status.dueSoon) return { label: 'Due soon', style: 'bg-yellow-100 text-yellow-700' }
+  return { label: 'OK', style: 'bg-green-100 text-green-700' }
+}
+
+// Preventive maintenance plans and where each covered item stands.
+// Items that are due cannot go out on new rentals until serviced.
+export default function MaintenancePlans({ onWorkOrderOpened }: MaintenancePlansProps) {
+  const [plans, setPlans] = useState<MaintenancePlan[]>([])
+  const [statuses, setStatuses] = useState<MaintenancePlanStatus[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  // undefined: closed, null: new plan
+  const [selected, setSelected] = useState<MaintenancePlan | null | undefined>(undefined)
+
+  useEffect(() => {
+    fetchPlans()
+  }, [])
+
+  const fetchPlans = async () => {
+    try {
+      const [plansRes, statusRes] = await Promise.all([
+        api.get('/maintenance-plans'),
+        api.get('/maintenance-plans/status'),
+      ])
+      setPlans(plansRes.data)
+      setStatuses(statusRes.data)
+    } catch (error) {
+      console.error('Error fetching maintenance plans:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaved = () => {
+    setSelected(undefined)
+    fetchPlans()
+  }
+
+  const openWorkOrder = async (status: MaintenancePlanStatus) => {
+    setError('')
+    try {
+      await api.post(`/maintenance-plans/${status.plan.id}/work-orders`, { itemId: status.item.id })
+      fetchPlans()
+      onWorkOrderOpened()
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to open work order')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Plans</h3>
+          <button
+            onClick={() => setSelected(null)}
+            className="flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+          >
+            <Plus size={16} />
+            <span>New Plan</span>
+          </button>
+        </div>
+        {plans.length === 0 ? (
+          <p className="text-gray-500 text-center py-6">No maintenance plans yet</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {plans.map((plan) => (
+              <div key={plan.id} className="flex justify-between items-center py-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {plan.name}
+                    {!plan.active && (
+                      <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-medium rounded">
+                        Inactive
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {plan.item ? plan.item.name : `All ${plan.category?.name}`} · every {plan.interval}{' '}
+                    {triggerUnit(plan.trigger)}
+                  </p>
+                </div>
+                <button onClick={() => setSelected(plan)} className="p-2 text-gray-500 hover:text-blue-600">
+                  <Pencil size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 pb-4">
+          <h3 className="text-lg font-semibold">Service Status</h3>
+          {error && (
+            <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plan</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Since last service
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {statuses.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                    No items are covered by an active plan
+                  </td>
+                </tr>
+              ) : (
+                statuses.map((status) => {
+                  const badge = stateBadge(status)
+                  return (
+                    <tr key={`${status.plan.id}:${status.item.id}`} className={status.due ? 'bg-red-50' : ''}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{status.item.name}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{status.plan.name}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {status.usage} / {status.plan.interval} {triggerUnit(status.plan.trigger)}
+                        {status.dueDate && (
+                          <div className="text-xs text-gray-500">
+                            Due {new Date(status.dueDate).toLocaleDateString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${badge.style}`}>
+                          {badge.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-right">
+                        {status.openWorkOrder ? (
+                          <span className="text-gray-500">
+                            Work order {status.openWorkOrder.status.replace('_', ' ').toLowerCase()}
+                          </span>
+                        ) : (
+                          (status.due || status.dueSoon) && (
+                            <button
+                              onClick={() => openWorkOrder(status)}
+                              className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+                            >
+                              <Wrench size={14} />
+                              <span>Open work order</span>
+                            </button>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected !== undefined && (
+        <MaintenancePlanModal plan={selected} onClose={() => setSelected(undefined)} onSaved={handleSaved} />
+      )}
+    </div>
+  )
+}
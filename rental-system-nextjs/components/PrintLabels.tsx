@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from 'react'
+import { downloadFile } from '@/lib/api'
+import { LabelFormat } from '@/lib/types'
+import { Printer } from 'lucide-react'
+
+interface PrintLabelsProps {
+  itemIds?: string[]
+  unitIds?: string[]
+  label?: string
+}
+
+const FORMAT_OPTIONS: { value: LabelFormat; label: string }[] = [
+  { value: 'qrcode', label: 'QR code' },
+  { value: 'code128', label: 'Barcode' },
+]
+
+// Download a PDF sheet of labels for the given items and units. Serialized
+// items get a label per unit.
+export default function PrintLabels({ itemIds = [], unitIds = [], label = 'Print Labels' }: PrintLabelsProps) {
+  const [format, setFormat] = useState<LabelFormat>('qrcode')
+  const [copies, setCopies] = useState(1)
+  const [printing, setPrinting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handlePrint = async () => {
+    setPrinting(true)
+    setError('')
+    try {
+      await downloadFile('/labels/sheet', 'labels.pdf', { itemIds, unitIds, copies, format })
+    } catch (error) {
+      console.error('Error printing labels:', error)
+      setError('Failed to print labels')
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      {error && <span className="text-sm text-red-600">{error}</span>}
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as LabelFormat)}
+        className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+      >
+        {FORMAT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={1}
+        max={20}
+        title="Copies"
+        value={copies}
+        onChange={(e) => setCopies(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 20))}
+        className="w-16 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      <button
+        onClick={handlePrint}
+        disabled={printing || (itemIds.length === 0 && unitIds.length === 0)}
+        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Printer size={16} />
+        <span>{printing ? 'Preparing...' : label}</span>
+      </button>
+    </div>
+  )
+}
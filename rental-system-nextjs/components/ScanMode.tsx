@@ -0,0 +1,269 @@
+'use client'
+
+import { FormEvent, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import api from '@/lib/api'
+import { ScanResult } from '@/lib/types'
+import { Camera, CameraOff, Package, PackageCheck, ScanLine, Undo2, Wrench, X } from 'lucide-react'
+
+interface ScanModeProps {
+  onClose: () => void
+}
+
+// The parts of the browser's BarcodeDetector used here; TypeScript's DOM
+// types do not include it
+interface DetectedBarcode {
+  rawValue: string
+}
+
+interface BarcodeDetector {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetector
+  }
+}
+
+const rentalHref = (rentalId: string, result: ScanResult) =>
+  `/staff/rentals/${rentalId}${result.unit ? `?unitId=${result.unit.id}` : ''}`
+
+const maintenanceHref = (maintenanceId: string) => `/staff/maintenance?maintenanceId=${maintenanceId}`
+
+const newWorkOrderHref = (result: ScanResult) =>
+  `/staff/maintenance?itemId=${result.item.id}${result.unit ? `&unitId=${result.unit.id}` : ''}`
+
+// Where a scan goes straight away: the suggested action, when there is only
+// one place to do it. Bookings come soonest first, so check-out takes the first.
+const directHref = (result: ScanResult) => {
+  const { action, rentals, maintenance } = result
+  if (action === 'checkout') return rentalHref(rentals.upcoming[0].id, result)
+  if (action === 'return' && rentals.out.length === 1) return rentalHref(rentals.out[0].id, result)
+  if (action === 'maintenance' && maintenance.length === 1) return maintenanceHref(maintenance[0].id)
+  return null
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString()
+
+// Scan an item or unit label, with a keyboard-wedge scanner (which types the
+// code and presses Enter) or the camera, and jump to its check-out, return or
+// work order. Camera scanning needs the browser's BarcodeDetector.
+export default function ScanMode({ onClose }: ScanModeProps) {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [code, setCode] = useState('')
+  const [result, setResult] = useState<ScanResult | null>(null)
+  const [error, setError] = useState('')
+  const [looking, setLooking] = useState(false)
+  const [camera, setCamera] = useState(false)
+  const cameraSupported = typeof window !== 'undefined' && 'BarcodeDetector' in window
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    if (!camera || !window.BarcodeDetector) return
+
+    let stopped = false
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setInterval> | undefined
+    const detector = new window.BarcodeDetector({ formats: ['qr_code', 'code_128'] })
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((media) => {
+        stream = media
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop())
+          return
+        }
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = media
+          videoRef.current.play()
+        }
+        timer = setInterval(async () => {
+          const video = videoRef.current
+          if (stopped || !video || video.readyState < 2) return
+
+          // A frame the detector cannot read is skipped; the next one is tried
+          let codes: DetectedBarcode[]
+          try {
+            codes = await detector.detect(video)
+          } catch {
+            return
+          }
+
+          if (!stopped && codes.length > 0) {
+            stopped = true
+            setCamera(false)
+            lookUp(codes[0].rawValue)
+          }
+        }, 300)
+      })
+      .catch(() => {
+        setError('Could not open the camera')
+        setCamera(false)
+      })
+
+    return () => {
+      stopped = true
+      clearInterval(timer)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [camera])
+
+  const go = (href: string) => {
+    router.push(href)
+    onClose()
+  }
+
+  const lookUp = async (scanned: string) => {
+    if (!scanned.trim()) return
+
+    setLooking(true)
+    setError('')
+    setResult(null)
+    try {
+      const response = await api.get('/labels/scan', { params: { code: scanned.trim() } })
+      const href = directHref(response.data)
+      if (href) {
+        go(href)
+      } else {
+        setResult(response.data)
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to look up code')
+    } finally {
+      setLooking(false)
+      setCode('')
+      inputRef.current?.focus()
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    lookUp(code)
+  }
+
+  const actionClass =
+    'w-full flex items-center justify-between px-4 py-3 text-sm text-left bg-gray-50 rounded-lg hover:bg-gray-100 transition'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+              <ScanLine size={24} className="text-blue-600" />
+              <span>Scan</span>
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X size={24} />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex space-x-2">
+            <input
+              ref={inputRef}
+              type="text"
+              value={code}
+              placeholder="Scan or type a label code"
+              onChange={(e) => setCode(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {cameraSupported && (
+              <button
+                type="button"
+                onClick={() => setCamera(!camera)}
+                title={camera ? 'Stop camera' : 'Scan with camera'}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition"
+              >
+                {camera ? <CameraOff size={20} /> : <Camera size={20} />}
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={looking || !code.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              {looking ? 'Looking up...' : 'Look up'}
+            </button>
+          </form>
+
+          {camera && <video ref={videoRef} muted playsInline className="w-full mt-4 rounded-lg bg-black" />}
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {result && (
+            <div className="mt-6 space-y-4">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {result.item.name}
+                  {result.unit && <span className="text-gray-500 font-normal"> · {result.unit.serialNumber}</span>}
+                </p>
+                <p className="text-sm text-gray-600">{(result.unit || result.item).status}</p>
+              </div>
+
+              <div className="space-y-2">
+                {result.rentals.out.map((rental) => (
+                  <button key={rental.id} onClick={() => go(rentalHref(rental.id, result))} className={actionClass}>
+                    <span className="flex items-center space-x-2">
+                      <Undo2 size={16} className="text-gray-500" />
+                      <span>Return from {rental.customer.name}</span>
+                    </span>
+                    <span className="text-gray-500">due {formatDate(rental.endDate)}</span>
+                  </button>
+                ))}
+                {result.rentals.upcoming.map((rental) => (
+                  <button key={rental.id} onClick={() => go(rentalHref(rental.id, result))} className={actionClass}>
+                    <span className="flex items-center space-x-2">
+                      <PackageCheck size={16} className="text-gray-500" />
+                      <span>Check out for {rental.customer.name}</span>
+                    </span>
+                    <span className="text-gray-500">starts {formatDate(rental.startDate)}</span>
+                  </button>
+                ))}
+                {result.maintenance.map((maintenance) => (
+                  <button
+                    key={maintenance.id}
+                    onClick={() => go(maintenanceHref(maintenance.id))}
+                    className={actionClass}
+                  >
+                    <span className="flex items-center space-x-2">
+                      <Wrench size={16} className="text-gray-500" />
+                      <span>{maintenance.description}</span>
+                    </span>
+                    <span className="text-gray-500">{maintenance.status.replace('_', ' ').toLowerCase()}</span>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => go(newWorkOrderHref(result))}
+                  className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                >
+                  <Wrench size={16} />
+                  <span>New Work Order</span>
+                </button>
+                <button
+                  onClick={() => go(`/staff/inventory/${result.item.id}`)}
+                  className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                >
+                  <Package size={16} />
+                  <span>View Item</span>
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+interface SignaturePadProps {
+  onChange: (signature: string | null) => void
+  height?: number
+}
+
+// Canvas for signing with a mouse, pen or finger. Reports the drawing as a
+// PNG data URL, or null once cleared.
+export default function SignaturePad({ onChange, height = 180 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const [empty, setEmpty] = useState(true)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    // Match the backing store to the displayed size so strokes aren't blurred
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = canvas.offsetWidth * ratio
+    canvas.height = height * ratio
+
+    const context = canvas.getContext('2d')
+    if (!context) return
+    context.scale(ratio, ratio)
+    context.lineWidth = 2
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.strokeStyle = '#111827'
+  }, [height])
+
+  const pointFrom = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    drawingRef.current = true
+    const { x, y } = pointFrom(event)
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+
+    const { x, y } = pointFrom(event)
+    context.lineTo(x, y)
+    context.stroke()
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    drawingRef.current = false
+    setEmpty(false)
+    onChange(event.currentTarget.toDataURL('image/png'))
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+
+    context.clearRect(0, 0, canvas.width, canvas.height)
+    setEmpty(true)
+    onChange(null)
+  }
+
+  return (
+    <div>
+      <div className="relative border-2 border-dashed border-gray-300 rounded-lg bg-white">
+        <canvas
+          ref={canvasRef}
+          style={{ height, touchAction: 'none' }}
+          className="w-full cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        />
+        {empty && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+            Sign here
+          </p>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={handleClear}
+        className="mt-2 text-sm text-gray-600 hover:text-gray-900"
+      >
+        Clear signature
+      </button>
+    </div>
+  )
+}
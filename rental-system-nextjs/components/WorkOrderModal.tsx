@@ -0,0 +1,332 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { useAuthStore } from '@/lib/store/authStore'
+import { Item, ItemUnit, Maintenance } from '@/lib/types'
+import { CheckCircle, Play, Trash2, X } from 'lucide-react'
+
+interface WorkOrderModalProps {
+  maintenance: Maintenance | null // null to open a new work order
+  defaults?: { itemId?: string; unitId?: string } // Preselected for a new work order, e.g. from a scan
+  onClose: () => void
+  onSaved: () => void
+}
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null)
+
+// Create or edit a maintenance work order. Costs are only shown to admins.
+export default function WorkOrderModal({ maintenance, defaults, onClose, onSaved }: WorkOrderModalProps) {
+  const { isAdmin } = useAuthStore()
+  const [items, setItems] = useState<Item[]>([])
+  const [units, setUnits] = useState<ItemUnit[]>([])
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [form, setForm] = useState({
+    itemId: maintenance?.itemId || defaults?.itemId || '',
+    unitId: maintenance?.unitId || defaults?.unitId || '',
+    description: maintenance?.description || '',
+    technician: maintenance?.technician || '',
+    notes: maintenance?.notes || '',
+    scheduled: Boolean(maintenance && new Date(maintenance.startDate) > new Date()),
+    startDate: toLocalInput(maintenance?.startDate),
+    endDate: maintenance?.status === 'COMPLETED' ? '' : toLocalInput(maintenance?.endDate),
+    partsCost: maintenance?.partsCost?.toString() || '',
+    labourCost: maintenance?.labourCost?.toString() || '',
+  })
+
+  const isNew = !maintenance
+  const completed = maintenance?.status === 'COMPLETED'
+  const selectedItem = items.find((item) => item.id === form.itemId)
+
+  useEffect(() => {
+    if (isNew) fetchItems()
+  }, [])
+
+  useEffect(() => {
+    setUnits([])
+    if (isNew && selectedItem?.tracking === 'SERIALIZED') fetchUnits(selectedItem.id)
+  }, [form.itemId, items])
+
+  const fetchItems = async () => {
+    try {
+      const response = await api.get('/items', { params: { limit: 100 } })
+      setItems(response.data.items.filter((item: Item) => item.status !== 'RETIRED'))
+    } catch (error) {
+      console.error('Error fetching items:', error)
+    }
+  }
+
+  const fetchUnits = async (itemId: string) => {
+    try {
+      const response = await api.get(`/items/${itemId}/units`)
+      setUnits(response.data)
+    } catch (error) {
+      console.error('Error fetching units:', error)
+    }
+  }
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSubmitting(true)
+    setError('')
+    try {
+      await action()
+      onSaved()
+    } catch (err: any) {
+      setError(err.response?.data?.error || failure)
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const body = {
+      description: form.description,
+      technician: form.technician || null,
+      notes: form.notes || null,
+      ...(!completed && {
+        // Unscheduled new work starts now
+        startDate: form.scheduled || !isNew ? fromLocalInput(form.startDate) || undefined : undefined,
+        endDate: fromLocalInput(form.endDate),
+      }),
+      ...(isAdmin() && { partsCost: form.partsCost || 0, labourCost: form.labourCost || 0 }),
+    }
+
+    run(
+      () =>
+        isNew
+          ? api.post('/maintenance', { ...body, itemId: form.itemId, unitId: form.unitId || undefined })
+          : api.put(`/maintenance/${maintenance.id}`, body),
+      'Failed to save work order'
+    )
+  }
+
+  const handleStart = () =>
+    run(() => api.put(`/maintenance/${maintenance!.id}`, { status: 'IN_PROGRESS' }), 'Failed to start work')
+
+  const handleComplete = () =>
+    run(() => api.put(`/maintenance/${maintenance!.id}/complete`), 'Failed to complete work order')
+
+  const handleDelete = () => {
+    if (!window.confirm('Delete this work order?')) return
+    run(() => api.delete(`/maintenance/${maintenance!.id}`), 'Failed to delete work order')
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">{isNew ? 'New Work Order' : 'Work Order'}</h2>
+              {maintenance && (
+                <p className="text-sm text-gray-600">
+                  {maintenance.item?.name}
+                  {maintenance.unit && ` · ${maintenance.unit.serialNumber}`}
+                </p>
+              )}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X size={24} />
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isNew && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Item *</label>
+                  <select
+                    required
+                    value={form.itemId}
+                    onChange={(e) => setForm({ ...form, itemId: e.target.value, unitId: '' })}
+                    className={inputClass}
+                  >
+                    <option value="">Select an item</option>
+                    {items.map((item) => (
+                      <option key={item.id} value={item.id}>{item.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {units.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                    <select
+                      value={form.unitId}
+                      onChange={(e) => setForm({ ...form, unitId: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Whole item</option>
+                      {units.map((unit) => (
+                        <option key={unit.id} value={unit.id}>
+                          {unit.serialNumber} ({unit.status})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Work to do *</label>
+              <textarea
+                required
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Technician</label>
+              <input
+                type="text"
+                value={form.technician}
+                onChange={(e) => setForm({ ...form, technician: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            {!completed && (
+              <div className="space-y-3">
+                {isNew && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.scheduled}
+                      onChange={(e) => setForm({ ...form, scheduled: e.target.checked })}
+                    />
+                    <span>Schedule for later (the item stays available until then)</span>
+                  </label>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  {(form.scheduled || !isNew) && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Start</label>
+                      <input
+                        type="datetime-local"
+                        required={form.scheduled}
+                        value={form.startDate}
+                        onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {form.scheduled ? 'End *' : 'Expected back'}
+                    </label>
+                    <input
+                      type="datetime-local"
+                      required={form.scheduled}
+                      value={form.endDate}
+                      onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isAdmin() && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Parts cost</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.partsCost}
+                    onChange={(e) => setForm({ ...form, partsCost: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Labour cost</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.labourCost}
+                    onChange={(e) => setForm({ ...form, labourCost: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                rows={3}
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2 pt-4">
+              {maintenance?.status === 'PENDING' && (
+                <button
+                  type="button"
+                  onClick={handleStart}
+                  disabled={submitting}
+                  className="flex items-center space-x-2 px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 transition disabled:opacity-50"
+                >
+                  <Play size={16} />
+                  <span>Start Work</span>
+                </button>
+              )}
+              {maintenance && !completed && (
+                <button
+                  type="button"
+                  onClick={handleComplete}
+                  disabled={submitting}
+                  className="flex items-center space-x-2 px-4 py-2 border border-green-300 text-green-700 rounded-lg hover:bg-green-50 transition disabled:opacity-50"
+                >
+                  <CheckCircle size={16} />
+                  <span>Complete</span>
+                </button>
+              )}
+              {maintenance && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={submitting}
+                  className="flex items-center space-x-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50"
+                >
+                  <Trash2 size={16} />
+                  <span>Delete</span>
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={submitting}
+                className="ml-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {isNew ? 'Create' : 'Save'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
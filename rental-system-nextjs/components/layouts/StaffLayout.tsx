@@ -4,6 +4,7 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useAuthStore } from '@/lib/store/authStore'
+import ScanMode from '@/components/ScanMode'
 import { 
   LayoutDashboard, 
   Package, 
@@ -12,6 +13,7 @@ import {
   Wrench,
   LogOut,
   Menu,
+  ScanLine,
   X
 } from 'lucide-react'
 
@@ -24,6 +26,7 @@ export default function StaffLayout({ children }: StaffLayoutProps) {
   const router = useRouter()
   const { user, logout } = useAuthStore()
   const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [scanning, setScanning] = useState(false)
 
   const handleLogout = () => {
     logout()
@@ -57,6 +60,13 @@ export default function StaffLayout({ children }: StaffLayoutProps) {
               </span>
             </div>
             <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setScanning(true)}
+                className="flex items-center space-x-2 px-4 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition"
+              >
+                <ScanLine size={18} />
+                <span className="hidden sm:inline">Scan</span>
+              </button>
               <div className="hidden sm:block text-sm text-gray-700">
                 {user?.name}
               </div>
@@ -108,6 +118,8 @@ export default function StaffLayout({ children }: StaffLayoutProps) {
           </div>
         </main>
       </div>
+
+      {scanning && <ScanMode onClose={() => setScanning(false)} />}
     </div>
   )
 }
@@ -0,0 +1,189 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import Link from 'next/link'
+import api, { downloadFile } from '@/lib/api'
+import { AgingReport as AgingReportData } from '@/lib/types'
+import { ChevronDown, ChevronRight, Download } from 'lucide-react'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const formatMoney = (amount: number) => (amount ? `$${amount.toFixed(2)}` : '—')
+
+// Older buckets get more alarming colours
+const bucketStyles = ['text-gray-900', 'text-yellow-700', 'text-orange-600', 'text-red-600', 'text-red-800 font-semibold']
+
+// Amounts due by customer and days past the rental's end date, with each
+// customer expandable into the rentals behind their balance
+export default function AgingReport() {
+  const [asOf, setAsOf] = useState(today())
+  const [report, setReport] = useState<AgingReportData | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchReport()
+  }, [asOf])
+
+  const fetchReport = async () => {
+    setLoading(true)
+    try {
+      const response = await api.get('/finances/aging', { params: { asOf } })
+      setReport(response.data)
+    } catch (error) {
+      console.error('Error fetching aging report:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExport = async () => {
+    try {
+      await downloadFile(`/finances/aging?asOf=${asOf}&format=csv`, `aging-${asOf}.csv`)
+    } catch (error) {
+      console.error('Error exporting aging report:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <button
+          onClick={handleExport}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+        >
+          <Download size={18} />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      {loading || !report ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* Bucket totals */}
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {report.buckets.map((bucket, index) => (
+              <div key={bucket.key} className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-600">{bucket.label}</p>
+                <p className={`text-xl font-bold mt-1 ${bucketStyles[index]}`}>
+                  ${report.totals[bucket.key].toLocaleString()}
+                </p>
+              </div>
+            ))}
+            <div className="bg-blue-50 rounded-lg p-4">
+              <p className="text-sm text-blue-700">Total outstanding</p>
+              <p className="text-xl font-bold mt-1 text-blue-700">${report.totals.total.toLocaleString()}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                  {report.buckets.map((bucket) => (
+                    <th key={bucket.key} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                      {bucket.label}
+                    </th>
+                  ))}
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.customers.length === 0 ? (
+                  <tr>
+                    <td colSpan={report.buckets.length + 2} className="px-4 py-12 text-center text-gray-500">
+                      Nothing outstanding
+                    </td>
+                  </tr>
+                ) : (
+                  report.customers.map((entry) => {
+                    const isExpanded = expanded === entry.customer.id
+                    return (
+                      <Fragment key={entry.customer.id}>
+                        <tr
+                          onClick={() => setExpanded(isExpanded ? null : entry.customer.id)}
+                          className="hover:bg-gray-50 cursor-pointer"
+                        >
+                          <td className="px-4 py-4 whitespace-nowrap text-sm">
+                            <div className="flex items-center space-x-2">
+                              {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                              <div>
+                                <div className="font-medium text-gray-900">{entry.customer.name}</div>
+                                <div className="text-gray-500">{entry.customer.phone}</div>
+                              </div>
+                            </div>
+                          </td>
+                          {report.buckets.map((bucket, index) => (
+                            <td key={bucket.key} className={`px-4 py-4 whitespace-nowrap text-sm text-right ${bucketStyles[index]}`}>
+                              {formatMoney(entry[bucket.key])}
+                            </td>
+                          ))}
+                          <td className="px-4 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                            {formatMoney(entry.total)}
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr>
+                            <td colSpan={report.buckets.length + 2} className="px-4 pb-4 bg-gray-50">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="text-xs text-gray-500 uppercase">
+                                    <th className="px-3 py-2 text-left font-medium">Rental</th>
+                                    <th className="px-3 py-2 text-left font-medium">Status</th>
+                                    <th className="px-3 py-2 text-left font-medium">End date</th>
+                                    <th className="px-3 py-2 text-right font-medium">Days past due</th>
+                                    <th className="px-3 py-2 text-right font-medium">Total</th>
+                                    <th className="px-3 py-2 text-right font-medium">Paid</th>
+                                    <th className="px-3 py-2 text-right font-medium">Due</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {entry.rentals.map((rental) => (
+                                    <tr key={rental.id} className="border-t border-gray-200">
+                                      <td className="px-3 py-2">
+                                        <Link href={`/staff/rentals/${rental.id}`} className="text-blue-600 hover:text-blue-800">
+                                          #{rental.id.slice(0, 8)}
+                                        </Link>
+                                      </td>
+                                      <td className="px-3 py-2 text-gray-700">{rental.status}</td>
+                                      <td className="px-3 py-2 text-gray-700">
+                                        {new Date(rental.endDate).toLocaleDateString()}
+                                      </td>
+                                      <td className="px-3 py-2 text-right text-gray-700">{rental.daysPastDue}</td>
+                                      <td className="px-3 py-2 text-right text-gray-700">${rental.totalAmount.toFixed(2)}</td>
+                                      <td className="px-3 py-2 text-right text-gray-700">${rental.amountPaid.toFixed(2)}</td>
+                                      <td className="px-3 py-2 text-right font-medium text-gray-900">
+                                        ${rental.amountDue.toFixed(2)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import api, { downloadFile } from '@/lib/api'
+import { AssetRegister, Category } from '@/lib/types'
+import { Download } from 'lucide-react'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const methodLabels: Record<string, string> = {
+  STRAIGHT_LINE: 'Straight-line',
+  DECLINING_BALANCE: 'Declining balance',
+}
+
+// Cost, accumulated depreciation and book value of every purchased item
+export default function AssetRegisterReport() {
+  const [asOf, setAsOf] = useState(today())
+  const [includeDisposed, setIncludeDisposed] = useState(false)
+  const [categoryId, setCategoryId] = useState('')
+  const [categories, setCategories] = useState<Category[]>([])
+  const [register, setRegister] = useState<AssetRegister | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchCategories()
+  }, [])
+
+  useEffect(() => {
+    fetchRegister()
+  }, [asOf, categoryId, includeDisposed])
+
+  const fetchCategories = async () => {
+    try {
+      const response = await api.get('/categories')
+      setCategories(response.data.categories || response.data || [])
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+    }
+  }
+
+  const fetchRegister = async () => {
+    setLoading(true)
+    try {
+      const response = await api.get('/assets/register', {
+        params: { asOf, categoryId: categoryId || undefined, includeDisposed },
+      })
+      setRegister(response.data)
+    } catch (error) {
+      console.error('Error fetching asset register:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExport = async () => {
+    try {
+      const params = new URLSearchParams({ asOf, includeDisposed: String(includeDisposed), format: 'csv' })
+      if (categoryId) params.set('categoryId', categoryId)
+      await downloadFile(`/assets/register?${params}`, `assets-${asOf}.csv`)
+    } catch (error) {
+      console.error('Error exporting asset register:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div className="flex items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => e.target.value && setAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <select
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">All categories</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={includeDisposed}
+              onChange={(e) => setIncludeDisposed(e.target.checked)}
+            />
+            <span>Include disposed items</span>
+          </label>
+        </div>
+        <button
+          onClick={handleExport}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+        >
+          <Download size={18} />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      {loading || !register ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Cost</p>
+              <p className="text-2xl font-bold mt-1 text-gray-900">{formatMoney(register.totals.cost)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Accumulated Depreciation</p>
+              <p className="text-2xl font-bold mt-1 text-red-600">{formatMoney(register.totals.accumulatedDepreciation)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Book Value</p>
+              <p className="text-2xl font-bold mt-1 text-blue-600">{formatMoney(register.totals.bookValue)}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Acquired</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Depreciation</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Cost</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Depreciated</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Book Value</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Warranty / Disposal</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {register.items.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center text-gray-500">
+                      No purchases recorded
+                    </td>
+                  </tr>
+                ) : (
+                  register.items.map((row) => (
+                    <tr key={row.item.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-4 whitespace-nowrap text-sm">
+                        <Link href={`/staff/inventory/${row.item.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                          {row.item.name}
+                        </Link>
+                        <div className="text-gray-500">{row.category.name}</div>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {new Date(row.acquiredAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {row.policy ? methodLabels[row.policy.method] : 'None'}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatMoney(row.cost)}</td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                        {formatMoney(row.accumulatedDepreciation)}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {formatMoney(row.bookValue)}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {row.disposal ? (
+                          <span>
+                            Disposed {new Date(row.disposal.disposedAt).toLocaleDateString()} for {formatMoney(row.disposal.value)}{' '}
+                            <span className={row.disposal.gainOrLoss < 0 ? 'text-red-600' : 'text-emerald-600'}>
+                              ({row.disposal.gainOrLoss < 0 ? 'loss' : 'gain'} {formatMoney(Math.abs(row.disposal.gainOrLoss))})
+                            </span>
+                          </span>
+                        ) : row.warrantyUntil ? (
+                          <span className={row.underWarranty ? 'text-emerald-600' : 'text-gray-500'}>
+                            Warranty {row.underWarranty ? 'until' : 'ended'} {new Date(row.warrantyUntil).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import api from '@/lib/api'
+import { ReportGranularity, RevenuePeriod, RevenueReport as RevenueReportData, RevenueTotals } from '@/lib/types'
+
+const granularities: { value: ReportGranularity; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+  { value: 'year', label: 'Yearly' },
+]
+
+const comparisons = [
+  { value: '', label: 'No comparison' },
+  { value: 'previous', label: 'Previous period' },
+  { value: 'year', label: 'Same period last year' },
+]
+
+const totalCards: { key: keyof RevenueTotals; label: string; color: string }[] = [
+  { key: 'revenue', label: 'Revenue', color: 'text-emerald-600' },
+  { key: 'expenses', label: 'Expenses', color: 'text-red-600' },
+  { key: 'netProfit', label: 'Net Profit', color: 'text-blue-600' },
+]
+
+// Periods are calendar dates in the report time zone, so format them as UTC
+const formatPeriod = (period: string, granularity: ReportGranularity) => {
+  const date = new Date(`${period}T00:00:00Z`)
+
+  switch (granularity) {
+    case 'day':
+      return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+    case 'week':
+      return `Wk ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })}`
+    case 'month':
+      return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    case 'quarter':
+      return `Q${Math.floor(date.getUTCMonth() / 3) + 1} ${date.getUTCFullYear()}`
+    case 'year':
+      return String(date.getUTCFullYear())
+  }
+}
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+
+interface BreakdownProps {
+  title: string
+  rows: { label: string; amount: number }[]
+  color: string
+}
+
+// Horizontal bars, each as wide as its share of the largest row
+function Breakdown({ title, rows, color }: BreakdownProps) {
+  const max = Math.max(...rows.map((row) => Math.abs(row.amount)), 0)
+
+  return (
+    <div className="border border-gray-100 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing in this period</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row) => (
+            <div key={row.label}>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-700">{row.label}</span>
+                <span className="font-medium text-gray-900">{formatMoney(row.amount)}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full mt-1">
+                <div
+                  className={`h-2 rounded-full ${color}`}
+                  style={{ width: `${max ? (Math.abs(row.amount) / max) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Revenue and expenses per period as paired bars, with the comparison
+// period's revenue (matched by position) as a faded bar behind
+function PeriodChart({ report }: { report: RevenueReportData }) {
+  const previous: (RevenuePeriod | undefined)[] = report.comparison?.periods || []
+  const max = Math.max(
+    ...report.periods.flatMap((row) => [row.revenue, row.expenses]),
+    ...previous.map((row) => row?.revenue || 0),
+    0
+  )
+  const height = (amount: number) => `${max ? (Math.max(amount, 0) / max) * 100 : 0}%`
+
+  return (
+    <div>
+      <div className="flex items-end h-64 gap-2 border-b border-gray-200">
+        {report.periods.map((row, index) => (
+          <div key={row.period} className="flex-1 h-full flex items-end justify-center gap-0.5 relative group">
+            {previous[index] && (
+              <div className="w-1/3 bg-gray-200 rounded-t" style={{ height: height(previous[index]!.revenue) }} />
+            )}
+            <div className="w-1/3 bg-emerald-500 rounded-t" style={{ height: height(row.revenue) }} />
+            <div className="w-1/3 bg-red-400 rounded-t" style={{ height: height(row.expenses) }} />
+            <div className="absolute bottom-full mb-2 hidden group-hover:block z-10 bg-gray-900 text-white text-xs rounded px-2 py-1 whitespace-nowrap">
+              <div>Revenue {formatMoney(row.revenue)}</div>
+              <div>Expenses {formatMoney(row.expenses)}</div>
+              <div>Net {formatMoney(row.netProfit)}</div>
+              {previous[index] && <div className="text-gray-300">Compared {formatMoney(previous[index]!.revenue)}</div>}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {report.periods.map((row) => (
+          <div key={row.period} className="flex-1 text-center text-xs text-gray-500 truncate">
+            {formatPeriod(row.period, report.granularity)}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-center space-x-6 mt-4 text-xs text-gray-600">
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-emerald-500" />
+          <span>Revenue</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-red-400" />
+          <span>Expenses</span>
+        </span>
+        {report.comparison && (
+          <span className="flex items-center space-x-1">
+            <span className="w-3 h-3 rounded bg-gray-200" />
+            <span>Revenue, {report.comparison.startDate} to {report.comparison.endDate}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Revenue, expenses and net profit by period in the browser's time zone,
+// with breakdowns and an optional comparison period
+export default function RevenueReport() {
+  const [granularity, setGranularity] = useState<ReportGranularity>('month')
+  const [compare, setCompare] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [report, setReport] = useState<RevenueReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchReport()
+  }, [granularity, compare, startDate, endDate])
+
+  const fetchReport = async () => {
+    setLoading(true)
+    try {
+      const response = await api.get('/finances/revenue/period', {
+        params: {
+          granularity,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          startDate: startDate || undefined,
+          endDate: endDate || undefined,
+          compare: compare || undefined,
+        },
+      })
+      setReport(response.data)
+    } catch (error) {
+      console.error('Error fetching revenue report:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as ReportGranularity)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {granularities.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Compare with</label>
+          <select
+            value={compare}
+            onChange={(e) => setCompare(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {comparisons.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500">
+            {report.startDate} to {report.endDate} ({report.timezone})
+          </p>
+
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {totalCards.map((card) => {
+              const change = report.comparison?.change[card.key]
+              return (
+                <div key={card.key} className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">{card.label}</p>
+                  <p className={`text-2xl font-bold mt-1 ${card.color}`}>{formatMoney(report.totals[card.key])}</p>
+                  {report.comparison && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatMoney(report.comparison.totals[card.key])} before
+                      {change !== null && change !== undefined && (
+                        <span className={`ml-2 font-medium ${change >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {change >= 0 ? '+' : ''}{change}%
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <PeriodChart report={report} />
+
+          {/* Breakdowns */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Breakdown
+              title="Revenue by category"
+              color="bg-emerald-500"
+              rows={report.breakdowns.categories.map((row) => ({ label: row.category.name, amount: row.amount }))}
+            />
+            <Breakdown
+              title="Revenue by payment method"
+              color="bg-blue-500"
+              rows={report.breakdowns.paymentMethods.map((row) => ({ label: row.paymentMethod, amount: row.amount }))}
+            />
+            <Breakdown
+              title="Revenue by staff member"
+              color="bg-purple-500"
+              rows={report.breakdowns.staff.map((row) => ({ label: row.user.name, amount: row.amount }))}
+            />
+            <Breakdown
+              title="Expenses by category"
+              color="bg-red-400"
+              rows={report.breakdowns.expenseCategories.map((row) => ({ label: row.category, amount: row.amount }))}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
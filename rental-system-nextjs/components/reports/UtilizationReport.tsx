@@ -0,0 +1,256 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import api from '@/lib/api'
+import { Category, UtilizationReport as UtilizationReportData, UtilizationTotals } from '@/lib/types'
+import { ArrowDown } from 'lucide-react'
+
+type SortKey = 'utilization' | 'revenue' | 'maintenanceCost' | 'procurementCost' | 'netReturn' | 'roi'
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'utilization', label: 'Utilization' },
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'maintenanceCost', label: 'Maintenance' },
+  { key: 'procurementCost', label: 'Procurement' },
+  { key: 'netReturn', label: 'Net Return' },
+  { key: 'roi', label: 'ROI' },
+]
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`)
+
+// Rarely rented stock is a candidate to retire; busy stock to buy more of
+const utilizationColor = (utilization: number | null) => {
+  if (utilization === null) return 'bg-gray-300'
+  if (utilization < 20) return 'bg-red-500'
+  if (utilization < 60) return 'bg-yellow-500'
+  return 'bg-emerald-500'
+}
+
+function UtilizationCells({ row }: { row: UtilizationTotals }) {
+  return (
+    <>
+      <td className="px-4 py-4 whitespace-nowrap text-sm">
+        <div className="flex items-center space-x-2">
+          <div className="w-20 h-2 bg-gray-100 rounded-full">
+            <div
+              className={`h-2 rounded-full ${utilizationColor(row.utilization)}`}
+              style={{ width: `${Math.min(row.utilization || 0, 100)}%` }}
+            />
+          </div>
+          <span className="text-gray-900">{formatPercent(row.utilization)}</span>
+        </div>
+        <div className="text-xs text-gray-500 mt-1">
+          {row.daysRented} of {row.daysAvailable} unit-days
+        </div>
+      </td>
+      <td className="px-4 py-4 whitespace-nowrap text-sm text-right text-emerald-600">{formatMoney(row.revenue)}</td>
+      <td className="px-4 py-4 whitespace-nowrap text-sm text-right text-red-600">{formatMoney(row.maintenanceCost)}</td>
+      <td className="px-4 py-4 whitespace-nowrap text-sm text-right text-red-600">{formatMoney(row.procurementCost)}</td>
+      <td className={`px-4 py-4 whitespace-nowrap text-sm text-right font-medium ${row.netReturn < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+        {formatMoney(row.netReturn)}
+      </td>
+      <td className="px-4 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+        {formatPercent(row.roi)}
+        {row.paybackPercent !== null && (
+          <div className="text-xs text-gray-500">{row.paybackPercent}% paid back</div>
+        )}
+      </td>
+    </>
+  )
+}
+
+// Days rented against days available, earnings and costs per item or
+// category, to decide what to retire or buy more of
+export default function UtilizationReport() {
+  const [view, setView] = useState<'items' | 'categories'>('items')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [categoryId, setCategoryId] = useState('')
+  const [categories, setCategories] = useState<Category[]>([])
+  const [sortKey, setSortKey] = useState<SortKey>('revenue')
+  const [report, setReport] = useState<UtilizationReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchCategories()
+  }, [])
+
+  useEffect(() => {
+    fetchReport()
+  }, [startDate, endDate, categoryId])
+
+  const fetchCategories = async () => {
+    try {
+      const response = await api.get('/categories')
+      setCategories(response.data.categories || response.data || [])
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+    }
+  }
+
+  const fetchReport = async () => {
+    setLoading(true)
+    try {
+      const response = await api.get('/finances/utilization', {
+        params: {
+          startDate: startDate || undefined,
+          endDate: endDate ? `${endDate}T23:59:59` : undefined,
+          categoryId: categoryId || undefined,
+        },
+      })
+      setReport(response.data)
+    } catch (error) {
+      console.error('Error fetching utilization report:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Highest first; rows without a figure (e.g. no ROI) go last
+  const sortRows = <T extends UtilizationTotals>(rows: T[]) =>
+    [...rows].sort((a, b) => (b[sortKey] ?? -Infinity) - (a[sortKey] ?? -Infinity))
+
+  const header = (
+    <tr>
+      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+        {view === 'items' ? 'Item' : 'Category'}
+      </th>
+      {columns.map((column) => (
+        <th
+          key={column.key}
+          onClick={() => setSortKey(column.key)}
+          className={`px-4 py-3 text-xs font-medium uppercase cursor-pointer ${
+            column.key === 'utilization' ? 'text-left' : 'text-right'
+          } ${sortKey === column.key ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+        >
+          <span className="inline-flex items-center space-x-1">
+            <span>{column.label}</span>
+            {sortKey === column.key && <ArrowDown size={12} />}
+          </span>
+        </th>
+      ))}
+    </tr>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <select
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">All categories</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm ml-auto">
+          {(['items', 'categories'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-4 py-2 capitalize ${view === option ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Utilization</p>
+              <p className="text-2xl font-bold mt-1 text-blue-600">{formatPercent(report.totals.utilization)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Revenue</p>
+              <p className="text-2xl font-bold mt-1 text-emerald-600">{formatMoney(report.totals.revenue)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Maintenance + Procurement</p>
+              <p className="text-2xl font-bold mt-1 text-red-600">
+                {formatMoney(report.totals.maintenanceCost + report.totals.procurementCost)}
+              </p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Net Return</p>
+              <p className="text-2xl font-bold mt-1 text-gray-900">{formatMoney(report.totals.netReturn)}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">{header}</thead>
+              <tbody className="divide-y divide-gray-200">
+                {view === 'items'
+                  ? sortRows(report.items).map((row) => (
+                      <tr key={row.item.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-4 whitespace-nowrap text-sm">
+                          <Link href={`/staff/inventory/${row.item.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                            {row.item.name}
+                          </Link>
+                          <div className="text-gray-500">
+                            {row.category.name} · {row.item.quantity} unit(s)
+                            {row.item.status === 'RETIRED' && ' · Retired'}
+                          </div>
+                        </td>
+                        <UtilizationCells row={row} />
+                      </tr>
+                    ))
+                  : sortRows(report.categories).map((row) => (
+                      <tr key={row.category.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-4 whitespace-nowrap text-sm">
+                          <div className="font-medium text-gray-900">{row.category.name}</div>
+                          <div className="text-gray-500">{row.itemCount} item(s)</div>
+                        </td>
+                        <UtilizationCells row={row} />
+                      </tr>
+                    ))}
+                {(view === 'items' ? report.items : report.categories).length === 0 && (
+                  <tr>
+                    <td colSpan={columns.length + 1} className="px-4 py-12 text-center text-gray-500">
+                      No items
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -39,4 +39,23 @@ api.interceptors.response.use(
   }
 )
 
+// Download a file (e.g. an invoice PDF) through the authenticated client,
+// using the server's filename when it sends one. Files generated from a
+// request body (e.g. label sheets) are POSTed.
+export const downloadFile = async (url: string, fallbackName: string, body?: unknown) => {
+  const response =
+    body === undefined
+      ? await api.get(url, { responseType: 'blob' })
+      : await api.post(url, body, { responseType: 'blob' })
+  const disposition: string | undefined = response.headers['content-disposition']
+  const filename = disposition?.match(/filename="(.+)"/)?.[1] || fallbackName
+
+  const href = URL.createObjectURL(response.data)
+  const link = document.createElement('a')
+  link.href = href
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(href)
+}
+
 export default api
@@ -2,13 +2,33 @@ export type UserRole = 'ADMIN' | 'STAFF'
 
 export type ItemStatus = 'AVAILABLE' | 'RENTED' | 'MAINTENANCE' | 'RETIRED'
 
-export type RentalStatus = 'PENDING' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'OVERDUE'
+export type ItemTracking = 'BULK' | 'SERIALIZED'
+
+export type UnitCondition = 'NEW' | 'GOOD' | 'FAIR' | 'POOR' | 'DAMAGED'
+
+export type RentalStatus = 'PENDING' | 'CONFIRMED' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'OVERDUE'
+
+// Lifecycle actions, each exposed as POST /rentals/:id/<action> (markOverdue → mark-overdue)
+export type RentalAction = 'confirm' | 'checkout' | 'extend' | 'return' | 'cancel' | 'markOverdue'
+
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED' | 'CONVERTED'
+
+// Quote actions, each exposed as POST /quotes/:id/<action>
+export type QuoteAction = 'send' | 'accept' | 'decline' | 'convert'
 
 export type MaintenanceStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED'
 
+// What makes a maintenance plan fall due: days, rentals or rental-days since last service
+export type MaintenanceTrigger = 'CALENDAR' | 'RENTAL_COUNT' | 'RENTAL_DAYS'
+
 export type PaymentStatus = 'UNPAID' | 'PARTIAL' | 'PAID' | 'REFUNDED'
 
-export type PaymentMethod = 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'MOBILE_MONEY'
+export type PaymentMethod = 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'MOBILE_MONEY' | 'DEPOSIT'
+export type PaymentType = 'PAYMENT' | 'REFUND' | 'REVERSAL'
+
+export type DepositTransactionType = 'COLLECT' | 'APPLY' | 'REFUND'
+
+export type AdjustmentType = 'LATE_FEE' | 'DAMAGE' | 'CANCELLATION_FEE' | 'EXTENSION' | 'EARLY_RETURN_CREDIT'
 
 export interface User {
   id: string
@@ -35,13 +55,144 @@ export interface Item {
   categoryId: string
   category?: Category
   status: ItemStatus
+  tracking: ItemTracking
   dailyRate: number
   quantity: number
   imageUrl?: string
+  units?: ItemUnit[]
+  createdAt: string
+  updatedAt: string
+}
+
+// Free units of an item over a date range
+export interface ItemAvailability {
+  itemId: string
+  itemName: string
+  from: string
+  to: string
+  totalUnits: number
+  bookedUnits: number
+  heldUnits: number
+  maintenanceUnits: number
+  availableUnits: number
+}
+
+export interface UnitUsage {
+  rentalCount: number
+  daysRented: number
+  lastCheckedOutAt?: string
+  maintenanceCount: number
+}
+
+// A physical unit of a serialized item
+export interface ItemUnit {
+  id: string
+  itemId: string
+  serialNumber: string
+  condition: UnitCondition
+  location?: string
+  status: ItemStatus
+  notes?: string
+  usage?: UnitUsage
   createdAt: string
   updatedAt: string
 }
 
+export interface RentalItemUnit {
+  id: string
+  rentalItemId: string
+  unitId: string
+  unit?: ItemUnit
+  checkedOutAt: string
+  returnedAt?: string
+  returnCondition?: UnitCondition
+}
+
+export type InspectionStage = 'CHECKOUT' | 'RETURN'
+
+// Check points graded at every inspection of an item in the category
+export interface InspectionChecklist {
+  id: string
+  categoryId: string
+  category?: Category
+  checks: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface InspectionCheck {
+  label: string
+  condition: UnitCondition
+  notes?: string | null
+}
+
+export interface InspectionPhoto {
+  id: string
+  contentType: string
+  createdAt: string
+}
+
+// Condition of a rental line (or one unit of it) at check-out or return
+export interface Inspection {
+  id: string
+  rentalId: string
+  rentalItemId: string
+  unitId?: string
+  unit?: ItemUnit
+  stage: InspectionStage
+  condition: UnitCondition
+  checks: InspectionCheck[]
+  notes?: string
+  maintenanceId?: string // Ticket opened when it came back worse
+  user?: Pick<User, 'id' | 'name'>
+  photos: InspectionPhoto[]
+  createdAt: string
+}
+
+export interface InspectionChange {
+  label: string
+  before: UnitCondition | null
+  after: UnitCondition
+}
+
+// Latest check-out and return inspection of a line (or unit), side by side
+export interface InspectionComparison {
+  rentalItemId: string
+  unit: ItemUnit | null
+  checkout: Inspection | null
+  return: Inspection | null
+  worsened: boolean
+  changes: InspectionChange[]
+}
+
+export interface RentalInspections {
+  lines: { rentalItemId: string; item: Pick<Item, 'id' | 'name' | 'tracking'>; checks: string[] }[]
+  comparisons: InspectionComparison[]
+}
+
+export type LabelFormat = 'qrcode' | 'code128'
+
+// What a scanned label is most likely for
+export type ScanAction = 'checkout' | 'return' | 'maintenance'
+
+export interface ScanRental {
+  id: string
+  status: RentalStatus
+  startDate: string
+  endDate: string
+  customer: { id: string; name: string }
+}
+
+// A scanned item or unit with the rentals and work orders it can jump to
+export interface ScanResult {
+  code: string
+  item: Pick<Item, 'id' | 'name' | 'status' | 'tracking'>
+  unit: ItemUnit | null
+  rentals: { out: ScanRental[]; upcoming: ScanRental[] }
+  maintenance: Pick<Maintenance, 'id' | 'status' | 'description' | 'unitId' | 'startDate' | 'endDate'>[]
+  action: ScanAction | null
+}
+
 export interface Customer {
   id: string
   name: string
@@ -49,46 +200,315 @@ export interface Customer {
   phone: string
   address?: string
   idNumber?: string
+  groupId?: string
+  group?: CustomerGroup
   createdAt: string
   updatedAt: string
 }
 
-export interface Rental {
+export interface CustomerGroup {
+  id: string
+  name: string
+  description?: string
+  discountPercent: number
+  createdAt: string
+  updatedAt: string
+}
+
+// Tiered pricing for an item or a category (admin only)
+export interface RatePlan {
+  id: string
+  name: string
+  itemId?: string
+  item?: Item
+  categoryId?: string
+  category?: Category
+  dailyRate?: number
+  weeklyRate?: number
+  monthlyRate?: number
+  weekendMultiplier: number
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Price multiplier over a date range (admin only)
+export interface SeasonalRate {
+  id: string
+  name: string
+  itemId?: string
+  categoryId?: string
+  startDate: string
+  endDate: string
+  multiplier: number
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PriceBreakdownRow {
+  type: 'MONTH' | 'WEEK' | 'DAY'
+  from: string
+  days: number
+  rate: number
+  multiplier: number
+  amount: number
+}
+
+// Itemized price of a line, as produced by the pricing engine
+export interface LinePricing {
+  rateOverride: boolean
+  ratePlanId?: string
+  ratePlanName?: string
+  ratePlanRates?: {
+    weeklyRate?: number
+    monthlyRate?: number
+    weekendMultiplier: number
+  }
+  unitPrice: number
+  breakdown: PriceBreakdownRow[]
+  grossAmount: number
+  manualDiscount: number
+  customerGroup?: string
+  groupDiscountPercent: number
+  groupDiscount: number
+}
+
+export interface PricePreviewLine {
+  itemId: string
+  itemName: string
+  quantity: number
+  availableUnits: number
+  available: boolean
+  // Admin only
+  dailyRate?: number
+  discount?: number
+  subtotal?: number
+  pricing?: LinePricing
+}
+
+// Response of POST /rentals/quote
+export interface RentalPricePreview {
+  customerId: string
+  startDate: string
+  endDate: string
+  numberOfDays: number
+  lines: PricePreviewLine[]
+  // Admin only
+  customerGroup?: CustomerGroup
+  discount?: number
+  subtotal?: number
+  totalAmount?: number
+  amountDue?: number
+  paymentStatus?: PaymentStatus
+}
+
+export interface QuoteItem {
+  id: string
+  quoteId: string
+  itemId: string
+  item?: Item
+  quantity: number
+  createdAt: string
+  // Admin only
+  dailyRate?: number
+  discount?: number
+  subtotal?: number
+  pricing?: LinePricing
+}
+
+// A priced offer that may hold stock until it expires
+export interface Quote {
   id: string
   customerId: string
   customer?: Customer
+  userId: string
+  user?: User
+  rentalId?: string
+  startDate: string
+  endDate: string
+  expiresAt: string
+  status: QuoteStatus
+  holdStock: boolean
+  notes?: string
+  sentAt?: string
+  acceptedAt?: string
+  items: QuoteItem[]
+  allowedActions?: QuoteAction[]
+  createdAt: string
+  updatedAt: string
+  // Admin only
+  numberOfDays?: number
+  subtotal?: number
+  deposit?: number
+  discount?: number
+  totalAmount?: number
+}
+
+export interface RentalItem {
+  id: string
+  rentalId: string
   itemId: string
   item?: Item
+  quantity: number
+  returnedQuantity: number
+  returnDate?: string
+  units?: RentalItemUnit[]
+  createdAt: string
+  updatedAt: string
+  // Financial fields (admin only)
+  dailyRate?: number
+  discount?: number
+  subtotal?: number
+  pricing?: LinePricing
+}
+
+// A rental order: one contract covering one or more line items
+export interface Rental {
+  id: string
+  customerId: string
+  customer?: Customer
+  items?: RentalItem[]
   userId: string
   user?: User
   startDate: string
   endDate: string
   returnDate?: string
   status: RentalStatus
+  allowedActions?: RentalAction[] // Only on single-rental responses
   notes?: string
+  cancelledAt?: string
+  cancelReason?: string
+  agreement?: RentalAgreement | null // Only on single-rental responses
   createdAt: string
   updatedAt: string
   // Financial fields (admin only)
-  dailyRate?: number
   numberOfDays?: number
   subtotal?: number
   deposit?: number
+  depositHeld?: number
+  depositStatus?: PaymentStatus
   discount?: number
   totalAmount?: number
   amountPaid?: number
   amountDue?: number
   paymentStatus?: PaymentStatus
+  adjustments?: RentalAdjustment[]
+  deposits?: DepositTransaction[]
+  extensions?: RentalExtension[]
+  invoice?: Invoice
+}
+
+// A charge added on top of a rental's line items (admin only)
+export interface RentalAdjustment {
+  id: string
+  rentalId: string
+  rentalItemId?: string
+  maintenanceId?: string
+  type: AdjustmentType
+  description: string
+  amount: number
+  accruing: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Late fee pricing, per category or the default rule (categoryId null)
+export interface LateFeeRule {
+  id: string
+  name: string
+  categoryId?: string
+  category?: Category
+  feePerDay: number
+  dailyRateMultiplier: number
+  gracePeriodHours: number
+  maxFeePerUnit?: number
+  active: boolean
+  createdAt: string
+  updatedAt: string
 }
 
 export interface Payment {
   id: string
   rentalId: string
   rental?: Rental
-  amount: number
+  type: PaymentType
+  amount: number // Negative for refunds and reversals
   paymentMethod: PaymentMethod
   paymentDate: string
   reference?: string
   notes?: string
+  reason?: string
+  reversedPaymentId?: string // Set on a REVERSAL: the payment it cancels out
+  reversedPayment?: Payment
+  reversal?: Payment // Set on a payment that has been voided
+  user?: Pick<User, 'id' | 'name'>
+  receiptNumber?: string
+  createdAt: string
+}
+
+// Signed rental agreement; the signed PDF is served by GET /rentals/:id/agreement
+export interface RentalAgreement {
+  id: string
+  signerName: string
+  signedAt: string
+  user?: Pick<User, 'id' | 'name'>
+}
+
+// Contract wording with {{placeholders}} filled from the rental
+export interface AgreementTemplate {
+  id: string
+  name: string
+  body: string
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Numbered invoice of a rental, assigned on the first invoice download
+export interface Invoice {
+  id: string
+  number: string
+  rentalId: string
+  issuedAt: string
+}
+
+// A change of a rental's end date and what it cost (admin only)
+export interface RentalExtension {
+  id: string
+  rentalId: string
+  userId: string
+  adjustmentId?: string
+  previousEndDate: string
+  newEndDate: string
+  extraDays: number
+  amount: number
+  createdAt: string
+}
+
+// Cancellation fee, by how close to the start a rental is cancelled
+export interface CancellationFeeTier {
+  id: string
+  name: string
+  withinHours: number
+  feePercent: number
+  flatFee: number
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Deposit movement on a rental (admin only)
+export interface DepositTransaction {
+  id: string
+  rentalId: string
+  rental?: Rental
+  type: DepositTransactionType
+  amount: number
+  paymentMethod?: PaymentMethod
+  paymentId?: string
+  reference?: string
+  notes?: string
   createdAt: string
 }
 
@@ -98,6 +518,8 @@ export interface Expense {
   amount: number
   category: string
   expenseDate: string
+  itemId?: string
+  item?: Pick<Item, 'id' | 'name'>
   receipt?: string
   notes?: string
   createdAt: string
@@ -108,23 +530,234 @@ export interface Maintenance {
   id: string
   itemId: string
   item?: Item
+  unitId?: string
+  unit?: ItemUnit
+  planId?: string
+  plan?: MaintenancePlan
   description: string
   status: MaintenanceStatus
-  startDate: string
-  endDate?: string
-  cost?: number // Admin only
+  technician?: string
+  notes?: string
+  startDate: string // In the future for scheduled work
+  endDate?: string // Planned end while open, completion time once completed
+  // Admin only
+  partsCost?: number
+  labourCost?: number
+  cost?: number
   createdAt: string
   updatedAt: string
 }
 
+// Recurring preventive maintenance for one item or every item of a category
+export interface MaintenancePlan {
+  id: string
+  name: string
+  description: string
+  itemId?: string
+  item?: Item
+  categoryId?: string
+  category?: Category
+  trigger: MaintenanceTrigger
+  interval: number
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Where a plan stands for one item it covers
+export interface MaintenancePlanStatus {
+  plan: Pick<MaintenancePlan, 'id' | 'name' | 'description' | 'trigger' | 'interval'>
+  item: Pick<Item, 'id' | 'name'>
+  since: string // Last completed service under the plan, or when tracking began
+  usage: number // Days, rentals or rental-days since then, per the trigger
+  remaining: number
+  dueDate: string | null // Calendar plans only
+  due: boolean // Due items cannot go out on new rentals
+  dueSoon: boolean
+  openWorkOrder: Pick<Maintenance, 'id' | 'status' | 'startDate' | 'endDate'> | null
+}
+
 export interface DashboardStats {
   totalItems: number
   availableItems: number
   activeRentals: number
   maintenanceItems: number
+  serviceDueItems: number
   // Admin only fields
   monthlyRevenue?: number
   monthlyExpenses?: number
   netProfit?: number
   outstandingPayments?: number
+  depositsHeld?: number
+}
+
+// One entry of the append-only audit log (admin only)
+export interface AuditLog {
+  id: string
+  userId?: string
+  user?: Pick<User, 'id' | 'name' | 'email'>
+  action: string
+  entity: string
+  entityId: string
+  changes?: Record<string, { from: unknown; to: unknown }>
+  metadata?: Record<string, unknown>
+  createdAt: string
+}
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90'
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number }
+
+export interface AgingRental {
+  id: string
+  status: RentalStatus
+  startDate: string
+  endDate: string
+  totalAmount: number
+  amountPaid: number
+  amountDue: number
+  daysPastDue: number
+  bucket: AgingBucket
+}
+
+export interface AgingCustomer extends AgingTotals {
+  customer: Pick<Customer, 'id' | 'name' | 'email' | 'phone'>
+  rentals: AgingRental[]
+}
+
+// Accounts receivable aging report (admin only)
+export interface AgingReport {
+  asOf: string
+  buckets: { key: AgingBucket; label: string }[]
+  totals: AgingTotals
+  customers: AgingCustomer[]
+}
+
+export type ReportGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+export interface RevenueTotals {
+  revenue: number
+  expenses: number
+  netProfit: number
+}
+
+export interface RevenuePeriod extends RevenueTotals {
+  period: string // First day of the period, in the report time zone
+}
+
+// Revenue, expenses and net profit by period (admin only)
+export interface RevenueReport {
+  granularity: ReportGranularity
+  timezone: string
+  startDate: string
+  endDate: string
+  totals: RevenueTotals
+  periods: RevenuePeriod[]
+  breakdowns: {
+    categories: { category: Pick<Category, 'id' | 'name'>; amount: number }[]
+    paymentMethods: { paymentMethod: PaymentMethod; amount: number }[]
+    staff: { user: Pick<User, 'id' | 'name'>; amount: number }[]
+    expenseCategories: { category: string; amount: number }[]
+  }
+  comparison?: {
+    compare: 'previous' | 'year'
+    startDate: string
+    endDate: string
+    totals: RevenueTotals
+    periods: RevenuePeriod[]
+    change: Record<keyof RevenueTotals, number | null>
+  }
+}
+
+// Utilization and return figures, for an item, a category or everything
+export interface UtilizationTotals {
+  daysAvailable: number // Unit-days
+  daysRented: number // Unit-days
+  utilization: number | null // %
+  revenue: number
+  maintenanceCost: number
+  procurementCost: number
+  netReturn: number
+  paybackPercent: number | null
+  roi: number | null
+}
+
+// Item utilization and ROI report (admin only)
+export interface UtilizationReport {
+  startDate: string | null
+  endDate: string
+  totals: UtilizationTotals
+  categories: (UtilizationTotals & { category: Pick<Category, 'id' | 'name'>; itemCount: number })[]
+  items: (UtilizationTotals & {
+    item: Pick<Item, 'id' | 'name' | 'status' | 'quantity' | 'dailyRate'>
+    category: Pick<Category, 'id' | 'name'>
+  })[]
+}
+
+export type DepreciationMethod = 'STRAIGHT_LINE' | 'DECLINING_BALANCE'
+
+// Units of an item bought from a supplier (admin only)
+export interface Purchase {
+  id: string
+  itemId: string
+  item?: Pick<Item, 'id' | 'name'>
+  supplier: string
+  quantity: number
+  cost: number
+  purchaseDate: string
+  warrantyUntil?: string
+  invoiceNumber?: string
+  notes?: string
+  expenseId: string
+  userId?: string
+  user?: Pick<User, 'id' | 'name'>
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DepreciationPolicy {
+  categoryId: string
+  method: DepreciationMethod
+  usefulLifeMonths?: number
+  annualRate?: number
+  salvagePercent: number
+}
+
+export interface AssetDisposal {
+  id: string
+  itemId: string
+  disposedAt: string
+  value: number
+  notes?: string
+}
+
+export interface AssetRegisterPurchase {
+  id: string
+  supplier: string
+  quantity: number
+  cost: number
+  purchaseDate: string
+  warrantyUntil: string | null
+  invoiceNumber: string | null
+  accumulatedDepreciation: number
+  bookValue: number
+}
+
+// Asset register: cost, depreciation and book value per item (admin only)
+export interface AssetRegister {
+  asOf: string
+  totals: { cost: number; accumulatedDepreciation: number; bookValue: number }
+  items: {
+    item: Pick<Item, 'id' | 'name' | 'status' | 'quantity'>
+    category: Pick<Category, 'id' | 'name'>
+    policy: DepreciationPolicy | null
+    acquiredAt: string
+    cost: number
+    accumulatedDepreciation: number
+    bookValue: number
+    warrantyUntil: string | null
+    underWarranty: boolean
+    disposal: { disposedAt: string; value: number; gainOrLoss: number; notes: string | null } | null
+    purchases: AssetRegisterPurchase[]
+  }[]
 }